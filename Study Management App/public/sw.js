@@ -0,0 +1,76 @@
+// Service worker for StudyQuest reminders. The page decides when a reminder
+// is due and shows it through this worker's registration, so it appears
+// even while the tab is in the background; clicks and the snooze action come
+// back here and are handed to an open tab, or open the app if there is none.
+// Web Push messages from the server arrive here too, with the app closed.
+
+const SNOOZE_ACTION = 'snooze'
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+self.addEventListener('push', (event) => {
+  let message
+  try {
+    message = event.data ? event.data.json() : null
+  } catch (error) {
+    message = null
+  }
+  if (!message || !message.title) return
+
+  const reminder = message.data && message.data.reminder
+  event.waitUntil(self.registration.showNotification(message.title, {
+    body: message.body,
+    tag: message.tag,
+    data: message.data,
+    requireInteraction: Boolean(reminder),
+    actions: reminder ? [{ action: SNOOZE_ACTION, title: 'Snooze 10 minutes' }] : []
+  }))
+})
+
+self.addEventListener('notificationclick', (event) => {
+  const reminder = event.notification.data && event.notification.data.reminder
+  event.notification.close()
+  if (!reminder) {
+    // Summaries and streak warnings just bring the app up
+    event.waitUntil(focusOrOpenApp())
+    return
+  }
+
+  const action = event.action === SNOOZE_ACTION ? 'snooze' : 'open'
+  event.waitUntil(handleReminderAction(action, reminder))
+})
+
+async function focusOrOpenApp() {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  const client = windows.find(w => w.url.startsWith(self.registration.scope)) || windows[0]
+  if (client && 'focus' in client) {
+    await client.focus()
+  } else {
+    await self.clients.openWindow(self.registration.scope)
+  }
+}
+
+async function handleReminderAction(action, reminder) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  const client = windows.find(w => w.url.startsWith(self.registration.scope)) || windows[0]
+
+  if (client) {
+    client.postMessage({ type: 'reminder-action', action, reminder })
+    // Snoozing shouldn't pull the app in front of whatever the user is doing
+    if (action === 'open' && 'focus' in client) await client.focus()
+    return
+  }
+
+  // No tab is open: open the app and let it carry out the action on start
+  const url = new URL(self.registration.scope)
+  url.searchParams.set('reminderAction', action)
+  url.searchParams.set('reminder', reminder.id)
+  if (reminder.tab) url.searchParams.set('tab', reminder.tab)
+  await self.clients.openWindow(url.href)
+}
@@ -6,6 +6,7 @@ import { SplashScreen } from './components/SplashScreen'
 import { Toaster } from './components/ui/sonner'
 import { supabase } from './utils/supabase/client'
 import { projectId } from './utils/supabase/info'
+import { getLocalTimeZone } from './utils/timezone'
 
 export default function App() {
   const [showSplash, setShowSplash] = useState(true)
@@ -61,6 +62,9 @@ export default function App() {
       if (response.ok) {
         const data = await response.json()
         setProfile(data.profile)
+        if (!data.profile?.timeZone) {
+          saveTimeZone(accessToken)
+        }
       }
     } catch (error) {
       console.error('Error fetching profile:', error)
@@ -69,6 +73,31 @@ export default function App() {
     }
   }
 
+  // Streak days are counted in the profile's time zone, which starts out as
+  // that of the first device to sign in
+  const saveTimeZone = async (accessToken: string) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/profile`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify({ timeZone: getLocalTimeZone() }),
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setProfile(data.profile)
+      }
+    } catch (error) {
+      console.error('Error saving time zone:', error)
+    }
+  }
+
   const handleAuthSuccess = (newSession: any) => {
     setSession(newSession)
     fetchProfile(newSession.access_token)
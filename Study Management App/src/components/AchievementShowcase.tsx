@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Progress } from './ui/progress'
+import { motion, AnimatePresence } from 'motion/react'
+import { BookOpen, Brain, CheckSquare, Clock, Flame, GraduationCap, Trophy } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { ACHIEVEMENTS, getAchievement, type AchievementId, type AchievementProgress } from '../utils/achievements'
+
+const ACHIEVEMENT_ICONS: { [id in AchievementId]: typeof Trophy } = {
+  first_session: BookOpen,
+  streak_7: Flame,
+  streak_30: Flame,
+  streak_100: Flame,
+  hours_100: Clock,
+  reviews_50: Brain,
+  tasks_cleared_week: CheckSquare,
+  subject_mastered: GraduationCap
+}
+
+// How long an unlock stays on screen before the next one, if any, shows
+const UNLOCK_DISPLAY_MS = 4000
+
+interface AchievementShowcaseProps {
+  session: any
+  profile: any
+  onProfileUpdate: () => void
+}
+
+// Every achievement as a badge: unlocked ones with their date, the rest
+// greyed out with how far along they are
+export function AchievementShowcase({ session, profile, onProfileUpdate }: AchievementShowcaseProps) {
+  const [achievements, setAchievements] = useState<AchievementProgress[]>([])
+  const unlockedCount = profile.achievements?.length || 0
+
+  useEffect(() => {
+    fetchAchievements()
+  }, [unlockedCount])
+
+  const fetchAchievements = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/achievements`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setAchievements(data.achievements || [])
+        // Achievements earned before they were awarded unlock on first load
+        if (data.newlyUnlocked?.length > 0) onProfileUpdate()
+      }
+    } catch (error) {
+      console.error('Error fetching achievements:', error)
+    }
+  }
+
+  const unlocked = achievements.filter(achievement => achievement.unlockedAt)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="w-5 h-5 text-yellow-500" />
+          Achievements
+        </CardTitle>
+        <CardDescription>
+          {unlocked.length} of {ACHIEVEMENTS.length} unlocked
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {achievements.map((progress) => {
+            const achievement = getAchievement(progress.id)
+            const Icon = ACHIEVEMENT_ICONS[progress.id]
+            return (
+              <div
+                key={progress.id}
+                title={achievement.description}
+                className={`p-3 border rounded-lg space-y-2 ${progress.unlockedAt ? 'bg-yellow-50 border-yellow-200' : ''}`}
+              >
+                <div className="flex items-center gap-2">
+                  <div
+                    className={`w-12 h-12 rounded-full flex items-center justify-center shrink-0 ${
+                      progress.unlockedAt ? 'bg-yellow-100 text-yellow-600' : 'bg-gray-100 text-gray-400'
+                    }`}
+                  >
+                    <Icon className="w-5 h-5" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className={`text-sm truncate ${progress.unlockedAt ? '' : 'text-gray-500'}`}>{achievement.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {progress.unlockedAt
+                        ? new Date(progress.unlockedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+                        : `${progress.current} / ${progress.target} ${achievement.unit}`}
+                    </p>
+                  </div>
+                </div>
+                {!progress.unlockedAt && <Progress value={progress.current / progress.target * 100} />}
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Celebrates newly unlocked achievements one at a time
+export function AchievementUnlock({ ids, onDone }: { ids: AchievementId[]; onDone: (id: AchievementId) => void }) {
+  const current = ids[0]
+
+  useEffect(() => {
+    if (!current) return
+    const timer = setTimeout(() => onDone(current), UNLOCK_DISPLAY_MS)
+    return () => clearTimeout(timer)
+  }, [current])
+
+  const achievement = current ? getAchievement(current) : null
+  const Icon = current ? ACHIEVEMENT_ICONS[current] : Trophy
+
+  return (
+    <AnimatePresence>
+      {achievement && (
+        <motion.div
+          key={current}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+          onClick={() => onDone(current)}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+        >
+          <motion.div
+            className="bg-white rounded-lg shadow-2xl p-6 text-center space-y-3"
+            style={{ maxWidth: '20rem' }}
+            initial={{ scale: 0.5, y: 40 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.8, opacity: 0 }}
+            transition={{ type: 'spring', stiffness: 260, damping: 20 }}
+          >
+            <motion.div
+              className="w-16 h-16 mx-auto rounded-full bg-yellow-100 text-yellow-600 flex items-center justify-center"
+              initial={{ rotate: -180, scale: 0 }}
+              animate={{ rotate: 0, scale: [0, 1.3, 1] }}
+              transition={{ duration: 0.8, delay: 0.2 }}
+            >
+              <Icon className="w-8 h-8" />
+            </motion.div>
+            <p className="text-xs text-yellow-600">Achievement unlocked</p>
+            <p className="text-xl">{achievement.title}</p>
+            <p className="text-sm text-gray-600">{achievement.description}</p>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
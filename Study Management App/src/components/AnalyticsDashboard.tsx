@@ -55,7 +55,7 @@ export function AnalyticsDashboard({ session, profile }: AnalyticsDashboardProps
     const weekData = days.map(day => ({ day, minutes: 0 }))
     
     studyRecords.forEach(record => {
-      const date = new Date(record.createdAt)
+      const date = new Date(record.studiedAt || record.startedAt || record.createdAt)
       const dayIndex = date.getDay()
       weekData[dayIndex].minutes += record.duration || 0
     })
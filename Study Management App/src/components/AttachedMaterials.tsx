@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { toast } from 'sonner@2.0.3'
+import { Paperclip, FileText, X } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { getDocumentUrl } from '../utils/documents'
+import { attachmentKey, isSameAttachment, MAX_ATTACHMENTS, type Attachment } from '../utils/attachments'
+
+export type AttachableRoute = 'task' | 'goal' | 'review-schedule' | 'study-record'
+
+interface AttachedMaterialsProps {
+  session: any
+  documents: any[]
+  attachments?: Attachment[]
+  recordRoute: AttachableRoute
+  recordId: string
+  onChange: (attachments: Attachment[]) => void
+}
+
+const PDF_FILE_PATTERN = /\.pdf$/i
+
+// Loads the user's uploaded documents once for a whole list of cards
+export function useDocuments(session: any) {
+  const [documents, setDocuments] = useState<any[]>([])
+
+  useEffect(() => {
+    const fetchDocuments = async () => {
+      try {
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/documents`,
+          {
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+            },
+          }
+        )
+
+        if (response.ok) {
+          const data = await response.json()
+          setDocuments(data.documents || [])
+        }
+      } catch (error) {
+        console.error('Error fetching documents:', error)
+      }
+    }
+    fetchDocuments()
+  }, [session.access_token])
+
+  return documents
+}
+
+export function AttachedMaterials({ session, documents, attachments = [], recordRoute, recordId, onChange }: AttachedMaterialsProps) {
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [documentId, setDocumentId] = useState('')
+  const [page, setPage] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const documentsById = new Map(documents.map(doc => [doc.id, doc]))
+  // Links to documents that are still loading or were deleted aren't shown
+  const visibleAttachments = attachments.filter(a => documentsById.has(a.documentId))
+  const selectedIsPdf = PDF_FILE_PATTERN.test(documentsById.get(documentId)?.fileName || '')
+
+  const saveAttachments = async (next: Attachment[]) => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/${recordRoute}/${recordId}/attachments`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ attachments: next }),
+        }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error('Failed to update materials: ' + data.error)
+        return false
+      }
+      onChange(data.attachments)
+      return true
+    } catch (error) {
+      console.error('Error updating attachments:', error)
+      toast.error('Failed to update materials')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const addAttachment = async () => {
+    if (!documentId) {
+      toast.error('Please choose a document')
+      return
+    }
+    const pageNumber = selectedIsPdf && page ? parseInt(page) : undefined
+    if (pageNumber !== undefined && (!Number.isInteger(pageNumber) || pageNumber < 1)) {
+      toast.error('Please enter a valid page number')
+      return
+    }
+
+    const attachment: Attachment = pageNumber ? { documentId, page: pageNumber } : { documentId }
+    if (attachments.some(existing => isSameAttachment(existing, attachment))) {
+      toast.error('That material is already linked')
+      return
+    }
+
+    if (await saveAttachments([...attachments, attachment])) {
+      setDialogOpen(false)
+      setDocumentId('')
+      setPage('')
+    }
+  }
+
+  const removeAttachment = (attachment: Attachment) => {
+    saveAttachments(attachments.filter(existing => !isSameAttachment(existing, attachment)))
+  }
+
+  // The tab is opened straight away so popup blockers allow it, then pointed
+  // at the signed link once it arrives
+  const openAttachment = async (attachment: Attachment) => {
+    const tab = window.open('', '_blank')
+    try {
+      const url = await getDocumentUrl(session.access_token, attachment.documentId)
+      const target = attachment.page ? `${url}#page=${attachment.page}` : url
+      if (tab) {
+        tab.location.href = target
+      } else {
+        window.location.href = target
+      }
+    } catch (error) {
+      console.error('Error opening document:', error)
+      tab?.close()
+      toast.error('Failed to open document')
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {visibleAttachments.map((attachment) => {
+        const doc = documentsById.get(attachment.documentId)
+        return (
+          <span
+            key={attachmentKey(attachment)}
+            className="inline-flex items-center gap-1 px-2 py-0.5 text-xs border rounded-md bg-gray-50"
+          >
+            <button
+              type="button"
+              onClick={() => openAttachment(attachment)}
+              className="inline-flex items-center gap-1 hover:underline"
+              title="Open"
+            >
+              <FileText className="w-3 h-3" />
+              {doc.title || doc.fileName}
+              {attachment.page && <span className="text-gray-500">p. {attachment.page}</span>}
+            </button>
+            <button
+              type="button"
+              onClick={() => removeAttachment(attachment)}
+              disabled={isSaving}
+              className="text-gray-400 hover:text-red-700"
+              title="Unlink"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        )
+      })}
+
+      {attachments.length < MAX_ATTACHMENTS && documents.length > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => setDialogOpen(true)} className="text-gray-500">
+          <Paperclip className="w-4 h-4 mr-1" />
+          Link material
+        </Button>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Link Study Material</DialogTitle>
+            <DialogDescription>Choose an uploaded document, or a page of a PDF</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`attachment-document-${recordId}`}>Document</Label>
+              <Select value={documentId} onValueChange={setDocumentId}>
+                <SelectTrigger id={`attachment-document-${recordId}`}>
+                  <SelectValue placeholder="Select a document" />
+                </SelectTrigger>
+                <SelectContent>
+                  {documents.map((doc) => (
+                    <SelectItem key={doc.id} value={doc.id}>
+                      {doc.title || doc.fileName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedIsPdf && (
+              <div className="space-y-2">
+                <Label htmlFor={`attachment-page-${recordId}`}>Page (optional)</Label>
+                <Input
+                  id={`attachment-page-${recordId}`}
+                  type="number"
+                  min="1"
+                  value={page}
+                  onChange={(e) => setPage(e.target.value)}
+                  placeholder="Whole document"
+                />
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={addAttachment} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Link'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from './ui/dialog'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from './ui/command'
+import { Search, History } from 'lucide-react'
+import {
+  loadRecentCommands,
+  matchCommand,
+  runCommand,
+  saveRecentCommand,
+  useRegisteredCommands,
+  type AppCommand
+} from '../utils/commands'
+
+interface CommandPaletteProps {
+  session: any
+  onNavigate: (tab: string) => void
+  onSearch: (query: string) => void
+}
+
+const MAX_MATCHES = 12
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+export function CommandPalette({ session, onNavigate, onSearch }: CommandPaletteProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [recentIds, setRecentIds] = useState<string[]>(() => loadRecentCommands(session.user.id))
+  const commands = useRegisteredCommands()
+
+  // Ctrl+K / Cmd+K opens the palette from anywhere in the app
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen(prev => !prev)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  useEffect(() => {
+    if (!open) setQuery('')
+  }, [open])
+
+  const execute = (command: AppCommand) => {
+    setOpen(false)
+    setRecentIds(saveRecentCommand(session.user.id, command.id))
+    // Let the dialog close before the command opens its own
+    setTimeout(() => runCommand(command, onNavigate), 0)
+  }
+
+  const searchEverything = () => {
+    setOpen(false)
+    const text = query.trim()
+    setTimeout(() => onSearch(text), 0)
+  }
+
+  const trimmed = query.trim()
+  const recentCommands = recentIds
+    .map(id => commands.find(command => command.id === id))
+    .filter((command): command is AppCommand => Boolean(command))
+
+  const matches = trimmed
+    ? commands
+        .map(command => ({ command, score: matchCommand(trimmed, command) }))
+        .filter((match): match is { command: AppCommand; score: number } => match.score !== null)
+        .sort((a, b) => b.score - a.score || a.command.title.localeCompare(b.command.title))
+        .slice(0, MAX_MATCHES)
+        .map(match => match.command)
+    : []
+
+  // Without a query, commands are listed by section in registration order
+  const groups = [...new Set(commands.map(command => command.group))]
+
+  const renderItem = (command: AppCommand) => (
+    <CommandItem key={command.id} value={command.id} onSelect={() => execute(command)}>
+      {command.title}
+    </CommandItem>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="overflow-hidden p-0">
+        <DialogTitle className="sr-only">Command Palette</DialogTitle>
+        <DialogDescription className="sr-only">Jump to a section or run a quick action</DialogDescription>
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder={`Type a command... (${isMac ? '⌘' : 'Ctrl+'}K)`}
+          />
+          <CommandList style={{ maxHeight: '60vh' }}>
+            <CommandEmpty>No matching commands</CommandEmpty>
+
+            {trimmed ? (
+              <>
+                {matches.length > 0 && (
+                  <CommandGroup heading="Commands">
+                    {matches.map(renderItem)}
+                  </CommandGroup>
+                )}
+                <CommandGroup heading="Search">
+                  <CommandItem value="search-everything" onSelect={searchEverything}>
+                    <Search />
+                    Search everything for "{trimmed}"
+                  </CommandItem>
+                </CommandGroup>
+              </>
+            ) : (
+              <>
+                {recentCommands.length > 0 && (
+                  <CommandGroup heading="Recent">
+                    {recentCommands.map(command => (
+                      <CommandItem
+                        key={`recent:${command.id}`}
+                        value={`recent:${command.id}`}
+                        onSelect={() => execute(command)}
+                      >
+                        <History />
+                        {command.title}
+                        <CommandShortcut>{command.group}</CommandShortcut>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+                {groups.map(group => (
+                  <CommandGroup key={group} heading={group}>
+                    {commands.filter(command => command.group === group).map(renderItem)}
+                  </CommandGroup>
+                ))}
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,10 +1,10 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Button } from './ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Avatar, AvatarFallback } from './ui/avatar'
 import { 
   LogOut, Trophy, Target, Calendar, BookOpen, 
-  BarChart3, CheckSquare, Clock, Zap, Award, RefreshCw
+  BarChart3, CheckSquare, Clock, Zap, Award, RefreshCw, FolderOpen, Search
 } from 'lucide-react'
 import { StudyRecordsImproved } from './StudyRecordsImproved'
 import { RoutinePlanner } from './RoutinePlanner'
@@ -13,8 +13,31 @@ import { TasksSection } from './TasksSection'
 import { AnalyticsDashboard } from './AnalyticsDashboard'
 import { SpacedRepetitionFixed } from './SpacedRepetitionFixed'
 import { WeeklyCalendar } from './WeeklyCalendar'
+import { MaterialsLibrary } from './MaterialsLibrary'
+import { SearchPalette } from './SearchPalette'
+import { CommandPalette } from './CommandPalette'
+import { registerCommands, useCommandHandler } from '../utils/commands'
 import { NotesReminders, NotesFloatingButton } from './NotesReminders'
+import { ReminderCenter } from './ReminderCenter'
 import { SubjectManagement } from './SubjectManagement'
+import { XpHistory } from './XpHistory'
+import { StreakPanel } from './StreakPanel'
+import { AchievementShowcase, AchievementUnlock } from './AchievementShowcase'
+import { readUnlockedAchievements, type AchievementId } from '../utils/achievements'
+
+registerCommands([
+  { id: 'nav.overview', title: 'Go to Overview', group: 'Navigate', keywords: ['analytics', 'home'], tab: 'overview' },
+  { id: 'nav.study', title: 'Go to Study Log', group: 'Navigate', keywords: ['records', 'sessions'], tab: 'study' },
+  { id: 'nav.routine', title: 'Go to Routine', group: 'Navigate', keywords: ['timetable', 'planner'], tab: 'routine' },
+  { id: 'nav.tasks', title: 'Go to Tasks', group: 'Navigate', keywords: ['homework', 'todo'], tab: 'tasks' },
+  { id: 'nav.goals', title: 'Go to Goals', group: 'Navigate', tab: 'goals' },
+  { id: 'nav.revision', title: 'Go to Revision', group: 'Navigate', keywords: ['flashcards', 'review'], tab: 'revision' },
+  { id: 'nav.calendar', title: 'Go to Calendar', group: 'Navigate', keywords: ['week', 'schedule'], tab: 'calendar' },
+  { id: 'nav.materials', title: 'Go to Materials', group: 'Navigate', keywords: ['documents', 'files', 'upload'], tab: 'materials' },
+  { id: 'search.open', title: 'Search everything', group: 'General', keywords: ['find'] },
+  { id: 'xp.history', title: 'Show XP history', group: 'General', keywords: ['points', 'level'] },
+  { id: 'streak.open', title: 'Show study streak', group: 'General', keywords: ['days off', 'holiday', 'sick', 'freeze'] },
+])
 
 interface DashboardProps {
   session: any
@@ -26,6 +49,33 @@ interface DashboardProps {
 export function Dashboard({ session, profile, onSignOut, onProfileUpdate }: DashboardProps) {
   const [activeTab, setActiveTab] = useState('overview')
   const [notesOpen, setNotesOpen] = useState(false)
+  const [xpHistoryOpen, setXpHistoryOpen] = useState(false)
+  const [streakOpen, setStreakOpen] = useState(false)
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [unlockQueue, setUnlockQueue] = useState<AchievementId[]>([])
+  const seenAchievements = useRef<Set<AchievementId> | null>(null)
+
+  // Achievements are awarded by the server after whatever earned them; any
+  // that turn up on the refreshed profile get their unlock animation. Those
+  // already unlocked when the dashboard opens don't.
+  useEffect(() => {
+    const ids = readUnlockedAchievements(profile.achievements).map(achievement => achievement.id)
+    if (seenAchievements.current) {
+      const fresh = ids.filter(id => !seenAchievements.current!.has(id))
+      if (fresh.length > 0) setUnlockQueue(queue => [...queue, ...fresh])
+    }
+    seenAchievements.current = new Set(ids)
+  }, [profile.achievements])
+
+  const openSearch = (query = '') => {
+    setSearchQuery(query)
+    setSearchOpen(true)
+  }
+
+  useCommandHandler('search.open', () => openSearch())
+  useCommandHandler('xp.history', () => setXpHistoryOpen(true))
+  useCommandHandler('streak.open', () => setStreakOpen(true))
 
   const level = Math.floor(profile.xp / 1000) + 1
   const xpForNextLevel = level * 1000
@@ -70,7 +120,12 @@ export function Dashboard({ session, profile, onSignOut, onProfileUpdate }: Dash
 
             <div className="flex items-center gap-4">
               {/* XP and Level */}
-              <div className="hidden sm:flex items-center gap-3 bg-gradient-to-r from-indigo-50 to-purple-50 px-4 py-2 rounded-full">
+              <button
+                type="button"
+                onClick={() => setXpHistoryOpen(true)}
+                title="XP history"
+                className="hidden sm:flex items-center gap-3 bg-gradient-to-r from-indigo-50 to-purple-50 px-4 py-2 rounded-full"
+              >
                 <div className="flex items-center gap-2">
                   <Zap className="w-5 h-5 text-yellow-500" />
                   <span className="text-sm">Level {level}</span>
@@ -82,18 +137,33 @@ export function Dashboard({ session, profile, onSignOut, onProfileUpdate }: Dash
                   />
                 </div>
                 <span className="text-sm text-gray-600">{profile.xp} XP</span>
-              </div>
+              </button>
 
               {/* Streak */}
-              <div className="hidden sm:flex items-center gap-2 bg-orange-50 px-4 py-2 rounded-full">
+              <button
+                type="button"
+                onClick={() => setStreakOpen(true)}
+                title="Study streak"
+                className="hidden sm:flex items-center gap-2 bg-orange-50 px-4 py-2 rounded-full"
+              >
                 <Award className="w-5 h-5 text-orange-500" />
                 <span className="text-sm">
                   {profile.streak} day{profile.streak !== 1 ? 's' : ''} streak
                 </span>
-              </div>
+              </button>
 
               {/* User menu */}
               <div className="flex items-center gap-3">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => openSearch()}
+                  title="Search"
+                  className="hover:bg-indigo-50"
+                >
+                  <Search className="w-4 h-4" />
+                </Button>
+
                 {/* Refresh Button */}
                 <Button 
                   variant="outline" 
@@ -126,7 +196,7 @@ export function Dashboard({ session, profile, onSignOut, onProfileUpdate }: Dash
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 lg:grid-cols-7 gap-2">
+          <TabsList className="grid w-full h-auto grid-cols-4 lg:grid-cols-8 gap-2">
             <TabsTrigger value="overview" className="flex items-center gap-2">
               <BarChart3 className="w-4 h-4" />
               <span className="hidden sm:inline">Overview</span>
@@ -155,6 +225,10 @@ export function Dashboard({ session, profile, onSignOut, onProfileUpdate }: Dash
               <Calendar className="w-4 h-4" />
               <span className="hidden sm:inline">Calendar</span>
             </TabsTrigger>
+            <TabsTrigger value="materials" className="flex items-center gap-2">
+              <FolderOpen className="w-4 h-4" />
+              <span className="hidden sm:inline">Materials</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -162,6 +236,7 @@ export function Dashboard({ session, profile, onSignOut, onProfileUpdate }: Dash
               <SubjectManagement session={session} />
             </div>
             <AnalyticsDashboard session={session} profile={profile} />
+            <AchievementShowcase session={session} profile={profile} onProfileUpdate={onProfileUpdate} />
           </TabsContent>
 
           <TabsContent value="study">
@@ -187,6 +262,10 @@ export function Dashboard({ session, profile, onSignOut, onProfileUpdate }: Dash
           <TabsContent value="calendar">
             <WeeklyCalendar session={session} />
           </TabsContent>
+
+          <TabsContent value="materials">
+            <MaterialsLibrary session={session} />
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -194,7 +273,29 @@ export function Dashboard({ session, profile, onSignOut, onProfileUpdate }: Dash
       <NotesFloatingButton onClick={() => setNotesOpen(true)} />
       
       {/* Notes & Reminders Dialog */}
-      <NotesReminders isOpen={notesOpen} onClose={() => setNotesOpen(false)} />
+      <NotesReminders session={session} isOpen={notesOpen} onOpen={() => setNotesOpen(true)} onClose={() => setNotesOpen(false)} />
+
+      <SearchPalette
+        session={session}
+        open={searchOpen}
+        initialQuery={searchQuery}
+        onOpenChange={setSearchOpen}
+        onNavigate={setActiveTab}
+        onOpenNotes={() => setNotesOpen(true)}
+      />
+
+      <CommandPalette session={session} onNavigate={setActiveTab} onSearch={openSearch} />
+
+      <ReminderCenter session={session} onNavigate={setActiveTab} onOpenNotes={() => setNotesOpen(true)} />
+
+      <XpHistory session={session} isOpen={xpHistoryOpen} onClose={() => setXpHistoryOpen(false)} />
+      <StreakPanel
+        session={session}
+        isOpen={streakOpen}
+        onClose={() => setStreakOpen(false)}
+        onStreakChange={onProfileUpdate}
+      />
+      <AchievementUnlock ids={unlockQueue} onDone={(id) => setUnlockQueue(queue => queue.filter(queued => queued !== id))} />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,348 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Badge } from './ui/badge'
+import { toast } from 'sonner@2.0.3'
+import { Upload, Download, FileUp } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { cardMatchKey, topicMatchKey } from '../utils/spacedRepetition'
+import { exportDeck, parseDeckFile, type DeckFormat, type DeckTopic } from '../utils/deckFormats'
+
+interface DeckImportExportProps {
+  session: any
+  schedules: any[]
+  subjects: string[]
+  onImported: () => void
+}
+
+interface TopicPreview extends DeckTopic {
+  include: boolean
+  existing: boolean
+  newCards: number
+  duplicateCards: number
+}
+
+const FORMAT_LABELS: { [format in DeckFormat]: string } = {
+  apkg: 'Anki package (.apkg)',
+  csv: 'CSV (.csv)',
+  tsv: 'Tab-separated (.tsv)'
+}
+
+// Mirrors the server's duplicate rules so the preview shows what will happen
+function buildPreview(topics: DeckTopic[], schedules: any[], subject: string): TopicPreview[] {
+  const existingByTopic = new Map(schedules.map(s => [topicMatchKey(s.subject || '', s.topic), s]))
+
+  return topics.map((topic) => {
+    const existing = existingByTopic.get(topicMatchKey(subject, topic.topic))
+    const seenFronts = new Set((existing?.cards || []).map((card: any) => cardMatchKey(card.front)))
+    let newCards = 0
+    topic.cards.forEach((card) => {
+      const key = cardMatchKey(card.front)
+      if (seenFronts.has(key)) return
+      seenFronts.add(key)
+      newCards++
+    })
+    return {
+      ...topic,
+      include: newCards > 0,
+      existing: !!existing,
+      newCards,
+      duplicateCards: topic.cards.length - newCards
+    }
+  })
+}
+
+const fileSafeName = (name: string) => name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'deck'
+
+export function DeckImportExport({ session, schedules, subjects, onImported }: DeckImportExportProps) {
+  const [importOpen, setImportOpen] = useState(false)
+  const [exportOpen, setExportOpen] = useState(false)
+  const [importSubject, setImportSubject] = useState('')
+  const [parsedTopics, setParsedTopics] = useState<DeckTopic[]>([])
+  const [excludedTopics, setExcludedTopics] = useState<string[]>([])
+  const [fileName, setFileName] = useState('')
+  const [isParsing, setIsParsing] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [exportSubject, setExportSubject] = useState('')
+  const [exportFormat, setExportFormat] = useState<DeckFormat>('apkg')
+  const [isExporting, setIsExporting] = useState(false)
+
+  const preview = importSubject ? buildPreview(parsedTopics, schedules, importSubject) : []
+  const selectedTopics = preview.filter(t => t.include && !excludedTopics.includes(t.topic))
+  const selectedCardCount = selectedTopics.reduce((sum, t) => sum + t.newCards, 0)
+
+  // Only subjects with at least one card can be exported
+  const exportableSubjects = [...new Set(
+    schedules.filter(s => (s.cards || []).length > 0).map(s => s.subject || 'General')
+  )]
+
+  const resetImport = () => {
+    setParsedTopics([])
+    setExcludedTopics([])
+    setFileName('')
+  }
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setIsParsing(true)
+    try {
+      const topics = await parseDeckFile(file)
+      if (topics.length === 0) {
+        toast.error('No cards with both a front and a back were found in this file')
+        return
+      }
+      setParsedTopics(topics)
+      setExcludedTopics([])
+      setFileName(file.name)
+    } catch (error: any) {
+      console.error('Error reading deck file:', error)
+      toast.error(error?.message || 'Failed to read deck file')
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const toggleTopic = (topic: string, include: boolean) => {
+    setExcludedTopics(prev => include ? prev.filter(t => t !== topic) : [...prev, topic])
+  }
+
+  const handleImport = async () => {
+    if (!importSubject) {
+      toast.error('Please choose a subject')
+      return
+    }
+    if (selectedTopics.length === 0) {
+      toast.error('Nothing new to import')
+      return
+    }
+
+    setIsImporting(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/review-schedules/import-deck`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            subject: importSubject,
+            topics: selectedTopics.map(({ topic, cards, source }) => ({ topic, cards, source }))
+          }),
+        }
+      )
+
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(`📥 Imported ${data.cardsAdded} card${data.cardsAdded !== 1 ? 's' : ''} into ${data.created} new and ${data.merged} existing topic${data.merged !== 1 ? 's' : ''}`)
+        resetImport()
+        setImportOpen(false)
+        onImported()
+      } else {
+        toast.error('Failed to import deck: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error importing deck:', error)
+      toast.error('Failed to import deck')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleExport = async () => {
+    const topics: DeckTopic[] = schedules
+      .filter(s => (s.subject || 'General') === exportSubject && (s.cards || []).length > 0)
+      .map(s => ({
+        topic: s.topic,
+        cards: s.cards.map((card: any) => ({ front: card.front, back: card.back })),
+        source: 'csv'
+      }))
+
+    if (topics.length === 0) {
+      toast.error('This subject has no flashcards to export')
+      return
+    }
+
+    setIsExporting(true)
+    try {
+      const blob = await exportDeck(exportSubject, topics, exportFormat)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${fileSafeName(exportSubject)}.${exportFormat}`
+      link.click()
+      URL.revokeObjectURL(url)
+      toast.success(`📤 Exported ${topics.length} topic${topics.length !== 1 ? 's' : ''}`)
+      setExportOpen(false)
+    } catch (error) {
+      console.error('Error exporting deck:', error)
+      toast.error('Failed to export deck')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setImportOpen(true)}>
+        <Upload className="w-4 h-4 sm:mr-2" />
+        <span className="hidden sm:inline">Import</span>
+      </Button>
+      <Button variant="outline" onClick={() => setExportOpen(true)} disabled={exportableSubjects.length === 0}>
+        <Download className="w-4 h-4 sm:mr-2" />
+        <span className="hidden sm:inline">Export</span>
+      </Button>
+
+      {/* Import */}
+      <Dialog open={importOpen} onOpenChange={(open) => { setImportOpen(open); if (!open) resetImport() }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import Flashcard Deck</DialogTitle>
+            <DialogDescription>
+              Bring in an Anki package (.apkg) or a CSV/TSV file with front, back and optional topic columns
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="deck-import-subject">Subject</Label>
+              <Select value={importSubject} onValueChange={setImportSubject}>
+                <SelectTrigger id="deck-import-subject">
+                  <SelectValue placeholder="Select subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {subjects.map((subj) => (
+                    <SelectItem key={subj} value={subj}>
+                      {subj}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Deck File</Label>
+              <Button type="button" variant="outline" className="w-full" disabled={isParsing} asChild>
+                <label className="cursor-pointer">
+                  <FileUp className="w-4 h-4 mr-2" />
+                  {isParsing ? 'Reading deck...' : fileName || 'Choose .apkg, .csv or .tsv file'}
+                  <input
+                    type="file"
+                    accept=".apkg,.colpkg,.csv,.tsv,.txt"
+                    className="hidden"
+                    onChange={handleFileSelect}
+                  />
+                </label>
+              </Button>
+            </div>
+
+            {parsedTopics.length > 0 && !importSubject && (
+              <p className="text-sm text-gray-600">Choose a subject to preview the import</p>
+            )}
+
+            {preview.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-lg">Preview</h3>
+                {preview.map((topic) => (
+                  <div
+                    key={topic.topic}
+                    className={`flex items-center gap-3 p-3 border rounded-lg ${topic.include ? '' : 'opacity-50'}`}
+                  >
+                    <Checkbox
+                      checked={topic.include && !excludedTopics.includes(topic.topic)}
+                      disabled={!topic.include}
+                      onCheckedChange={(checked) => toggleTopic(topic.topic, checked === true)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate">{topic.topic}</p>
+                      <p className="text-xs text-gray-500">
+                        {topic.newCards} new card{topic.newCards !== 1 ? 's' : ''}
+                        {topic.duplicateCards > 0 && `, ${topic.duplicateCards} already in your deck`}
+                      </p>
+                    </div>
+                    {topic.existing ? (
+                      <Badge variant="secondary">Adds to existing topic</Badge>
+                    ) : (
+                      <Badge variant="outline">New topic</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setImportOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting || selectedCardCount === 0}>
+                {isImporting ? 'Importing...' : `Import ${selectedCardCount} Card${selectedCardCount !== 1 ? 's' : ''}`}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Export */}
+      <Dialog open={exportOpen} onOpenChange={setExportOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Export Flashcards</DialogTitle>
+            <DialogDescription>
+              Download a subject's revision topics to use in Anki or a spreadsheet
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="deck-export-subject">Subject</Label>
+              <Select value={exportSubject} onValueChange={setExportSubject}>
+                <SelectTrigger id="deck-export-subject">
+                  <SelectValue placeholder="Select subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {exportableSubjects.map((subj) => (
+                    <SelectItem key={subj} value={subj}>
+                      {subj}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deck-export-format">Format</Label>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as DeckFormat)}>
+                <SelectTrigger id="deck-export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FORMAT_LABELS) as DeckFormat[]).map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {FORMAT_LABELS[format]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setExportOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleExport} disabled={isExporting || !exportSubject}>
+                {isExporting ? 'Exporting...' : 'Download'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,5 @@
+// The message under a form field that failed its schema (see utils/schemas)
+export function FieldError({ message }: { message?: string }) {
+  if (!message) return null
+  return <p className="text-xs text-red-600" role="alert">{message}</p>
+}
@@ -0,0 +1,325 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Card, CardContent } from './ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Badge } from './ui/badge'
+import { toast } from 'sonner@2.0.3'
+import { Plus, Pencil, Trash2, ImageIcon, Upload, Layers } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+
+export interface Flashcard {
+  id: string
+  front: string
+  back: string
+  imageDocumentId: string | null
+  lastGrade?: string
+  lastReviewedAt?: string
+  createdAt: string
+}
+
+interface FlashcardDeckEditorProps {
+  session: any
+  schedule: any
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onScheduleUpdate: (schedule: any) => void
+}
+
+const IMAGE_FILE_PATTERN = /\.(png|jpe?g|gif|webp|svg)$/i
+const NO_IMAGE = 'none'
+
+export function FlashcardDeckEditor({ session, schedule, open, onOpenChange, onScheduleUpdate }: FlashcardDeckEditorProps) {
+  const [images, setImages] = useState<any[]>([])
+  const [editingCardId, setEditingCardId] = useState<string | null>(null)
+  const [front, setFront] = useState('')
+  const [back, setBack] = useState('')
+  const [imageDocumentId, setImageDocumentId] = useState<string>(NO_IMAGE)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const cards: Flashcard[] = schedule?.cards || []
+
+  useEffect(() => {
+    if (open) {
+      fetchImages()
+      resetForm()
+    }
+  }, [open])
+
+  const fetchImages = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/documents`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setImages((data.documents || []).filter((doc: any) => IMAGE_FILE_PATTERN.test(doc.fileName || '')))
+      }
+    } catch (error) {
+      console.error('Error fetching images:', error)
+    }
+  }
+
+  const resetForm = () => {
+    setEditingCardId(null)
+    setFront('')
+    setBack('')
+    setImageDocumentId(NO_IMAGE)
+  }
+
+  const startEditing = (card: Flashcard) => {
+    setEditingCardId(card.id)
+    setFront(card.front)
+    setBack(card.back)
+    setImageDocumentId(card.imageDocumentId || NO_IMAGE)
+  }
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setIsUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('title', file.name)
+      formData.append('description', `Flashcard image for ${schedule.topic}`)
+
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/upload-document`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: formData,
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        await fetchImages()
+        setImageDocumentId(data.documentId)
+        toast.success('Image uploaded')
+      } else {
+        const data = await response.json()
+        toast.error('Failed to upload image: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error uploading image:', error)
+      toast.error('Failed to upload image')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!front.trim() || !back.trim()) {
+      toast.error('Please fill in both sides of the card')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const cardPath = editingCardId ? `card/${editingCardId}` : 'card'
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/review-schedule/${schedule.id}/${cardPath}`,
+        {
+          method: editingCardId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            front,
+            back,
+            imageDocumentId: imageDocumentId === NO_IMAGE ? null : imageDocumentId
+          }),
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        onScheduleUpdate(data.schedule)
+        toast.success(editingCardId ? 'Card updated' : '✅ Card added')
+        resetForm()
+      } else {
+        const data = await response.json()
+        toast.error('Failed to save card: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error saving card:', error)
+      toast.error('An error occurred while saving the card')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteCard = async (card: Flashcard) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/review-schedule/${schedule.id}/card/${card.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        onScheduleUpdate(data.schedule)
+        if (editingCardId === card.id) resetForm()
+        toast.success('Card deleted')
+      } else {
+        toast.error('Failed to delete card')
+      }
+    } catch (error) {
+      console.error('Error deleting card:', error)
+      toast.error('Failed to delete card')
+    }
+  }
+
+  if (!schedule) return null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5 text-purple-600" />
+            {schedule.topic} Flashcards
+          </DialogTitle>
+          <DialogDescription>
+            Write a question on the front and the answer on the back
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="card-front">Front</Label>
+              <Textarea
+                id="card-front"
+                value={front}
+                onChange={(e) => setFront(e.target.value)}
+                placeholder="e.g., What is the powerhouse of the cell?"
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="card-back">Back</Label>
+              <Textarea
+                id="card-back"
+                value={back}
+                onChange={(e) => setBack(e.target.value)}
+                placeholder="e.g., The mitochondria"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="card-image">Image (Optional)</Label>
+            <div className="flex gap-2">
+              <Select value={imageDocumentId} onValueChange={setImageDocumentId}>
+                <SelectTrigger id="card-image" className="flex-1">
+                  <SelectValue placeholder="No image" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_IMAGE}>No image</SelectItem>
+                  {images.map((image) => (
+                    <SelectItem key={image.id} value={image.id}>
+                      {image.title || image.fileName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="outline" disabled={isUploading} asChild>
+                <label className="cursor-pointer">
+                  <Upload className="w-4 h-4 mr-2" />
+                  {isUploading ? 'Uploading...' : 'Upload'}
+                  <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
+                </label>
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editingCardId && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel Edit
+              </Button>
+            )}
+            <Button type="submit" disabled={isSaving}>
+              {editingCardId ? (
+                'Save Card'
+              ) : (
+                <>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Card
+                </>
+              )}
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-3">
+          <h3 className="text-lg">Cards ({cards.length})</h3>
+          {cards.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-8">
+                <Layers className="w-12 h-12 text-gray-400 mb-4" />
+                <p className="text-sm text-gray-500">No cards in this deck yet</p>
+              </CardContent>
+            </Card>
+          ) : (
+            cards.map((card) => (
+              <Card key={card.id} className={editingCardId === card.id ? 'border-indigo-300' : ''}>
+                <CardContent className="pt-4 pb-3">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                      <p className="whitespace-pre-wrap">{card.front}</p>
+                      <p className="whitespace-pre-wrap text-gray-600">{card.back}</p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {card.imageDocumentId && (
+                        <Badge variant="secondary" title="Has image">
+                          <ImageIcon className="w-3 h-3" />
+                        </Badge>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(card)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteCard(card)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
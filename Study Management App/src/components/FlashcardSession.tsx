@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Progress } from './ui/progress'
+import { Badge } from './ui/badge'
+import { toast } from 'sonner@2.0.3'
+import { X, RotateCcw, CheckCircle, Layers } from 'lucide-react'
+import { motion } from 'motion/react'
+import { projectId } from '../utils/supabase/info'
+import {
+  RECALL_GRADES,
+  GRADE_LABELS,
+  aggregateGrades,
+  type RecallGrade
+} from '../utils/spacedRepetition'
+import { getDocumentUrl } from '../utils/documents'
+import type { Flashcard } from './FlashcardDeckEditor'
+
+interface FlashcardSessionProps {
+  session: any
+  schedule: any
+  open: boolean
+  onClose: () => void
+  onComplete: (schedule: any, xpGained: number) => void
+}
+
+const GRADE_STYLES: { [grade in RecallGrade]: string } = {
+  again: 'text-red-600 border-red-200 hover:bg-red-50',
+  hard: 'text-orange-600 border-orange-200 hover:bg-orange-50',
+  good: 'text-green-600 border-green-200 hover:bg-green-50',
+  easy: 'text-blue-600 border-blue-200 hover:bg-blue-50'
+}
+
+// Cards that were forgotten or hard last time are shown first
+const GRADE_ORDER: { [grade: string]: number } = { again: 0, hard: 1, good: 2, easy: 3 }
+
+const orderCards = (cards: Flashcard[]) =>
+  [...cards].sort((a, b) =>
+    (GRADE_ORDER[a.lastGrade ?? ''] ?? -1) - (GRADE_ORDER[b.lastGrade ?? ''] ?? -1)
+  )
+
+export function FlashcardSession({ session, schedule, open, onClose, onComplete }: FlashcardSessionProps) {
+  const [cards, setCards] = useState<Flashcard[]>([])
+  const [index, setIndex] = useState(0)
+  const [flipped, setFlipped] = useState(false)
+  const [grades, setGrades] = useState<{ [cardId: string]: RecallGrade }>({})
+  const [imageUrls, setImageUrls] = useState<{ [documentId: string]: string }>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open && schedule) {
+      setCards(orderCards(schedule.cards || []))
+      setIndex(0)
+      setFlipped(false)
+      setGrades({})
+    }
+  }, [open, schedule?.id])
+
+  const finished = cards.length > 0 && index >= cards.length
+  const currentCard = finished ? null : cards[index]
+
+  // Image links expire after a few minutes, so each one is requested when
+  // its card comes up rather than for the whole deck at the start
+  useEffect(() => {
+    const documentId = currentCard?.imageDocumentId
+    if (!documentId) return
+    getDocumentUrl(session.access_token, documentId)
+      .then(url => setImageUrls(prev => ({ ...prev, [documentId]: url })))
+      .catch(error => console.error('Error fetching card image:', error))
+  }, [index, currentCard?.imageDocumentId])
+
+  const gradeCard = (grade: RecallGrade) => {
+    if (!currentCard || !flipped) return
+    setGrades(prev => ({ ...prev, [currentCard.id]: grade }))
+    setFlipped(false)
+    setIndex(prev => prev + 1)
+  }
+
+  const restart = () => {
+    setIndex(0)
+    setFlipped(false)
+    setGrades({})
+  }
+
+  const saveSession = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/review-complete/${schedule.id}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ cardGrades: grades }),
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        onComplete(data.schedule, data.xpGained)
+        onClose()
+      } else {
+        const data = await response.json()
+        toast.error('Failed to save session: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error saving flashcard session:', error)
+      toast.error('Failed to save session')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Keyboard shortcuts: space flips, 1-4 grade, escape leaves
+  useEffect(() => {
+    if (!open) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose()
+      } else if ((e.key === ' ' || e.key === 'Enter') && currentCard) {
+        e.preventDefault()
+        setFlipped(prev => !prev)
+      } else if (['1', '2', '3', '4'].includes(e.key)) {
+        gradeCard(RECALL_GRADES[parseInt(e.key) - 1])
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [open, currentCard, flipped])
+
+  if (!open || !schedule) return null
+
+  const gradedValues = Object.values(grades)
+  const gradeCounts = RECALL_GRADES.map(grade => ({
+    grade,
+    count: gradedValues.filter(g => g === grade).length
+  }))
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gradient-to-br from-indigo-50 via-white to-purple-50 flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 sm:px-6 py-4 border-b bg-white">
+        <div className="flex items-center gap-3">
+          <Layers className="w-6 h-6 text-purple-600" />
+          <div>
+            <p className="text-lg">{schedule.topic}</p>
+            <p className="text-xs text-gray-500">{schedule.subject || 'General'}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-gray-600">
+            {Math.min(index + 1, cards.length)} / {cards.length}
+          </span>
+          <Button variant="ghost" size="icon" onClick={onClose} title="Leave session">
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
+      </div>
+      <Progress value={cards.length > 0 ? (index / cards.length) * 100 : 0} className="h-2 rounded" />
+
+      <div className="flex-1 flex flex-col items-center justify-center p-4 overflow-y-auto">
+        {currentCard && (
+          <div className="w-full max-w-2xl space-y-6">
+            <div style={{ perspective: 1200 }}>
+              <motion.div
+                key={currentCard.id}
+                className="relative w-full cursor-pointer"
+                style={{ minHeight: 320, transformStyle: 'preserve-3d' }}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0, rotateY: flipped ? 180 : 0 }}
+                transition={{ duration: 0.4 }}
+                onClick={() => setFlipped(prev => !prev)}
+              >
+                {/* Front */}
+                <div
+                  className="absolute inset-0 bg-white rounded-xl shadow-lg border p-6 flex flex-col items-center justify-center text-center"
+                  style={{ backfaceVisibility: 'hidden' }}
+                >
+                  <Badge variant="secondary" className="mb-4">Question</Badge>
+                  {currentCard.imageDocumentId && imageUrls[currentCard.imageDocumentId] && (
+                    <img
+                      src={imageUrls[currentCard.imageDocumentId]}
+                      alt=""
+                      className="mb-4 rounded-lg"
+                      style={{ maxHeight: 160, objectFit: 'contain' }}
+                    />
+                  )}
+                  <p className="text-2xl whitespace-pre-wrap">{currentCard.front}</p>
+                </div>
+                {/* Back */}
+                <div
+                  className="absolute inset-0 bg-indigo-50 rounded-xl shadow-lg border border-indigo-200 p-6 flex flex-col items-center justify-center text-center"
+                  style={{ backfaceVisibility: 'hidden', transform: 'rotateY(180deg)' }}
+                >
+                  <Badge className="mb-4">Answer</Badge>
+                  <p className="text-2xl whitespace-pre-wrap">{currentCard.back}</p>
+                </div>
+              </motion.div>
+            </div>
+
+            {flipped ? (
+              <div className="grid grid-cols-4 gap-2">
+                {RECALL_GRADES.map((grade, gradeIndex) => (
+                  <Button
+                    key={grade}
+                    variant="outline"
+                    onClick={() => gradeCard(grade)}
+                    className={GRADE_STYLES[grade]}
+                  >
+                    {GRADE_LABELS[grade]}
+                    <span className="hidden sm:inline ml-2 opacity-75">({gradeIndex + 1})</span>
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <Button className="w-full" onClick={() => setFlipped(true)}>
+                Show Answer
+                <span className="hidden sm:inline ml-2 opacity-75">(Space)</span>
+              </Button>
+            )}
+          </div>
+        )}
+
+        {finished && (
+          <div className="w-full max-w-md bg-white rounded-xl shadow-lg border p-6 text-center space-y-6">
+            <CheckCircle className="w-16 h-16 text-green-600 mx-auto" />
+            <div>
+              <h3 className="text-2xl mb-2">Deck complete!</h3>
+              <p className="text-gray-600">
+                Overall recall: <strong>{GRADE_LABELS[aggregateGrades(gradedValues)]}</strong>
+              </p>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {gradeCounts.map(({ grade, count }) => (
+                <div key={grade} className="p-2 bg-gray-50 rounded-lg">
+                  <p className="text-xl">{count}</p>
+                  <p className="text-xs text-gray-500">{GRADE_LABELS[grade]}</p>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={restart}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Restart
+              </Button>
+              <Button className="flex-1" onClick={saveSession} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Review'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {cards.length === 0 && (
+          <p className="text-gray-600">This topic has no flashcards yet</p>
+        )}
+      </div>
+    </div>
+  )
+}
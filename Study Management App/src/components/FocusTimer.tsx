@@ -0,0 +1,462 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Progress } from './ui/progress'
+import { Badge } from './ui/badge'
+import { toast } from 'sonner@2.0.3'
+import { Timer, Play, Pause, Square, Coffee, AlertCircle, Trash2 } from 'lucide-react'
+import { useSubjects } from './SubjectManagement'
+import { registerCommands, useCommandHandler } from '../utils/commands'
+import { MAX_SESSION_MINUTES, type StudySource } from '../utils/schemas'
+
+export interface FocusSessionResult {
+  subject: string
+  topic: string
+  source: StudySource
+  duration: number
+  distractions: number
+  startedAt: string
+}
+
+registerCommands([
+  { id: 'focus.start', title: 'Start focus session', group: 'Study', keywords: ['pomodoro', 'timer'], tab: 'study' }
+])
+
+interface FocusTimerProps {
+  session: any
+  // Saves the session; resolves false if it couldn't be saved
+  onSessionEnd: (result: FocusSessionResult) => Promise<boolean>
+}
+
+// 'ready' is the pause between rounds: the break is over but the next work
+// round only starts when the student is back
+type TimerPhase = 'idle' | 'work' | 'break' | 'ready'
+
+// Everything is stored as timestamps rather than a ticking counter so the
+// timer stays correct across reloads and while the tab is throttled in the
+// background
+interface TimerState {
+  phase: TimerPhase
+  workMinutes: number
+  breakMinutes: number
+  subject: string
+  topic: string
+  source: StudySource
+  startedAt: string | null
+  // When the running phase ends; null while paused or between rounds
+  phaseEndsAt: number | null
+  // Time left in the phase when it was paused
+  pausedRemainingMs: number | null
+  // Start of the running work segment, used to credit focused time
+  segmentStartedAt: number | null
+  focusedMs: number
+  distractions: number
+  completedRounds: number
+}
+
+const DEFAULT_STATE: TimerState = {
+  phase: 'idle',
+  workMinutes: 25,
+  breakMinutes: 5,
+  subject: '',
+  topic: '',
+  source: 'self-study',
+  startedAt: null,
+  phaseEndsAt: null,
+  pausedRemainingMs: null,
+  segmentStartedAt: null,
+  focusedMs: 0,
+  distractions: 0,
+  completedRounds: 0
+}
+
+const MINUTE_MS = 60000
+// Longest rounds the inputs allow; a work round is also never longer than
+// one logged session can be
+const MAX_WORK_MINUTES = Math.min(180, MAX_SESSION_MINUTES)
+const MAX_BREAK_MINUTES = 60
+
+const loadState = (storageKey: string): TimerState => {
+  try {
+    const stored = localStorage.getItem(storageKey)
+    if (stored) return { ...DEFAULT_STATE, ...JSON.parse(stored) }
+  } catch (error) {
+    console.error('Error loading focus timer:', error)
+  }
+  return DEFAULT_STATE
+}
+
+// Moves the timer through any phases that ended while nobody was looking
+function advance(state: TimerState, now: number): TimerState {
+  let next = state
+  while (next.phaseEndsAt !== null && now >= next.phaseEndsAt) {
+    if (next.phase === 'work') {
+      next = {
+        ...next,
+        phase: 'break',
+        focusedMs: next.focusedMs + (next.phaseEndsAt - (next.segmentStartedAt ?? next.phaseEndsAt)),
+        segmentStartedAt: null,
+        completedRounds: next.completedRounds + 1,
+        phaseEndsAt: next.phaseEndsAt + next.breakMinutes * MINUTE_MS
+      }
+    } else {
+      next = { ...next, phase: 'ready', phaseEndsAt: null }
+    }
+  }
+  return next
+}
+
+const focusedMsAt = (state: TimerState, now: number) =>
+  state.focusedMs + (state.phase === 'work' && state.segmentStartedAt !== null ? now - state.segmentStartedAt : 0)
+
+const formatClock = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+}
+
+export function FocusTimer({ session, onSessionEnd }: FocusTimerProps) {
+  const storageKey = `focus-timer-${session.user.id}`
+  const [state, setState] = useState<TimerState>(() => advance(loadState(storageKey), Date.now()))
+  const [now, setNow] = useState(Date.now())
+  const [isSaving, setIsSaving] = useState(false)
+
+  const userSubjects = useSubjects(session.user.id)
+
+  const isRunning = state.phaseEndsAt !== null
+
+  useEffect(() => {
+    localStorage.setItem(storageKey, JSON.stringify(state))
+  }, [state])
+
+  // Tick while a phase is running, and catch up straight away when the tab
+  // becomes visible again
+  useEffect(() => {
+    if (!isRunning) return
+
+    const tick = () => setNow(Date.now())
+    const interval = setInterval(tick, 1000)
+    document.addEventListener('visibilitychange', tick)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', tick)
+    }
+  }, [isRunning])
+
+  useEffect(() => {
+    const advanced = advance(state, now)
+    if (advanced === state) return
+
+    setState(advanced)
+    if (advanced.phase === 'break') {
+      toast.success(`☕ Round ${advanced.completedRounds} done! Take a ${advanced.breakMinutes} minute break`)
+    } else if (advanced.phase === 'ready') {
+      toast('⏰ Break is over, ready for the next round?')
+    }
+  }, [now])
+
+  // Show the countdown in the tab title so it is visible from other tabs
+  useEffect(() => {
+    if (!isRunning) return
+    const originalTitle = document.title
+    document.title = `${formatClock(state.phaseEndsAt! - now)} · ${state.phase === 'work' ? 'Focus' : 'Break'}`
+    return () => {
+      document.title = originalTitle
+    }
+  }, [isRunning, now, state.phase])
+
+  const update = (changes: Partial<TimerState>) => setState(prev => ({ ...prev, ...changes }))
+
+  const startSession = () => {
+    if (!state.subject || !state.topic.trim()) {
+      toast.error('Please choose a subject and topic first')
+      return
+    }
+    if (state.workMinutes < 1 || state.workMinutes > MAX_WORK_MINUTES) {
+      toast.error(`Work rounds must be 1 to ${MAX_WORK_MINUTES} minutes`)
+      return
+    }
+    if (state.breakMinutes < 1 || state.breakMinutes > MAX_BREAK_MINUTES) {
+      toast.error(`Breaks must be 1 to ${MAX_BREAK_MINUTES} minutes`)
+      return
+    }
+
+    const startTime = Date.now()
+    setNow(startTime)
+    setState(prev => ({
+      ...DEFAULT_STATE,
+      workMinutes: prev.workMinutes,
+      breakMinutes: prev.breakMinutes,
+      subject: prev.subject,
+      topic: prev.topic.trim(),
+      source: prev.source,
+      phase: 'work',
+      startedAt: new Date(startTime).toISOString(),
+      phaseEndsAt: startTime + prev.workMinutes * MINUTE_MS,
+      segmentStartedAt: startTime
+    }))
+  }
+
+  const startNextRound = () => {
+    const startTime = Date.now()
+    setNow(startTime)
+    update({
+      phase: 'work',
+      phaseEndsAt: startTime + state.workMinutes * MINUTE_MS,
+      pausedRemainingMs: null,
+      segmentStartedAt: startTime
+    })
+  }
+
+  const pause = () => {
+    const pauseTime = Date.now()
+    setState(prev => ({
+      ...prev,
+      focusedMs: focusedMsAt(prev, pauseTime),
+      segmentStartedAt: null,
+      pausedRemainingMs: (prev.phaseEndsAt ?? pauseTime) - pauseTime,
+      phaseEndsAt: null
+    }))
+  }
+
+  const resume = () => {
+    const resumeTime = Date.now()
+    setNow(resumeTime)
+    setState(prev => ({
+      ...prev,
+      phaseEndsAt: resumeTime + (prev.pausedRemainingMs ?? 0),
+      pausedRemainingMs: null,
+      segmentStartedAt: prev.phase === 'work' ? resumeTime : null
+    }))
+  }
+
+  // Starts or resumes the timer, whichever applies, and brings it into view
+  useCommandHandler('focus.start', () => {
+    document.getElementById('focus-timer')?.scrollIntoView({ block: 'start', behavior: 'smooth' })
+    if (state.phase === 'idle') {
+      startSession()
+    } else if (state.phase === 'ready') {
+      startNextRound()
+    } else if (isPaused) {
+      resume()
+    }
+  })
+
+  const resetSession = () => setState(prev => ({
+    ...DEFAULT_STATE,
+    workMinutes: prev.workMinutes,
+    breakMinutes: prev.breakMinutes,
+    subject: prev.subject,
+    source: prev.source
+  }))
+
+  // Throws the session away unlogged, for one the server won't take; the
+  // toast can bring it back
+  const discardSession = () => {
+    const discarded = state
+    resetSession()
+    toast('Focus session discarded', { action: { label: 'Undo', onClick: () => setState(discarded) } })
+  }
+
+  // The session is only cleared once it has been saved; if saving fails it
+  // stays paused here (and in localStorage) so ending it can be retried, or
+  // the session discarded
+  const endSession = async () => {
+    const focusedMinutes = Math.round(focusedMsAt(state, Date.now()) / MINUTE_MS)
+    const { subject, topic, source, distractions, startedAt } = state
+
+    if (focusedMinutes < 1) {
+      resetSession()
+      toast.error('Session too short to log')
+      return
+    }
+
+    if (isRunning) pause()
+    setIsSaving(true)
+    const saved = await onSessionEnd({
+      subject,
+      topic,
+      source,
+      duration: focusedMinutes,
+      distractions,
+      startedAt: startedAt ?? new Date().toISOString()
+    })
+    setIsSaving(false)
+    if (saved) resetSession()
+  }
+
+  const remainingMs = isRunning ? state.phaseEndsAt! - now : state.pausedRemainingMs ?? 0
+  const phaseMs = (state.phase === 'break' ? state.breakMinutes : state.workMinutes) * MINUTE_MS
+  const focusedMinutes = Math.floor(focusedMsAt(state, now) / MINUTE_MS)
+  const isPaused = !isRunning && state.pausedRemainingMs !== null
+
+  return (
+    <Card id="focus-timer" className={state.phase === 'idle' ? '' : state.phase === 'break' ? 'border-green-300 bg-green-50' : 'border-indigo-300 bg-indigo-50'}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Timer className="w-5 h-5 text-indigo-600" />
+              Focus Timer
+            </CardTitle>
+            <CardDescription>
+              {state.phase === 'idle'
+                ? 'Time your study session and log it automatically'
+                : `${state.subject} · ${state.topic}`}
+            </CardDescription>
+          </div>
+          {state.phase !== 'idle' && (
+            <Badge variant="outline">
+              Round {state.completedRounds + (state.phase === 'work' ? 1 : 0)}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {state.phase === 'idle' ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="timer-subject">Subject</Label>
+                <Select value={state.subject} onValueChange={(value) => update({ subject: value })}>
+                  <SelectTrigger id="timer-subject">
+                    <SelectValue placeholder="Select subject" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {userSubjects.map((subject) => (
+                      <SelectItem key={subject} value={subject}>
+                        {subject}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timer-topic">Topic</Label>
+                <Input
+                  id="timer-topic"
+                  value={state.topic}
+                  onChange={(e) => update({ topic: e.target.value })}
+                  placeholder="e.g., Quadratic Equations"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timer-source">Source</Label>
+                <Select value={state.source} onValueChange={(value: any) => update({ source: value })}>
+                  <SelectTrigger id="timer-source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="school">School</SelectItem>
+                    <SelectItem value="tuition">Tuition</SelectItem>
+                    <SelectItem value="self-study">Self Study</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="timer-work">Work (minutes)</Label>
+                <Input
+                  id="timer-work"
+                  type="number"
+                  min="1"
+                  max={MAX_WORK_MINUTES}
+                  value={state.workMinutes}
+                  onChange={(e) => update({ workMinutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timer-break">Break (minutes)</Label>
+                <Input
+                  id="timer-break"
+                  type="number"
+                  min="1"
+                  max={MAX_BREAK_MINUTES}
+                  value={state.breakMinutes}
+                  onChange={(e) => update({ breakMinutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <Button className="w-full" onClick={startSession}>
+              <Play className="w-4 h-4 mr-2" />
+              Start Focus Session
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-center space-y-2">
+              <p className="text-sm text-gray-600">
+                {state.phase === 'work' ? 'Focus' : state.phase === 'break' ? 'Break' : 'Break over'}
+                {isPaused && ' (paused)'}
+              </p>
+              <p className="text-4xl md:text-5xl">
+                {state.phase === 'ready' ? '00:00' : formatClock(remainingMs)}
+              </p>
+              {state.phase !== 'ready' && (
+                <Progress value={phaseMs > 0 ? ((phaseMs - remainingMs) / phaseMs) * 100 : 0} />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 text-sm text-center">
+              <div>
+                <p className="text-gray-500">Focused</p>
+                <p className="text-xl">{focusedMinutes} min</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Distractions</p>
+                <p className="text-xl">{state.distractions}</p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {state.phase === 'work' && (
+                <Button
+                  variant="outline"
+                  className="flex-1 text-orange-600 border-orange-200"
+                  onClick={() => update({ distractions: state.distractions + 1 })}
+                >
+                  <AlertCircle className="w-4 h-4 mr-2" />
+                  Distracted
+                </Button>
+              )}
+              {state.phase === 'ready' ? (
+                <Button className="flex-1" onClick={startNextRound}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Next Round
+                </Button>
+              ) : state.phase === 'break' && isRunning ? (
+                <Button variant="outline" className="flex-1" onClick={startNextRound}>
+                  <Coffee className="w-4 h-4 mr-2" />
+                  Skip Break
+                </Button>
+              ) : isRunning ? (
+                <Button variant="outline" className="flex-1" onClick={pause}>
+                  <Pause className="w-4 h-4 mr-2" />
+                  Pause
+                </Button>
+              ) : (
+                <Button variant="outline" className="flex-1" onClick={resume}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Resume
+                </Button>
+              )}
+              <Button variant="destructive" className="flex-1" onClick={endSession} disabled={isSaving}>
+                <Square className="w-4 h-4 mr-2" />
+                {isSaving ? 'Saving...' : 'End & Log'}
+              </Button>
+              <Button variant="ghost" className="text-gray-500" onClick={discardSession} disabled={isSaving}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
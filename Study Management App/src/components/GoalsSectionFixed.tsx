@@ -10,6 +10,16 @@ import { Badge } from './ui/badge'
 import { Checkbox } from './ui/checkbox'
 import { toast } from 'sonner@2.0.3'
 import { Plus, Target, Calendar, CheckCircle2, TrendingUp, Trash2, CheckSquare } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { AttachedMaterials, useDocuments } from './AttachedMaterials'
+import type { Attachment } from '../utils/attachments'
+import { registerCommands, useCommandHandler } from '../utils/commands'
+import { goalSchema, hasFieldErrors, MAX_TITLE_LENGTH, readPayload, type FieldErrors } from '../utils/schemas'
+import { FieldError } from './FieldError'
+
+registerCommands([
+  { id: 'goals.add', title: 'Add goal', group: 'Goals', keywords: ['target', 'new'], tab: 'goals' }
+])
 
 interface GoalsSectionProps {
   session: any
@@ -25,114 +35,205 @@ interface Goal {
   progress: number
   completed: boolean
   createdAt: string
+  attachments?: Attachment[]
 }
 
+const emptyGoal = (): Goal => ({
+  id: '',
+  title: '',
+  description: '',
+  targetDate: '',
+  targetValue: 100,
+  progress: 0,
+  completed: false,
+  createdAt: new Date().toISOString()
+})
+
+// Percentage points a reopened goal drops back by
+const REOPEN_STEP = 10
+
 export function GoalsSectionFixed({ session, onProfileUpdate }: GoalsSectionProps) {
   const [goals, setGoals] = useState<Goal[]>([])
+  const [isLoading, setIsLoading] = useState(false)
   const [dialogOpen, setDialogOpen] = useState(false)
-  const [formData, setFormData] = useState<Goal>({
-    id: '',
-    title: '',
-    description: '',
-    targetDate: '',
-    targetValue: 100,
-    progress: 0,
-    completed: false,
-    createdAt: new Date().toISOString()
-  })
+  const [formData, setFormData] = useState<Goal>(emptyGoal())
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  const documents = useDocuments(session)
+
+  useCommandHandler('goals.add', () => setDialogOpen(true))
 
   useEffect(() => {
-    loadGoals()
+    importLocalGoals().finally(fetchGoals)
   }, [])
 
-  const generateId = (goal: Goal) => {
-    return `${goal.title}-${goal.targetDate}`.toLowerCase().replace(/\s+/g, '-')
-  }
-
-  const loadGoals = () => {
+  const fetchGoals = async () => {
     try {
-      const stored = localStorage.getItem(`goals-${session.user.id}`)
-      if (stored) {
-        setGoals(JSON.parse(stored))
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/goals`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+      
+      if (response.ok) {
+        const data = await response.json()
+        setGoals(data.goals || [])
       }
     } catch (error) {
-      console.error('Error loading goals:', error)
+      console.error('Error fetching goals:', error)
     }
   }
 
-  const saveGoals = (updatedGoals: Goal[]) => {
+  // Goals used to live only in localStorage; move them to the server once
+  // and drop the local copy so they follow the user across devices
+  const importLocalGoals = async () => {
+    const storageKey = `goals-${session.user.id}`
     try {
-      localStorage.setItem(`goals-${session.user.id}`, JSON.stringify(updatedGoals))
-      setGoals(updatedGoals)
+      const stored = localStorage.getItem(storageKey)
+      if (!stored) return
+
+      const localGoals = JSON.parse(stored)
+      if (!Array.isArray(localGoals) || localGoals.length === 0) {
+        localStorage.removeItem(storageKey)
+        return
+      }
+
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/goals/import`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ goals: localGoals }),
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        localStorage.removeItem(storageKey)
+        if (data.imported > 0) {
+          toast.success(`☁️ ${data.imported} goal${data.imported !== 1 ? 's' : ''} synced to your account`)
+        }
+      }
     } catch (error) {
-      console.error('Error saving goals:', error)
-      toast.error('Failed to save')
+      console.error('Error importing local goals:', error)
     }
   }
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const replaceGoal = (updatedGoal: Goal) => {
+    setGoals(prev => prev.map(g => g.id === updatedGoal.id ? updatedGoal : g))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!formData.title.trim()) {
-      toast.error('Please enter a goal title')
-      return
+    const fields = {
+      title: formData.title,
+      description: formData.description,
+      targetDate: formData.targetDate,
+      targetValue: formData.targetValue
     }
+    const { fieldErrors: errors } = readPayload(goalSchema, fields)
+    setFieldErrors(errors)
+    if (hasFieldErrors(errors)) return
 
-    const newGoal: Goal = {
-      ...formData,
-      id: generateId(formData),
-      createdAt: new Date().toISOString()
+    setIsLoading(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/goal`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify(fields),
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setGoals(prev => [...prev, data.goal])
+        toast.success('✅ Goal created!')
+        setDialogOpen(false)
+        setFormData(emptyGoal())
+      } else {
+        const data = await response.json()
+        setFieldErrors(data.fieldErrors || {})
+        toast.error('Failed to create goal: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error creating goal:', error)
+      toast.error('An error occurred while creating goal')
+    } finally {
+      setIsLoading(false)
     }
-
-    const updatedGoals = [...goals, newGoal]
-    saveGoals(updatedGoals)
-    
-    toast.success('✅ Goal created!')
-    setDialogOpen(false)
-    setFormData({
-      id: '',
-      title: '',
-      description: '',
-      targetDate: '',
-      targetValue: 100,
-      progress: 0,
-      completed: false,
-      createdAt: new Date().toISOString()
-    })
-    onProfileUpdate()
   }
 
-  const updateProgress = (goal: Goal, increment: number) => {
-    const newProgress = Math.min(100, Math.max(0, goal.progress + increment))
-    const updatedGoals = goals.map(g =>
-      g.id === goal.id ? { ...g, progress: newProgress, completed: newProgress === 100 } : g
-    )
-    saveGoals(updatedGoals)
-    
-    if (newProgress === 100 && !goal.completed) {
-      toast.success('🎉 Goal completed! +50 XP')
-      onProfileUpdate()
+  const updateProgress = async (goal: Goal, increment: number) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/goal/${goal.id}/progress`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ increment }),
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        replaceGoal(data.goal)
+        if (data.xpGained > 0) {
+          toast.success(`🎉 Goal completed! +${data.xpGained} XP`)
+          onProfileUpdate()
+        } else if (data.xpGained < 0) {
+          toast.success(`Goal reopened, ${data.xpGained} XP`)
+          onProfileUpdate()
+        }
+      } else {
+        toast.error('Failed to update progress')
+      }
+    } catch (error) {
+      console.error('Error updating goal progress:', error)
+      toast.error('Failed to update progress')
     }
   }
 
-  const toggleComplete = (goal: Goal) => {
-    const updatedGoals = goals.map(g =>
-      g.id === goal.id ? { ...g, completed: !g.completed, progress: !g.completed ? 100 : g.progress } : g
-    )
-    saveGoals(updatedGoals)
-    
-    if (!goal.completed) {
-      toast.success('✅ Goal completed! +50 XP')
-      onProfileUpdate()
-    } else {
-      toast.success('Goal marked as incomplete')
-    }
-  }
+  // The server derives completion from progress: completing fills the goal
+  // up to 100%, and reopening takes it back down a step
+  const toggleComplete = (goal: Goal) =>
+    updateProgress(goal, goal.completed ? -REOPEN_STEP : 100 - goal.progress)
 
-  const deleteGoal = (goal: Goal) => {
-    const updatedGoals = goals.filter(g => g.id !== goal.id)
-    saveGoals(updatedGoals)
-    toast.success('Goal deleted')
+  const deleteGoal = async (goal: Goal) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/goal/${goal.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        setGoals(prev => prev.filter(g => g.id !== goal.id))
+        toast.success('Goal deleted')
+      } else {
+        toast.error('Failed to delete goal')
+      }
+    } catch (error) {
+      console.error('Error deleting goal:', error)
+      toast.error('Failed to delete goal')
+    }
   }
 
   const formatDate = (dateString: string) => {
@@ -228,8 +329,10 @@ export function GoalsSectionFixed({ session, onProfileUpdate }: GoalsSectionProp
                   value={formData.title}
                   onChange={(e) => setFormData({ ...formData, title: e.target.value })}
                   placeholder="e.g., Score 90% in Mathematics"
+                  maxLength={MAX_TITLE_LENGTH}
                   required
                 />
+                <FieldError message={fieldErrors.title} />
               </div>
 
               <div className="space-y-2">
@@ -241,6 +344,7 @@ export function GoalsSectionFixed({ session, onProfileUpdate }: GoalsSectionProp
                   placeholder="Additional details about this goal..."
                   rows={3}
                 />
+                <FieldError message={fieldErrors.description} />
               </div>
 
               <div className="space-y-2">
@@ -251,14 +355,15 @@ export function GoalsSectionFixed({ session, onProfileUpdate }: GoalsSectionProp
                   value={formData.targetDate}
                   onChange={(e) => setFormData({ ...formData, targetDate: e.target.value })}
                 />
+                <FieldError message={fieldErrors.targetDate} />
               </div>
 
               <div className="flex justify-end gap-2">
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancel
                 </Button>
-                <Button type="submit">
-                  Create Goal
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? 'Creating...' : 'Create Goal'}
                 </Button>
               </div>
             </form>
@@ -373,6 +478,15 @@ export function GoalsSectionFixed({ session, onProfileUpdate }: GoalsSectionProp
                           {formatDate(goal.targetDate)}
                         </Badge>
                       </div>
+
+                      <AttachedMaterials
+                        session={session}
+                        documents={documents}
+                        attachments={goal.attachments}
+                        recordRoute="goal"
+                        recordId={goal.id}
+                        onChange={(attachments) => setGoals(prev => prev.map(g => g.id === goal.id ? { ...g, attachments } : g))}
+                      />
                     </div>
                   </div>
                 </CardContent>
@@ -0,0 +1,54 @@
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import 'katex/dist/katex.min.css'
+
+interface MarkdownContentProps {
+  content: string
+}
+
+// The stylesheet resets headings, lists and the like, so the few elements
+// markdown produces are styled here. Raw HTML in the source isn't rendered.
+const components: Components = {
+  h1: ({ node, ...props }) => <h3 className="text-xl font-semibold mb-2" {...props} />,
+  h2: ({ node, ...props }) => <h4 className="text-lg font-semibold mb-2" {...props} />,
+  h3: ({ node, ...props }) => <h5 className="text-base font-semibold mb-2" {...props} />,
+  p: ({ node, ...props }) => <p className="mb-2 whitespace-pre-wrap" {...props} />,
+  ul: ({ node, ...props }) => <ul className="mb-2" style={{ listStyleType: 'disc', paddingLeft: '1.25rem' }} {...props} />,
+  ol: ({ node, ...props }) => <ol className="mb-2" style={{ listStyleType: 'decimal', paddingLeft: '1.25rem' }} {...props} />,
+  a: ({ node, ...props }) => <a className="text-blue-600 underline" target="_blank" rel="noopener noreferrer" {...props} />,
+  blockquote: ({ node, ...props }) => (
+    <blockquote
+      className="mb-2 text-gray-600"
+      style={{ borderLeft: '3px solid #d1d5db', paddingLeft: '0.75rem' }}
+      {...props}
+    />
+  ),
+  code: ({ node, ...props }) => (
+    <code className="bg-gray-100 rounded" style={{ fontFamily: 'monospace', padding: '0 0.25rem' }} {...props} />
+  ),
+  pre: ({ node, ...props }) => <pre className="mb-2 p-3 bg-gray-100 rounded overflow-x-auto" {...props} />,
+  table: ({ node, ...props }) => (
+    <div className="mb-2 overflow-x-auto">
+      <table style={{ borderCollapse: 'collapse' }} {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th className="border px-2 py-1 font-medium" style={{ textAlign: 'left' }} {...props} />,
+  td: ({ node, ...props }) => <td className="border px-2 py-1" {...props} />
+}
+
+// Renders a note's markdown, with $inline$ and $$display$$ LaTeX formulas
+export function MarkdownContent({ content }: MarkdownContentProps) {
+  return (
+    <div className="text-sm text-gray-700">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeKatex, { throwOnError: false }]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
@@ -0,0 +1,504 @@
+import { useState, useEffect, useRef } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Badge } from './ui/badge'
+import { toast } from 'sonner@2.0.3'
+import { Upload, FileText, ImageIcon, File, Eye, Pencil, Trash2, Check, X, FolderOpen, Link2 } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { useSubjects } from './SubjectManagement'
+import { getDocumentUrl } from '../utils/documents'
+import { MAX_TITLE_LENGTH } from '../utils/schemas'
+
+interface MaterialsLibraryProps {
+  session: any
+}
+
+interface StudyDocument {
+  id: string
+  title: string
+  description?: string
+  subject?: string
+  fileName: string
+  createdAt: string
+}
+
+// Matches the storage bucket's file size limit
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+const IMAGE_FILE_PATTERN = /\.(png|jpe?g|gif|webp|svg)$/i
+const PDF_FILE_PATTERN = /\.pdf$/i
+interface Backlink {
+  type: string
+  label: string
+  id: string
+  title: string
+  pages: number[]
+}
+
+const NO_SUBJECT = 'none'
+const ALL_SUBJECTS = 'all'
+
+const fileKind = (fileName: string) =>
+  IMAGE_FILE_PATTERN.test(fileName) ? 'image' : PDF_FILE_PATTERN.test(fileName) ? 'pdf' : 'other'
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '')
+
+export function MaterialsLibrary({ session }: MaterialsLibraryProps) {
+  const [documents, setDocuments] = useState<StudyDocument[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [uploadSubject, setUploadSubject] = useState(NO_SUBJECT)
+  const [subjectFilter, setSubjectFilter] = useState(ALL_SUBJECTS)
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number } | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState('')
+  const [editSubject, setEditSubject] = useState(NO_SUBJECT)
+  const [previewDocument, setPreviewDocument] = useState<StudyDocument | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [backlinks, setBacklinks] = useState<Backlink[] | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const userSubjects = useSubjects(session.user.id)
+
+  useEffect(() => {
+    fetchDocuments()
+  }, [])
+
+  const fetchDocuments = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/documents`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setDocuments(data.documents || [])
+      }
+    } catch (error) {
+      console.error('Error fetching documents:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Files are uploaded one at a time so a failure only affects that file
+  const uploadFiles = async (files: File[]) => {
+    const tooLarge = files.filter(file => file.size > MAX_FILE_SIZE)
+    if (tooLarge.length > 0) {
+      toast.error(`Skipped ${tooLarge.map(f => f.name).join(', ')}: files must be under 10MB`)
+    }
+    const accepted = files.filter(file => file.size <= MAX_FILE_SIZE)
+    if (accepted.length === 0) return
+
+    let uploaded = 0
+    setUploadProgress({ done: 0, total: accepted.length })
+    for (const file of accepted) {
+      try {
+        const formData = new FormData()
+        formData.append('file', file)
+        formData.append('title', stripExtension(file.name).slice(0, MAX_TITLE_LENGTH))
+        formData.append('description', '')
+        formData.append('subject', uploadSubject === NO_SUBJECT ? '' : uploadSubject)
+
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/upload-document`,
+          {
+            method: 'POST',
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+            },
+            body: formData,
+          }
+        )
+
+        if (response.ok) {
+          uploaded++
+        } else {
+          const data = await response.json()
+          toast.error(`Failed to upload ${file.name}: ${data.error}`)
+        }
+      } catch (error) {
+        console.error('Error uploading document:', error)
+        toast.error(`Failed to upload ${file.name}`)
+      }
+      setUploadProgress(prev => prev && { ...prev, done: prev.done + 1 })
+    }
+    setUploadProgress(null)
+
+    if (uploaded > 0) {
+      toast.success(`📁 Uploaded ${uploaded} file${uploaded !== 1 ? 's' : ''}`)
+      fetchDocuments()
+    }
+  }
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    uploadFiles(files)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    if (uploadProgress) return
+    uploadFiles(Array.from(e.dataTransfer.files))
+  }
+
+  const startEditing = (doc: StudyDocument) => {
+    setEditingId(doc.id)
+    setEditTitle(doc.title || stripExtension(doc.fileName))
+    setEditSubject(doc.subject || NO_SUBJECT)
+  }
+
+  const saveEdit = async (doc: StudyDocument) => {
+    if (!editTitle.trim()) {
+      toast.error('Please enter a title')
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/document/${doc.id}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            title: editTitle.trim(),
+            subject: editSubject === NO_SUBJECT ? '' : editSubject,
+          }),
+        }
+      )
+
+      const data = await response.json()
+      if (response.ok) {
+        setDocuments(prev => prev.map(d => d.id === doc.id ? data.document : d))
+        setEditingId(null)
+      } else {
+        toast.error('Failed to update document: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error updating document:', error)
+      toast.error('Failed to update document')
+    }
+  }
+
+  const deleteDocument = async (doc: StudyDocument) => {
+    // Remove from local state immediately, restored if the server rejects it
+    setDocuments(prev => prev.filter(d => d.id !== doc.id))
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/document/${doc.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`)
+      }
+
+      toast.success('🗑️ Document deleted')
+    } catch (error) {
+      console.error('Error deleting document:', error)
+      setDocuments(prev => prev.some(d => d.id === doc.id) ? prev : [...prev, doc].sort((a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      ))
+      toast.error('Failed to delete document')
+    }
+  }
+
+  const fetchBacklinks = async (doc: StudyDocument) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/document/${doc.id}/backlinks`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setBacklinks(data.backlinks || [])
+      }
+    } catch (error) {
+      console.error('Error fetching backlinks:', error)
+    }
+  }
+
+  const openPreview = async (doc: StudyDocument) => {
+    setPreviewDocument(doc)
+    setPreviewUrl(null)
+    setBacklinks(null)
+    fetchBacklinks(doc)
+    try {
+      setPreviewUrl(await getDocumentUrl(session.access_token, doc.id))
+    } catch (error) {
+      console.error('Error fetching document link:', error)
+      toast.error('Failed to open document')
+      setPreviewDocument(null)
+    }
+  }
+
+  const renderFileIcon = (fileName: string) => {
+    const kind = fileKind(fileName)
+    if (kind === 'image') return <ImageIcon className="w-5 h-5 text-purple-600 shrink-0" />
+    if (kind === 'pdf') return <FileText className="w-5 h-5 text-red-600 shrink-0" />
+    return <File className="w-5 h-5 text-gray-500 shrink-0" />
+  }
+
+  const renderSubjectSelect = (value: string, onChange: (value: string) => void, id?: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="bg-white">
+        <SelectValue placeholder="No subject" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_SUBJECT}>No subject</SelectItem>
+        {userSubjects.map((subject) => (
+          <SelectItem key={subject} value={subject}>
+            {subject}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  const usedSubjects = [...new Set(documents.map(d => d.subject).filter(Boolean))] as string[]
+  const visibleDocuments = subjectFilter === ALL_SUBJECTS
+    ? documents
+    : documents.filter(d => (d.subject || NO_SUBJECT) === subjectFilter)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FolderOpen className="w-5 h-5 text-blue-600" />
+            Study Materials
+          </CardTitle>
+          <CardDescription>Keep your notes, past papers and diagrams in one place</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <label htmlFor="upload-subject" className="text-sm text-gray-600">Subject for new uploads</label>
+            <div className="sm:w-auto" style={{ minWidth: 240 }}>
+              {renderSubjectSelect(uploadSubject, setUploadSubject, 'upload-subject')}
+            </div>
+          </div>
+
+          <div
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => !uploadProgress && fileInputRef.current?.click()}
+            className={`border-2 rounded-lg p-6 text-center cursor-pointer transition-colors ${
+              isDragging ? 'border-blue-200 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+            }`}
+            style={{ borderStyle: 'dashed' }}
+          >
+            <Upload className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+            {uploadProgress ? (
+              <p className="text-sm text-gray-600">
+                Uploading {Math.min(uploadProgress.done + 1, uploadProgress.total)} of {uploadProgress.total}...
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600">Drop files here or click to choose</p>
+                <p className="text-xs text-gray-500">PDFs, images and other documents up to 10MB each</p>
+              </>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleFileInput}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <CardTitle>My Documents</CardTitle>
+              <CardDescription>
+                {documents.length} document{documents.length !== 1 ? 's' : ''}
+              </CardDescription>
+            </div>
+            <div className="sm:w-auto" style={{ minWidth: 200 }}>
+              <Select value={subjectFilter} onValueChange={setSubjectFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SUBJECTS}>All subjects</SelectItem>
+                  <SelectItem value={NO_SUBJECT}>No subject</SelectItem>
+                  {usedSubjects.map((subject) => (
+                    <SelectItem key={subject} value={subject}>
+                      {subject}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-gray-500 text-center py-8">Loading documents...</p>
+          ) : visibleDocuments.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              {documents.length === 0 ? 'No documents yet. Upload your first study material above.' : 'No documents for this subject'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {visibleDocuments.map((doc) => (
+                <div key={doc.id} className="flex items-center gap-3 p-3 border rounded-lg">
+                  {renderFileIcon(doc.fileName)}
+                  {editingId === doc.id ? (
+                    <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <Input
+                        value={editTitle}
+                        onChange={(e) => setEditTitle(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') saveEdit(doc)
+                          if (e.key === 'Escape') setEditingId(null)
+                        }}
+                        autoFocus
+                      />
+                      {renderSubjectSelect(editSubject, setEditSubject)}
+                    </div>
+                  ) : (
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate">{doc.title || doc.fileName}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {doc.fileName} · {new Date(doc.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  )}
+                  {editingId !== doc.id && doc.subject && (
+                    <Badge variant="outline" className="hidden sm:flex">{doc.subject}</Badge>
+                  )}
+                  <div className="flex gap-1 shrink-0">
+                    {editingId === doc.id ? (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => saveEdit(doc)} title="Save">
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} title="Cancel">
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => openPreview(doc)} title="Preview">
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(doc)} title="Rename">
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteDocument(doc)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={previewDocument !== null} onOpenChange={(open) => !open && setPreviewDocument(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          {previewDocument && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{previewDocument.title || previewDocument.fileName}</DialogTitle>
+                <DialogDescription>
+                  {previewDocument.subject ? `${previewDocument.subject} · ` : ''}{previewDocument.fileName}
+                </DialogDescription>
+              </DialogHeader>
+              {!previewUrl ? (
+                <p className="text-sm text-gray-500 text-center py-8">Loading preview...</p>
+              ) : fileKind(previewDocument.fileName) === 'image' ? (
+                <img
+                  src={previewUrl}
+                  alt={previewDocument.title}
+                  className="mx-auto rounded-lg"
+                  style={{ maxWidth: '100%' }}
+                />
+              ) : fileKind(previewDocument.fileName) === 'pdf' ? (
+                <iframe
+                  src={previewUrl}
+                  title={previewDocument.title}
+                  className="w-full border rounded-lg"
+                  style={{ height: '70vh' }}
+                />
+              ) : (
+                <div className="text-center py-8 space-y-4">
+                  <p className="text-gray-600">No preview available for this file type</p>
+                  <Button asChild variant="outline">
+                    <a href={previewUrl} target="_blank" rel="noopener noreferrer">
+                      Open file
+                    </a>
+                  </Button>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <p className="text-sm flex items-center gap-2">
+                  <Link2 className="w-4 h-4 text-gray-500" />
+                  Linked from
+                </p>
+                {backlinks === null ? (
+                  <p className="text-sm text-gray-500">Loading...</p>
+                ) : backlinks.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    Not linked anywhere yet. Use "Link material" on a task, goal, revision topic or study session.
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {backlinks.map((link) => (
+                      <Badge key={`${link.type}:${link.id}`} variant="outline">
+                        {link.label}: {link.title}
+                        {link.pages.length > 0 && ` (p. ${link.pages.join(', ')})`}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -5,37 +5,165 @@ import { Label } from './ui/label'
 import { Textarea } from './ui/textarea'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Badge } from './ui/badge'
 import { toast } from 'sonner@2.0.3'
-import { Bell, Trash2, Clock, PenLine } from 'lucide-react'
+import { Bell, Trash2, Clock, PenLine, Pencil, CloudUpload, Repeat } from 'lucide-react'
 import { motion, AnimatePresence } from 'motion/react'
+import { projectId } from '../utils/supabase/info'
+import { registerCommands, useCommandHandler } from '../utils/commands'
+import { useSubjects } from './SubjectManagement'
+import { MarkdownContent } from './MarkdownContent'
+import { refreshReminders } from './ReminderCenter'
+import { PushSettings } from './PushSettings'
+import { RecurrenceFields } from './RecurrenceFields'
+import { describeRecurrence, type Recurrence } from '../utils/recurrence'
+import { getLocalTimeZone } from '../utils/timezone'
+import { hasFieldErrors, isPlainObject, noteSchema, readPayload, validationFailure } from '../utils/schemas'
 
 interface Note {
   id: string
   title: string
+  // Markdown, with $...$ and $$...$$ for formulas
   content: string
-  reminderTime?: string
+  subject?: string
+  // ISO instant
+  reminderTime?: string | null
+  // Repeating reminders move on to the next occurrence once delivered
+  recurrence?: Recurrence | null
+  reminderHistory?: { dueAt: string; deliveredAt: string }[]
   createdAt: string
+  updatedAt?: string
 }
 
+type NoteFields = Pick<Note, 'title' | 'content' | 'subject' | 'reminderTime' | 'recurrence'> & {
+  // Where a repeating reminder keeps its time of day
+  timeZone?: string
+}
+
+// A note saved in this browser before notes synced; imported notes keep the
+// date they were written
+type LegacyNote = NoteFields & Partial<Pick<Note, 'createdAt'>>
+
 interface NotesRemindersProps {
+  session: any
   isOpen: boolean
+  onOpen: () => void
   onClose: () => void
 }
 
-export function NotesReminders({ isOpen, onClose }: NotesRemindersProps) {
+registerCommands([
+  { id: 'notes.new', title: 'New note', group: 'Notes', keywords: ['reminder', 'write'] }
+])
+
+const NOTE_ADDED_EVENT = 'studyquest:note-added'
+// Where notes used to be kept, in this browser only and shared by everyone
+// who signed in on it
+const LEGACY_NOTES_KEY = 'studyquest-notes'
+const NO_SUBJECT = 'none'
+const ALL_SUBJECTS = 'all'
+
+// Saves a note from elsewhere in the app, e.g. a reminder made with quick
+// add, and lets the notes panel and the reminder engine know about it
+export async function addNote(accessToken: string, fields: NoteFields): Promise<Note> {
+  const response = await fetch(
+    `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/note`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(fields),
+    }
+  )
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error)
+  }
+  window.dispatchEvent(new CustomEvent<Note>(NOTE_ADDED_EVENT, { detail: data.note }))
+  refreshReminders()
+  return data.note
+}
+
+// datetime-local inputs show and return local wall-clock time without a zone
+const toDateTimeInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+
+// Only the saved notes that are still valid notes are offered for import
+function readLegacyNotes(userId: string): LegacyNote[] {
+  try {
+    if (localStorage.getItem(`notes-import-dismissed-${userId}`)) return []
+    const stored: unknown = JSON.parse(localStorage.getItem(LEGACY_NOTES_KEY) || '[]')
+    if (!Array.isArray(stored)) return []
+    const items: unknown[] = stored
+    return items.flatMap((item) => {
+      const { value, fieldErrors } = readPayload(noteSchema, item)
+      if (hasFieldErrors(fieldErrors)) return []
+      const note: LegacyNote = {
+        title: value.title,
+        content: value.content,
+        subject: value.subject,
+        reminderTime: value.reminderTime,
+        recurrence: value.recurrence
+      }
+      if (isPlainObject(item) && typeof item.createdAt === 'string') note.createdAt = item.createdAt
+      return [note]
+    })
+  } catch (error) {
+    console.error('Error reading saved notes:', error)
+    return []
+  }
+}
+
+export function NotesReminders({ session, isOpen, onOpen, onClose }: NotesRemindersProps) {
   const [notes, setNotes] = useState<Note[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
   const [title, setTitle] = useState('')
   const [content, setContent] = useState('')
+  const [subject, setSubject] = useState(NO_SUBJECT)
   const [reminderTime, setReminderTime] = useState('')
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(null)
+  const [showPreview, setShowPreview] = useState(false)
+  const [subjectFilter, setSubjectFilter] = useState(ALL_SUBJECTS)
+  const [legacyNotes, setLegacyNotes] = useState<LegacyNote[]>(() => readLegacyNotes(session.user.id))
+  const [isImporting, setIsImporting] = useState(false)
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>('default')
+  const [focusedNoteId, setFocusedNoteId] = useState<string | null>(null)
+  const userSubjects = useSubjects(session.user.id)
+
+  useCommandHandler('notes.new', () => {
+    setFocusedNoteId(null)
+    onOpen()
+    setTimeout(() => document.getElementById('note-title')?.focus(), 100)
+  })
 
+  // Every saved note can be opened from the command palette
   useEffect(() => {
-    // Load notes from localStorage
-    const savedNotes = localStorage.getItem('studyquest-notes')
-    if (savedNotes) {
-      setNotes(JSON.parse(savedNotes))
+    return registerCommands(notes.map(note => ({
+      id: `notes.open:${note.id}`,
+      title: `Open note: ${note.title}`,
+      group: 'Notes',
+      run: () => {
+        setFocusedNoteId(note.id)
+        onOpen()
+      }
+    })))
+  }, [notes])
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFocusedNoteId(null)
+    } else if (focusedNoteId) {
+      setTimeout(() => document.getElementById(`note-${focusedNoteId}`)?.scrollIntoView({ block: 'center' }), 100)
     }
+  }, [isOpen, focusedNoteId])
+
+  useEffect(() => {
+    fetchNotes()
 
     // Check notification permission
     if ('Notification' in window) {
@@ -44,9 +172,35 @@ export function NotesReminders({ isOpen, onClose }: NotesRemindersProps) {
   }, [])
 
   useEffect(() => {
-    // Save notes to localStorage whenever they change
-    localStorage.setItem('studyquest-notes', JSON.stringify(notes))
-  }, [notes])
+    const handleNoteAdded = (e: Event) => {
+      const note = (e as CustomEvent<Note>).detail
+      setNotes(prev => [note, ...prev.filter(existing => existing.id !== note.id)])
+    }
+    window.addEventListener(NOTE_ADDED_EVENT, handleNoteAdded)
+    return () => window.removeEventListener(NOTE_ADDED_EVENT, handleNoteAdded)
+  }, [])
+
+  const fetchNotes = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/notes`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setNotes(data.notes || [])
+      }
+    } catch (error) {
+      console.error('Error fetching notes:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
 
   const requestNotificationPermission = async () => {
     if ('Notification' in window) {
@@ -63,31 +217,28 @@ export function NotesReminders({ isOpen, onClose }: NotesRemindersProps) {
     }
   }
 
-  const scheduleNotification = (note: Note) => {
-    if (!note.reminderTime) return
-
-    const reminderDate = new Date(note.reminderTime)
-    const now = new Date()
-    const timeUntilReminder = reminderDate.getTime() - now.getTime()
-
-    if (timeUntilReminder > 0) {
-      setTimeout(() => {
-        if (Notification.permission === 'granted') {
-          new Notification('StudyQuest Reminder', {
-            body: `${note.title}\n${note.content}`,
-            icon: '/favicon.ico',
-            badge: '/favicon.ico',
-            tag: note.id,
-            requireInteraction: true
-          })
-        }
-      }, timeUntilReminder)
+  const resetForm = () => {
+    setEditingId(null)
+    setTitle('')
+    setContent('')
+    setSubject(NO_SUBJECT)
+    setReminderTime('')
+    setRecurrence(null)
+    setShowPreview(false)
+  }
 
-      toast.success(`Reminder set for ${reminderDate.toLocaleString()}`)
-    }
+  const startEditing = (note: Note) => {
+    setEditingId(note.id)
+    setTitle(note.title)
+    setContent(note.content)
+    setSubject(note.subject || NO_SUBJECT)
+    setReminderTime(note.reminderTime ? toDateTimeInput(new Date(note.reminderTime)) : '')
+    setRecurrence(note.recurrence ?? null)
+    setShowPreview(false)
+    setTimeout(() => document.getElementById('note-title')?.focus(), 0)
   }
 
-  const handleAddNote = () => {
+  const handleSaveNote = async () => {
     if (!title.trim() || !content.trim()) {
       toast.error('Please fill in title and content')
       return
@@ -98,31 +249,127 @@ export function NotesReminders({ isOpen, onClose }: NotesRemindersProps) {
       return
     }
 
-    const newNote: Note = {
-      id: Date.now().toString(),
-      title,
+    const fields: NoteFields = {
+      title: title.trim(),
       content,
-      reminderTime: reminderTime || undefined,
-      createdAt: new Date().toISOString()
+      subject: subject === NO_SUBJECT ? '' : subject,
+      reminderTime: reminderTime ? new Date(reminderTime).toISOString() : null,
+      recurrence: reminderTime ? recurrence : null,
+      timeZone: getLocalTimeZone()
+    }
+    const { fieldErrors } = readPayload(noteSchema, fields)
+    if (hasFieldErrors(fieldErrors)) {
+      toast.error(validationFailure(fieldErrors).error)
+      return
     }
 
-    setNotes([newNote, ...notes])
+    setIsSaving(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/${editingId ? `note/${editingId}` : 'note'}`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify(fields),
+        }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error('Failed to save note: ' + data.error)
+        return
+      }
 
-    if (reminderTime) {
-      scheduleNotification(newNote)
+      const saved: Note = data.note
+      setNotes(prev => editingId
+        ? prev.map(note => note.id === saved.id ? saved : note)
+        : [saved, ...prev])
+      refreshReminders()
+      resetForm()
+      toast.success(saved.reminderTime && new Date(saved.reminderTime).getTime() > Date.now()
+        ? `Note saved. Reminder set for ${new Date(saved.reminderTime).toLocaleString()}`
+        : editingId ? 'Note updated!' : 'Note saved!')
+    } catch (error) {
+      console.error('Error saving note:', error)
+      toast.error('Failed to save note')
+    } finally {
+      setIsSaving(false)
     }
+  }
 
-    // Reset form
-    setTitle('')
-    setContent('')
-    setReminderTime('')
-    
-    toast.success('Note saved!')
+  const handleDeleteNote = async (note: Note) => {
+    // Remove from local state immediately, restored if the server rejects it
+    setNotes(prev => prev.filter(n => n.id !== note.id))
+    if (editingId === note.id) resetForm()
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/note/${note.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error('Delete failed')
+      }
+      refreshReminders()
+      toast.success('Note deleted')
+    } catch (error) {
+      console.error('Error deleting note:', error)
+      setNotes(prev => [note, ...prev.filter(n => n.id !== note.id)]
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()))
+      toast.error('Failed to delete note')
+    }
   }
 
-  const handleDeleteNote = (id: string) => {
-    setNotes(notes.filter(note => note.id !== id))
-    toast.success('Note deleted')
+  // Notes from before they were synced are only imported when the signed-in
+  // user says they are theirs, since anyone using this browser could have
+  // written them
+  const importLegacyNotes = async () => {
+    setIsImporting(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/notes/import`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ notes: legacyNotes }),
+        }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error('Failed to import notes: ' + data.error)
+        return
+      }
+
+      localStorage.removeItem(LEGACY_NOTES_KEY)
+      setLegacyNotes([])
+      fetchNotes()
+      if (data.imported > 0) {
+        toast.success(`☁️ ${data.imported} note${data.imported !== 1 ? 's' : ''} synced to your account`)
+      }
+    } catch (error) {
+      console.error('Error importing notes:', error)
+      toast.error('Failed to import notes')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const dismissLegacyNotes = () => {
+    localStorage.setItem(`notes-import-dismissed-${session.user.id}`, new Date().toISOString())
+    setLegacyNotes([])
   }
 
   const formatDate = (dateString: string) => {
@@ -135,6 +382,11 @@ export function NotesReminders({ isOpen, onClose }: NotesRemindersProps) {
     })
   }
 
+  const usedSubjects = [...new Set(notes.map(note => note.subject).filter(Boolean))] as string[]
+  const visibleNotes = subjectFilter === ALL_SUBJECTS
+    ? notes
+    : notes.filter(note => (note.subject || NO_SUBJECT) === subjectFilter)
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
@@ -173,10 +425,41 @@ export function NotesReminders({ isOpen, onClose }: NotesRemindersProps) {
             </Card>
           )}
 
+          <PushSettings session={session} />
+
+          {/* Notes saved in this browser before notes were synced */}
+          {legacyNotes.length > 0 && (
+            <Card className="bg-blue-50 border-blue-200">
+              <CardContent className="pt-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="flex items-center gap-3">
+                    <CloudUpload className="w-5 h-5 text-blue-600 shrink-0" />
+                    <div>
+                      <p className="text-sm">
+                        {legacyNotes.length} note{legacyNotes.length !== 1 ? 's were' : ' was'} saved in this browser before notes synced
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        Import them into your account if you wrote them. Anyone else using this browser won't see them afterwards.
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button size="sm" variant="outline" onClick={dismissLegacyNotes}>
+                      Not mine
+                    </Button>
+                    <Button size="sm" onClick={importLegacyNotes} disabled={isImporting}>
+                      {isImporting ? 'Importing...' : 'Import'}
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Add Note Form */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">Create New Note</CardTitle>
+              <CardTitle className="text-lg">{editingId ? 'Edit Note' : 'Create New Note'}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
@@ -190,14 +473,64 @@ export function NotesReminders({ isOpen, onClose }: NotesRemindersProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="note-content">Content</Label>
-                <Textarea
-                  id="note-content"
-                  value={content}
-                  onChange={(e) => setContent(e.target.value)}
-                  placeholder="Write your note here..."
-                  rows={4}
-                />
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="note-content">Content</Label>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={showPreview ? 'ghost' : 'secondary'}
+                      onClick={() => setShowPreview(false)}
+                    >
+                      Write
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={showPreview ? 'secondary' : 'ghost'}
+                      onClick={() => setShowPreview(true)}
+                    >
+                      Preview
+                    </Button>
+                  </div>
+                </div>
+                {showPreview ? (
+                  <div className="p-3 border rounded-md" style={{ minHeight: 100 }}>
+                    {content.trim() ? (
+                      <MarkdownContent content={content} />
+                    ) : (
+                      <p className="text-sm text-gray-500">Nothing to preview</p>
+                    )}
+                  </div>
+                ) : (
+                  <Textarea
+                    id="note-content"
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    placeholder="Write your note here..."
+                    rows={6}
+                  />
+                )}
+                <p className="text-xs text-gray-500">
+                  Markdown formatting works, e.g. **bold**, - lists and # headings. Write formulas in LaTeX between $ signs, like $E = mc^2$, or $$ for a formula on its own line.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="note-subject">Subject</Label>
+                <Select value={subject} onValueChange={setSubject}>
+                  <SelectTrigger id="note-subject">
+                    <SelectValue placeholder="No subject" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SUBJECT}>No subject</SelectItem>
+                    {userSubjects.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
 
               <div className="space-y-2">
@@ -215,22 +548,60 @@ export function NotesReminders({ isOpen, onClose }: NotesRemindersProps) {
                   value={reminderTime}
                   onChange={(e) => setReminderTime(e.target.value)}
                   disabled={notificationPermission !== 'granted'}
-                  min={new Date().toISOString().slice(0, 16)}
+                  min={toDateTimeInput(new Date())}
                 />
               </div>
 
-              <Button onClick={handleAddNote} className="w-full">
-                <PenLine className="w-4 h-4 mr-2" />
-                Save Note
-              </Button>
+              {reminderTime && (
+                <RecurrenceFields
+                  id="note-recurrence"
+                  value={recurrence}
+                  onChange={setRecurrence}
+                  startDate={reminderTime.slice(0, 10)}
+                />
+              )}
+
+              <div className="flex gap-2">
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+                <Button onClick={handleSaveNote} disabled={isSaving} className="flex-1">
+                  <PenLine className="w-4 h-4 mr-2" />
+                  {isSaving ? 'Saving...' : editingId ? 'Update Note' : 'Save Note'}
+                </Button>
+              </div>
             </CardContent>
           </Card>
 
           {/* Notes List */}
           <div className="space-y-4">
-            <h3 className="text-lg">Your Notes ({notes.length})</h3>
-            
-            {notes.length === 0 ? (
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <h3 className="text-lg">Your Notes ({notes.length})</h3>
+              {usedSubjects.length > 0 && (
+                <div className="sm:w-auto" style={{ minWidth: 200 }}>
+                  <Select value={subjectFilter} onValueChange={setSubjectFilter}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_SUBJECTS}>All subjects</SelectItem>
+                      <SelectItem value={NO_SUBJECT}>No subject</SelectItem>
+                      {usedSubjects.map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500 text-center py-8">Loading notes...</p>
+            ) : notes.length === 0 ? (
               <Card>
                 <CardContent className="flex flex-col items-center justify-center py-12">
                   <PenLine className="w-12 h-12 text-gray-400 mb-4" />
@@ -238,9 +609,11 @@ export function NotesReminders({ isOpen, onClose }: NotesRemindersProps) {
                   <p className="text-sm text-gray-500">Create your first note above!</p>
                 </CardContent>
               </Card>
+            ) : visibleNotes.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No notes for this subject</p>
             ) : (
               <AnimatePresence>
-                {notes.map((note) => (
+                {visibleNotes.map((note) => (
                   <motion.div
                     key={note.id}
                     initial={{ opacity: 0, y: 20 }}
@@ -248,35 +621,57 @@ export function NotesReminders({ isOpen, onClose }: NotesRemindersProps) {
                     exit={{ opacity: 0, x: -100 }}
                     transition={{ duration: 0.3 }}
                   >
-                    <Card className="hover:shadow-lg transition-shadow">
+                    <Card
+                      id={`note-${note.id}`}
+                      className={`hover:shadow-lg transition-shadow ${focusedNoteId === note.id ? 'bg-yellow-50 border-yellow-200' : ''}`}
+                    >
                       <CardHeader>
                         <div className="flex items-start justify-between">
                           <div className="flex-1">
                             <CardTitle className="text-base">{note.title}</CardTitle>
-                            <CardDescription className="mt-1">
+                            <CardDescription className="mt-1 flex items-center gap-2">
                               {formatDate(note.createdAt)}
+                              {note.subject && <Badge variant="outline">{note.subject}</Badge>}
                             </CardDescription>
                           </div>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleDeleteNote(note.id)}
-                            className="text-red-600 hover:text-red-700"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => startEditing(note)}
+                              title="Edit"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDeleteNote(note)}
+                              className="text-red-600 hover:text-red-700"
+                              title="Delete"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
                         </div>
                       </CardHeader>
                       <CardContent>
-                        <p className="text-sm text-gray-700 whitespace-pre-wrap">
-                          {note.content}
-                        </p>
+                        <MarkdownContent content={note.content} />
                         {note.reminderTime && (
                           <div className="flex items-center gap-2 mt-4 text-sm text-orange-600">
                             <Clock className="w-4 h-4" />
                             <span>Reminder: {formatDate(note.reminderTime)}</span>
                           </div>
                         )}
+                        {note.recurrence && (
+                          <div className="flex items-center gap-2 mt-2 text-sm text-gray-600">
+                            <Repeat className="w-4 h-4" />
+                            <span>
+                              {describeRecurrence(note.recurrence)}
+                              {note.reminderHistory?.length ? ` · reminded ${note.reminderHistory.length} time${note.reminderHistory.length !== 1 ? 's' : ''}` : ''}
+                            </span>
+                          </div>
+                        )}
                       </CardContent>
                     </Card>
                   </motion.div>
@@ -7,6 +7,7 @@ import { RadioGroup, RadioGroupItem } from './ui/radio-group'
 import { toast } from 'sonner@2.0.3'
 import { ChevronRight, ChevronLeft, Sparkles } from 'lucide-react'
 import { projectId } from '../utils/supabase/info'
+import { hasFieldErrors, readPayload, routineSchema, validationFailure } from '../utils/schemas'
 
 interface OnboardingProps {
   session: any
@@ -120,6 +121,12 @@ export function Onboarding({ session, onComplete }: OnboardingProps) {
   }
 
   const handleSubmit = async () => {
+    const { fieldErrors } = readPayload(routineSchema, routineData)
+    if (hasFieldErrors(fieldErrors)) {
+      toast.error(validationFailure(fieldErrors).error)
+      return
+    }
+
     setIsLoading(true)
     try {
       const response = await fetch(
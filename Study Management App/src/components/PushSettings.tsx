@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { toast } from 'sonner@2.0.3'
+import { Smartphone } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { registerServiceWorker } from '../utils/serviceWorker'
+import { getLocalTimeZone } from '../utils/timezone'
+
+interface PushSettingsProps {
+  session: any
+}
+
+type PushCategory = 'tasks' | 'reviews' | 'notes' | 'streak'
+type PushPreferences = { [category in PushCategory]: boolean }
+
+const CATEGORIES: { id: PushCategory; label: string; description: string }[] = [
+  { id: 'tasks', label: 'Due tasks', description: 'On the morning a task is due' },
+  { id: 'reviews', label: 'Revision sessions', description: 'When a topic is due for review' },
+  { id: 'notes', label: 'Note reminders', description: 'At the time set on a note' },
+  { id: 'streak', label: 'Streak at risk', description: "In the evening if today doesn't count towards your streak yet" }
+]
+
+// The VAPID key is sent as URL-safe base64; the push manager wants bytes
+const base64UrlToBytes = (value: string) => {
+  const base64 = (value + '='.repeat((4 - value.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+}
+
+// Lets the user receive reminders as Web Push notifications from the server,
+// which arrive even when no StudyQuest tab is open, and choose which kinds
+export function PushSettings({ session }: PushSettingsProps) {
+  const [publicKey, setPublicKey] = useState<string | null>(null)
+  const [subscription, setSubscription] = useState<PushSubscription | null>(null)
+  const [preferences, setPreferences] = useState<PushPreferences | null>(null)
+  const [busy, setBusy] = useState(false)
+  const supported = 'serviceWorker' in navigator && 'PushManager' in window
+
+  const api = (path: string, init: RequestInit = {}) => fetch(
+    `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/${path}`,
+    {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    }
+  )
+
+  useEffect(() => {
+    if (!supported) return
+    const load = async () => {
+      try {
+        const [configResponse, preferencesResponse, registration] = await Promise.all([
+          api('push/config'),
+          api('push/preferences'),
+          registerServiceWorker()
+        ])
+        if (configResponse.ok) {
+          const data = await configResponse.json()
+          setPublicKey(data.publicKey)
+        }
+        if (preferencesResponse.ok) {
+          const data = await preferencesResponse.json()
+          setPreferences(data.preferences)
+        }
+        if (registration) {
+          setSubscription(await registration.pushManager.getSubscription())
+        }
+      } catch (error) {
+        console.error('Error loading push settings:', error)
+      }
+    }
+    load()
+  }, [])
+
+  const subscribe = async () => {
+    if (!publicKey) return
+    setBusy(true)
+    try {
+      const permission = await Notification.requestPermission()
+      if (permission !== 'granted') {
+        toast.error('Notification permission denied')
+        return
+      }
+      const registration = await registerServiceWorker()
+      if (!registration) {
+        throw new Error('Service worker unavailable')
+      }
+      const newSubscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: base64UrlToBytes(publicKey)
+      })
+      const response = await api('push/subscription', {
+        method: 'POST',
+        body: JSON.stringify({ subscription: newSubscription.toJSON(), timeZone: getLocalTimeZone() }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+      setSubscription(newSubscription)
+      toast.success('Push notifications enabled on this device')
+    } catch (error) {
+      console.error('Error subscribing to push:', error)
+      toast.error('Failed to enable push notifications')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const unsubscribe = async () => {
+    if (!subscription) return
+    setBusy(true)
+    try {
+      await api('push/subscription', {
+        method: 'DELETE',
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+      })
+      await subscription.unsubscribe()
+      setSubscription(null)
+      toast.success('Push notifications turned off on this device')
+    } catch (error) {
+      console.error('Error unsubscribing from push:', error)
+      toast.error('Failed to turn off push notifications')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const setCategory = async (category: PushCategory, enabled: boolean) => {
+    if (!preferences) return
+    const previous = preferences
+    setPreferences({ ...preferences, [category]: enabled })
+    try {
+      const response = await api('push/preferences', {
+        method: 'PUT',
+        body: JSON.stringify({ [category]: enabled }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      setPreferences(data.preferences)
+    } catch (error) {
+      console.error('Error updating push preferences:', error)
+      toast.error('Failed to update push preferences')
+      setPreferences(previous)
+    }
+  }
+
+  // Nothing to offer if the browser can't receive pushes or the server
+  // hasn't been given VAPID keys
+  if (!supported || !publicKey) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Smartphone className="w-5 h-5 text-indigo-600" />
+          Push Notifications
+        </CardTitle>
+        <CardDescription>
+          Get reminders on this device even when StudyQuest is closed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            {subscription ? 'This device receives push notifications' : 'This device does not receive push notifications'}
+          </p>
+          <Button size="sm" variant={subscription ? 'outline' : 'default'} disabled={busy} onClick={subscription ? unsubscribe : subscribe}>
+            {subscription ? 'Turn off' : 'Turn on'}
+          </Button>
+        </div>
+
+        {preferences && (
+          <div className="space-y-3">
+            {CATEGORIES.map((category) => (
+              <div key={category.id} className="flex items-center justify-between gap-3">
+                <div>
+                  <Label htmlFor={`push-${category.id}`}>{category.label}</Label>
+                  <p className="text-xs text-gray-500">{category.description}</p>
+                </div>
+                <Switch
+                  id={`push-${category.id}`}
+                  checked={preferences[category.id]}
+                  onCheckedChange={(checked) => setCategory(category.id, checked)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,290 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Card, CardContent } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { toast } from 'sonner@2.0.3'
+import { Sparkles, CheckSquare, Bell, Repeat, X } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { parseQuickAdd, type QuickAddKind, type QuickAddPriority } from '../utils/quickAdd'
+import { getLocalTimeZone, zonedTimeToUtc } from '../utils/timezone'
+import { describeRecurrence, type Recurrence } from '../utils/recurrence'
+import { registerCommands, useCommandHandler } from '../utils/commands'
+import { addNote } from './NotesReminders'
+
+registerCommands([
+  { id: 'tasks.quick-add', title: 'Quick add task or reminder', group: 'Tasks', keywords: ['remind', 'natural', 'due'], tab: 'tasks' }
+])
+
+interface QuickAddProps {
+  session: any
+  subjects: string[]
+  onTaskCreated: () => void
+}
+
+interface Draft {
+  kind: QuickAddKind
+  title: string
+  subject: string
+  priority: QuickAddPriority
+  date: string
+  time: string
+  recurrence: Recurrence | null
+}
+
+const EMPTY_DRAFT: Draft = { kind: 'task', title: '', subject: '', priority: 'medium', date: '', time: '', recurrence: null }
+
+export function QuickAdd({ session, subjects, onTaskCreated }: QuickAddProps) {
+  const [text, setText] = useState('')
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useCommandHandler('tasks.quick-add', () => {
+    setTimeout(() => document.getElementById('quick-add')?.focus(), 100)
+  })
+
+  // The preview follows the text as it's typed; corrections made in the
+  // preview are replaced if the text changes again
+  const handleTextChange = (value: string) => {
+    setText(value)
+    const parsed = parseQuickAdd(value, { now: new Date(), timeZone: getLocalTimeZone(), subjects })
+    setDraft({
+      kind: parsed.kind,
+      title: parsed.title,
+      subject: parsed.subject || '',
+      priority: parsed.priority || 'medium',
+      date: parsed.date || '',
+      time: parsed.time || '',
+      recurrence: parsed.recurrence && { ...parsed.recurrence, interval: 1, monthDay: null, until: null, count: null }
+    })
+  }
+
+  const reset = () => {
+    setText('')
+    setDraft(EMPTY_DRAFT)
+  }
+
+  const createTask = async () => {
+    if (!draft.subject || !draft.date) {
+      toast.error('Please choose a subject and due date')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/task`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            title: draft.title,
+            description: '',
+            subject: draft.subject,
+            dueDate: draft.date,
+            priority: draft.priority,
+            recurrence: draft.recurrence
+          }),
+        }
+      )
+
+      if (response.ok) {
+        toast.success('✅ Task created successfully!')
+        reset()
+        onTaskCreated()
+      } else {
+        const data = await response.json()
+        toast.error('Failed to create task: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error creating task:', error)
+      toast.error('An error occurred while creating task')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const createReminder = async () => {
+    if (!draft.date || !draft.time) {
+      toast.error('Please choose when to be reminded')
+      return
+    }
+    const reminderAt = zonedTimeToUtc(draft.date, draft.time, getLocalTimeZone())
+    if (reminderAt.getTime() <= Date.now()) {
+      toast.error('That time has already passed')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await addNote(session.access_token, {
+        title: draft.title,
+        content: '',
+        subject: draft.subject,
+        reminderTime: reminderAt.toISOString(),
+        recurrence: draft.recurrence,
+        timeZone: getLocalTimeZone()
+      })
+      if ('Notification' in window && Notification.permission !== 'granted') {
+        toast.info('Reminder saved to your notes. Enable notifications in Notes to be alerted.')
+      } else {
+        toast.success(`Reminder set for ${reminderAt.toLocaleString()}`)
+      }
+      reset()
+    } catch (error) {
+      console.error('Error creating reminder:', error)
+      toast.error('Failed to save reminder')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft.title.trim()) {
+      toast.error('Please enter a title')
+      return
+    }
+    if (draft.kind === 'task') {
+      createTask()
+    } else {
+      createReminder()
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-indigo-600 shrink-0" />
+            <Input
+              id="quick-add"
+              value={text}
+              onChange={(e) => handleTextChange(e.target.value)}
+              placeholder='Quick add, e.g. "Physics worksheet ch.4 due fri !high" or "remind me to revise chem tomorrow 7pm"'
+              aria-label="Quick add"
+            />
+            <Button type="submit" disabled={isSaving || !text.trim()}>
+              {isSaving ? 'Adding...' : 'Add'}
+            </Button>
+          </div>
+
+          {text.trim() && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 p-3 rounded-lg bg-gray-50 border">
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={draft.kind === 'task' ? 'default' : 'outline'}
+                    onClick={() => setDraft({ ...draft, kind: 'task' })}
+                  >
+                    <CheckSquare className="w-4 h-4 mr-1" />
+                    Task
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={draft.kind === 'reminder' ? 'default' : 'outline'}
+                    onClick={() => setDraft({ ...draft, kind: 'reminder' })}
+                  >
+                    <Bell className="w-4 h-4 mr-1" />
+                    Reminder
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="quick-add-title">Title</Label>
+                <Input
+                  id="quick-add-title"
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="quick-add-subject">
+                  Subject{draft.kind === 'reminder' && ' (optional)'}
+                </Label>
+                <Select value={draft.subject} onValueChange={(value) => setDraft({ ...draft, subject: value })}>
+                  <SelectTrigger id="quick-add-subject">
+                    <SelectValue placeholder="Select subject" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {subjects.map((subject) => (
+                      <SelectItem key={subject} value={subject}>
+                        {subject}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="quick-add-date">{draft.kind === 'task' ? 'Due Date' : 'Date'}</Label>
+                <Input
+                  id="quick-add-date"
+                  type="date"
+                  value={draft.date}
+                  onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                />
+              </div>
+
+              {draft.kind === 'task' ? (
+                <div className="space-y-1">
+                  <Label htmlFor="quick-add-priority">Priority</Label>
+                  <Select
+                    value={draft.priority}
+                    onValueChange={(value: any) => setDraft({ ...draft, priority: value })}
+                  >
+                    <SelectTrigger id="quick-add-priority">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <Label htmlFor="quick-add-time">Time</Label>
+                  <Input
+                    id="quick-add-time"
+                    type="time"
+                    value={draft.time}
+                    onChange={(e) => setDraft({ ...draft, time: e.target.value })}
+                  />
+                </div>
+              )}
+
+              {draft.recurrence && (
+                <div className="flex items-center gap-2 text-sm text-gray-600" style={{ gridColumn: '1 / -1' }}>
+                  <Repeat className="w-4 h-4" />
+                  <span>{describeRecurrence(draft.recurrence)}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft({ ...draft, recurrence: null })}
+                    title="Don't repeat"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,179 @@
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { describeRecurrence, MAX_RECURRENCE_COUNT, MAX_RECURRENCE_INTERVAL, type Recurrence, type RecurrenceFrequency } from '../utils/recurrence'
+
+interface RecurrenceFieldsProps {
+  // Prefix for the field ids, so two forms on a page don't clash
+  id: string
+  value: Recurrence | null
+  onChange: (value: Recurrence | null) => void
+  // First occurrence (YYYY-MM-DD); weekly rules start on its weekday
+  startDate: string
+}
+
+type Ending = 'never' | 'until' | 'count'
+
+const FREQUENCY_LABELS: { [frequency in RecurrenceFrequency]: string } = {
+  daily: 'Daily',
+  weekdays: 'Every weekday (Mon–Fri)',
+  weekly: 'Weekly',
+  monthly: 'Monthly'
+}
+const INTERVAL_UNITS: { [frequency in RecurrenceFrequency]: string } = {
+  daily: 'day',
+  weekdays: 'day',
+  weekly: 'week',
+  monthly: 'month'
+}
+// Listed Monday first, valued 0 = Sunday
+const WEEKDAY_BUTTONS = [
+  { day: 1, label: 'M' },
+  { day: 2, label: 'T' },
+  { day: 3, label: 'W' },
+  { day: 4, label: 'T' },
+  { day: 5, label: 'F' },
+  { day: 6, label: 'S' },
+  { day: 0, label: 'S' }
+]
+const WEEKDAY_TITLES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const weekdayOfDate = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay()
+
+// Repeat controls shared by the task and note forms. The server fills in
+// what's left out, such as the day of the month.
+export function RecurrenceFields({ id, value, onChange, startDate }: RecurrenceFieldsProps) {
+  const ending: Ending = value?.until ? 'until' : value?.count ? 'count' : 'never'
+
+  const setFrequency = (frequency: string) => {
+    if (frequency === 'none') {
+      onChange(null)
+      return
+    }
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval ?? 1,
+      weekdays: frequency === 'weekly'
+        ? (value?.weekdays.length ? value.weekdays : startDate ? [weekdayOfDate(startDate)] : [])
+        : [],
+      monthDay: null,
+      until: value?.until ?? null,
+      count: value?.count ?? null
+    })
+  }
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter(d => d !== day)
+      : [...value.weekdays, day].sort((a, b) => a - b)
+    // A weekly rule needs at least one day
+    if (weekdays.length > 0) onChange({ ...value, weekdays })
+  }
+
+  const setEnding = (next: string) => {
+    if (!value) return
+    onChange({
+      ...value,
+      until: next === 'until' ? (value.until || startDate || null) : null,
+      count: next === 'count' ? (value.count || 10) : null
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-repeat`}>Repeat</Label>
+        <Select value={value?.frequency ?? 'none'} onValueChange={setFrequency}>
+          <SelectTrigger id={`${id}-repeat`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Doesn't repeat</SelectItem>
+            {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+              <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value && (
+        <>
+          {value.frequency !== 'weekdays' && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor={`${id}-interval`}>Every</Label>
+              <Input
+                id={`${id}-interval`}
+                type="number"
+                min={1}
+                max={MAX_RECURRENCE_INTERVAL}
+                value={value.interval}
+                onChange={(e) => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                style={{ width: '5rem' }}
+              />
+              <span className="text-sm text-gray-600">
+                {INTERVAL_UNITS[value.frequency]}{value.interval !== 1 ? 's' : ''}
+              </span>
+            </div>
+          )}
+
+          {value.frequency === 'weekly' && (
+            <div className="flex gap-1">
+              {WEEKDAY_BUTTONS.map(({ day, label }) => (
+                <Button
+                  key={day}
+                  type="button"
+                  size="sm"
+                  variant={value.weekdays.includes(day) ? 'default' : 'outline'}
+                  onClick={() => toggleWeekday(day)}
+                  title={WEEKDAY_TITLES[day]}
+                  aria-pressed={value.weekdays.includes(day)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={ending} onValueChange={setEnding}>
+              <SelectTrigger id={`${id}-ends`} aria-label="Ends">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never ends</SelectItem>
+                <SelectItem value="until">Ends on</SelectItem>
+                <SelectItem value="count">Ends after</SelectItem>
+              </SelectContent>
+            </Select>
+            {ending === 'until' && (
+              <Input
+                type="date"
+                aria-label="Last date"
+                min={startDate || undefined}
+                value={value.until ?? ''}
+                onChange={(e) => onChange({ ...value, until: e.target.value || null })}
+              />
+            )}
+            {ending === 'count' && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  aria-label="Number of times"
+                  min={1}
+                  max={MAX_RECURRENCE_COUNT}
+                  value={value.count ?? 1}
+                  onChange={(e) => onChange({ ...value, count: Math.max(1, parseInt(e.target.value) || 1) })}
+                />
+                <span className="text-sm text-gray-600">times</span>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">{describeRecurrence(value)}</p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+import { useState, useEffect, useRef, type ReactNode } from 'react'
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu'
+import { toast } from 'sonner@2.0.3'
+import { BellRing, CheckSquare, Clock, PenLine, AlarmClock } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { SNOOZE_MINUTES, type Reminder, type ReminderSource } from '../utils/reminders'
+import { registerServiceWorker } from '../utils/serviceWorker'
+import { getLocalTimeZone } from '../utils/timezone'
+
+interface ReminderCenterProps {
+  session: any
+  onNavigate: (tab: string) => void
+  onOpenNotes: () => void
+}
+
+const REMINDERS_CHANGED_EVENT = 'studyquest:reminders-changed'
+// Reminders found this late were missed (closed tab, sleeping laptop) and
+// are summarised rather than each shown as if they were due now
+const MISSED_AFTER_MS = 5 * 60000
+// Longest wait before looking again, so reminders added on another device
+// are picked up
+const MAX_WAIT_MS = 15 * 60000
+const DEFAULT_SNOOZE_MINUTES = SNOOZE_MINUTES[0]
+
+const SOURCE_ICONS: { [source in ReminderSource]: ReactNode } = {
+  note: <PenLine className="w-4 h-4 text-yellow-600" />,
+  task: <CheckSquare className="w-4 h-4 text-indigo-600" />,
+  review: <Clock className="w-4 h-4 text-orange-600" />
+}
+
+// Tells the reminder engine that notes, tasks or revision topics changed,
+// so it fetches reminders again instead of waiting for its next check
+export function refreshReminders() {
+  window.dispatchEvent(new Event(REMINDERS_CHANGED_EVENT))
+}
+
+const formatSnooze = (minutes: number) =>
+  minutes < 60 ? `${minutes} minutes` : minutes < 24 * 60 ? `${minutes / 60} hour${minutes !== 60 ? 's' : ''}` : 'Tomorrow'
+
+// Fetches pending reminders from the server and delivers them when due. The
+// server remembers what was delivered, so only one tab or device shows each.
+export function ReminderCenter({ session, onNavigate, onOpenNotes }: ReminderCenterProps) {
+  const [missed, setMissed] = useState<Reminder[]>([])
+  const [missedOpen, setMissedOpen] = useState(false)
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const checking = useRef(false)
+  const checkAgain = useRef(false)
+  // Checks run from timers set long ago, so they read the current session
+  // rather than the one they were created with
+  const sessionRef = useRef(session)
+  sessionRef.current = session
+
+  const api = (path: string, init: RequestInit = {}) => fetch(
+    `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/${path}`,
+    {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${sessionRef.current.access_token}`,
+      },
+    }
+  )
+
+  const openReminder = (reminder: Pick<Reminder, 'id' | 'source' | 'tab'>) => {
+    if (reminder.source === 'note') {
+      onOpenNotes()
+    } else if (reminder.tab) {
+      onNavigate(reminder.tab)
+    }
+  }
+
+  const snooze = async (reminderId: string, minutes = DEFAULT_SNOOZE_MINUTES) => {
+    try {
+      const response = await api('reminders/snooze', {
+        method: 'POST',
+        body: JSON.stringify({ id: reminderId, minutes }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      setMissed(prev => prev.filter(reminder => reminder.id !== reminderId))
+      toast.success(`Snoozed until ${new Date(data.snoozedUntil).toLocaleString()}`)
+      check()
+    } catch (error) {
+      console.error('Error snoozing reminder:', error)
+      toast.error('Failed to snooze reminder')
+    }
+  }
+
+  const showNotification = async (title: string, options: NotificationOptions & { actions?: { action: string; title: string }[] }) => {
+    if (!('Notification' in window) || Notification.permission !== 'granted') return
+    const registration = await registerServiceWorker()
+    if (registration) {
+      await registration.showNotification(title, options)
+    } else {
+      // Page notifications can't have action buttons
+      const { actions: _actions, ...pageOptions } = options
+      new Notification(title, pageOptions)
+    }
+  }
+
+  const deliver = async (due: Reminder[]) => {
+    const now = Date.now()
+    const late = due.filter(reminder => now - Date.parse(reminder.dueAt) > MISSED_AFTER_MS)
+    const onTime = due.filter(reminder => !late.includes(reminder))
+
+    // Marked before showing, so another tab or device checking soon after
+    // doesn't show them as well
+    await api('reminders/delivered', {
+      method: 'POST',
+      body: JSON.stringify({ ids: due.map(reminder => reminder.id) }),
+    })
+
+    onTime.forEach((reminder) => {
+      showNotification(reminder.title, {
+        body: reminder.body,
+        tag: reminder.id,
+        data: { reminder },
+        requireInteraction: true,
+        actions: [{ action: 'snooze', title: `Snooze ${formatSnooze(DEFAULT_SNOOZE_MINUTES)}` }]
+      })
+      toast.info(reminder.title, {
+        description: reminder.body || undefined,
+        duration: 15000,
+        action: { label: 'Snooze', onClick: () => snooze(reminder.id) }
+      })
+    })
+
+    if (late.length > 0) {
+      setMissed(prev => [...prev, ...late.filter(reminder => !prev.some(existing => existing.id === reminder.id))])
+      setMissedOpen(true)
+      showNotification(`${late.length} reminder${late.length !== 1 ? 's' : ''} missed while you were away`, {
+        body: late.slice(0, 3).map(reminder => reminder.title).join('\n'),
+        tag: 'missed-reminders'
+      })
+    }
+  }
+
+  // Fetches what's pending, delivers anything due and waits for the next one
+  const check = async () => {
+    // A change made during a check may not be in its results
+    if (checking.current) {
+      checkAgain.current = true
+      return
+    }
+    checking.current = true
+    if (timer.current) clearTimeout(timer.current)
+
+    let wait = MAX_WAIT_MS
+    try {
+      const response = await api(`reminders?timeZone=${encodeURIComponent(getLocalTimeZone())}`)
+      if (response.ok) {
+        const data = await response.json()
+        const pending: Reminder[] = data.reminders || []
+        const now = Date.now()
+        const due = pending.filter(reminder => Date.parse(reminder.dueAt) <= now)
+        if (due.length > 0) {
+          await deliver(due)
+        }
+        const next = pending.find(reminder => Date.parse(reminder.dueAt) > now)
+        if (next) wait = Math.min(wait, Date.parse(next.dueAt) - now)
+      }
+    } catch (error) {
+      console.error('Error checking reminders:', error)
+    } finally {
+      checking.current = false
+      if (checkAgain.current) {
+        checkAgain.current = false
+        check()
+      } else {
+        timer.current = setTimeout(check, wait)
+      }
+    }
+  }
+
+  useEffect(() => {
+    registerServiceWorker()
+
+    // The service worker opens the app with the action in the URL when a
+    // notification is clicked while no tab is open
+    const params = new URLSearchParams(window.location.search)
+    const action = params.get('reminderAction')
+    const reminderId = params.get('reminder')
+    if (action && reminderId) {
+      if (action === 'snooze') {
+        snooze(reminderId)
+      } else {
+        openReminder({ id: reminderId, source: reminderId.split('|')[0] as ReminderSource, tab: params.get('tab') || undefined })
+      }
+      params.delete('reminderAction')
+      params.delete('reminder')
+      params.delete('tab')
+      const query = params.toString()
+      window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : '') + window.location.hash)
+    }
+
+    check()
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') check()
+    }
+    const handleWorkerMessage = (e: MessageEvent) => {
+      if (e.data?.type !== 'reminder-action') return
+      if (e.data.action === 'snooze') {
+        snooze(e.data.reminder.id)
+      } else {
+        openReminder(e.data.reminder)
+      }
+    }
+
+    window.addEventListener(REMINDERS_CHANGED_EVENT, check)
+    document.addEventListener('visibilitychange', handleVisibility)
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage)
+    return () => {
+      if (timer.current) clearTimeout(timer.current)
+      window.removeEventListener(REMINDERS_CHANGED_EVENT, check)
+      document.removeEventListener('visibilitychange', handleVisibility)
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage)
+    }
+  }, [])
+
+  const dismissAll = () => {
+    setMissedOpen(false)
+    setMissed([])
+  }
+
+  return (
+    <Dialog open={missedOpen && missed.length > 0} onOpenChange={(open) => !open && dismissAll()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellRing className="w-5 h-5 text-orange-500" />
+            Missed while you were away
+          </DialogTitle>
+          <DialogDescription>
+            {missed.length} reminder{missed.length !== 1 ? 's' : ''} came due while StudyQuest wasn't open
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {missed.map((reminder) => (
+            <div key={reminder.id} className="flex items-center gap-3 p-3 border rounded-lg">
+              {SOURCE_ICONS[reminder.source]}
+              <div className="flex-1 min-w-0">
+                <p className="truncate">{reminder.title}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {[reminder.body, new Date(reminder.dueAt).toLocaleString()].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" title="Snooze">
+                      <AlarmClock className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {SNOOZE_MINUTES.map((minutes) => (
+                      <DropdownMenuItem key={minutes} onSelect={() => snooze(reminder.id, minutes)}>
+                        {minutes < 24 * 60 ? `In ${formatSnooze(minutes)}` : formatSnooze(minutes)}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    dismissAll()
+                    openReminder(reminder)
+                  }}
+                >
+                  Open
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={dismissAll}>Dismiss all</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,6 +3,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Badge } from './ui/badge'
 import { Bell, Clock, Book, GraduationCap, Home } from 'lucide-react'
 import { projectId } from '../utils/supabase/info'
+import { TimetableEditor } from './TimetableEditor'
+import { StudyPlanner } from './StudyPlanner'
+import { availableStudyMinutes } from '../utils/timetable'
 
 interface RoutinePlannerProps {
   session: any
@@ -55,6 +58,12 @@ export function RoutinePlanner({ session }: RoutinePlannerProps) {
   }
 
   const calculateAvailableStudyTime = () => {
+    // With a timetable, average what is actually left on each day of the week
+    if (routine.timetable?.length > 0) {
+      const weeklyMinutes = DAYS.reduce((sum, _, day) => sum + availableStudyMinutes(routine.timetable, day), 0)
+      return (weeklyMinutes / 7 / 60).toFixed(1)
+    }
+
     const totalHoursInDay = 24
     const sleepTime = 8
     const mealsAndPersonal = 3
@@ -131,6 +140,10 @@ export function RoutinePlanner({ session }: RoutinePlannerProps) {
         </CardContent>
       </Card>
 
+      <TimetableEditor session={session} routine={routine} onRoutineUpdate={setRoutine} />
+
+      <StudyPlanner session={session} routine={routine} />
+
       {/* Tuition Schedule */}
       {routine.numberOfTuitions > 0 && routine.tuitionDays && routine.tuitionDays.length > 0 && (
         <Card>
@@ -0,0 +1,196 @@
+import { useState, useEffect, type ReactNode } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from './ui/dialog'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command'
+import { toast } from 'sonner@2.0.3'
+import { CheckSquare, Target, Clock, BookOpen, FileText, PenLine } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { getDocumentUrl } from '../utils/documents'
+import type { SearchResult, SearchResultType } from '../utils/search'
+
+interface SearchPaletteProps {
+  session: any
+  open: boolean
+  // Text to search for when the palette opens
+  initialQuery?: string
+  onOpenChange: (open: boolean) => void
+  onNavigate: (tab: string) => void
+  onOpenNotes: () => void
+}
+
+const SEARCH_DELAY_MS = 250
+
+const RESULT_GROUPS: { type: SearchResultType; heading: string; icon: ReactNode }[] = [
+  { type: 'document', heading: 'Materials', icon: <FileText className="text-red-600" /> },
+  { type: 'task', heading: 'Tasks', icon: <CheckSquare className="text-indigo-600" /> },
+  { type: 'review', heading: 'Revision', icon: <Clock className="text-orange-600" /> },
+  { type: 'study-record', heading: 'Study Log', icon: <BookOpen className="text-green-600" /> },
+  { type: 'goal', heading: 'Goals', icon: <Target className="text-purple-600" /> },
+  { type: 'note', heading: 'Notes', icon: <PenLine className="text-yellow-600" /> }
+]
+
+// Dashboard tab that lists each kind of result
+const RESULT_TABS: { [type in SearchResultType]?: string } = {
+  task: 'tasks',
+  goal: 'goals',
+  review: 'revision',
+  'study-record': 'study'
+}
+
+function renderHighlighted(text: string, highlights: [number, number][]) {
+  const parts: ReactNode[] = []
+  let cursor = 0
+  highlights.forEach(([start, end], index) => {
+    if (start < cursor) return
+    parts.push(text.slice(cursor, start))
+    parts.push(<mark key={index} className="bg-yellow-200 rounded-sm">{text.slice(start, end)}</mark>)
+    cursor = end
+  })
+  parts.push(text.slice(cursor))
+  return parts
+}
+
+export function SearchPalette({ session, open, initialQuery = '', onOpenChange, onNavigate, onOpenNotes }: SearchPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setQuery(initialQuery)
+    } else {
+      setQuery('')
+      setResults([])
+    }
+  }, [open])
+
+  // Searches once typing pauses; a newer query cancels the request in flight
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (!trimmed) {
+      setResults([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/search?q=${encodeURIComponent(trimmed)}`,
+          {
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+            },
+            signal: controller.signal,
+          }
+        )
+
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error)
+        }
+        setResults(data.results)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error('Error searching:', error)
+        setResults([])
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query])
+
+  const openDocument = async (result: SearchResult) => {
+    // Opened before the link is fetched so popup blockers allow the tab
+    const tab = window.open('', '_blank')
+    try {
+      const url = await getDocumentUrl(session.access_token, result.id)
+      const target = result.page ? `${url}#page=${result.page}` : url
+      if (tab) {
+        tab.location.href = target
+      } else {
+        window.location.href = target
+      }
+    } catch (error) {
+      console.error('Error opening document:', error)
+      tab?.close()
+      toast.error('Failed to open document')
+    }
+  }
+
+  const selectResult = (result: SearchResult) => {
+    onOpenChange(false)
+    if (result.type === 'document') {
+      openDocument(result)
+    } else if (result.type === 'note') {
+      onOpenNotes()
+    } else {
+      onNavigate(RESULT_TABS[result.type]!)
+    }
+  }
+
+  const formatSubtitle = (result: SearchResult) => {
+    if (result.type === 'study-record' && result.subtitle) {
+      return new Date(result.subtitle).toLocaleDateString()
+    }
+    return [result.subtitle, result.page ? `Page ${result.page}` : ''].filter(Boolean).join(' · ')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 max-w-2xl">
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search your materials, tasks, revision topics, study log, goals and notes
+        </DialogDescription>
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search materials, tasks, notes..."
+          />
+          <CommandList style={{ maxHeight: '60vh' }}>
+            {query.trim() && !isSearching && (
+              <CommandEmpty>No results for "{query.trim()}"</CommandEmpty>
+            )}
+            {isSearching && results.length === 0 && (
+              <p className="py-8 text-center text-sm text-gray-500">Searching...</p>
+            )}
+            {RESULT_GROUPS.map(({ type, heading, icon }) => {
+              const groupResults = results.filter(result => result.type === type)
+              if (groupResults.length === 0) return null
+              return (
+                <CommandGroup key={type} heading={heading}>
+                  {groupResults.map((result) => (
+                    <CommandItem
+                      key={`${result.type}:${result.id}`}
+                      value={`${result.type}:${result.id}`}
+                      onSelect={() => selectResult(result)}
+                      className="items-start"
+                    >
+                      {icon}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="truncate">{result.title}</p>
+                          <span className="text-xs text-gray-500 shrink-0">{formatSubtitle(result)}</span>
+                        </div>
+                        <p className="text-xs text-gray-600">
+                          {renderHighlighted(result.snippet, result.highlights)}
+                        </p>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )
+            })}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
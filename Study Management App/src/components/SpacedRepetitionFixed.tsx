@@ -6,65 +6,174 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Badge } from './ui/badge'
-import { Checkbox } from './ui/checkbox'
 import { toast } from 'sonner@2.0.3'
-import { Plus, Clock, CheckCircle, Brain, Trash2, CheckSquare } from 'lucide-react'
+import { Plus, Clock, CheckCircle, Brain, Trash2, Undo2, Layers, Play } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
 import { useSubjects } from './SubjectManagement'
+import { FlashcardDeckEditor, type Flashcard } from './FlashcardDeckEditor'
+import { FlashcardSession } from './FlashcardSession'
+import { DeckImportExport } from './DeckImportExport'
+import { AttachedMaterials, useDocuments } from './AttachedMaterials'
+import type { Attachment } from '../utils/attachments'
+import { registerCommands, useCommandHandler } from '../utils/commands'
+import {
+  RECALL_GRADES,
+  GRADE_LABELS,
+  previewIntervals,
+  formatInterval,
+  type RecallGrade,
+  type ReviewState
+} from '../utils/spacedRepetition'
+
+registerCommands([
+  { id: 'revision.add', title: 'Add revision topic', group: 'Revision', keywords: ['review', 'flashcards', 'new'], tab: 'revision' }
+])
 
 interface SpacedRepetitionProps {
   session: any
   onProfileUpdate: () => void
 }
 
-interface ReviewTopic {
+interface ReviewHistoryEntry {
+  reviewedAt: string
+  grade: RecallGrade
+  previous?: ReviewState
+}
+
+interface ReviewSchedule {
   id: string
   subject: string
   topic: string
-  reviewDate: string
-  completed: boolean
+  studiedAt: string
+  srs: ReviewState
+  history: ReviewHistoryEntry[]
+  cards?: Flashcard[]
+  attachments?: Attachment[]
   createdAt: string
 }
 
+const GRADE_STYLES: { [grade in RecallGrade]: string } = {
+  again: 'text-red-600 border-red-200 hover:bg-red-50',
+  hard: 'text-orange-600 border-orange-200 hover:bg-orange-50',
+  good: 'text-green-600 border-green-200 hover:bg-green-50',
+  easy: 'text-blue-600 border-blue-200 hover:bg-blue-50'
+}
+
 export function SpacedRepetitionFixed({ session, onProfileUpdate }: SpacedRepetitionProps) {
-  const [reviews, setReviews] = useState<ReviewTopic[]>([])
+  const [schedules, setSchedules] = useState<ReviewSchedule[]>([])
+  const [isLoading, setIsLoading] = useState(false)
   const [dialogOpen, setDialogOpen] = useState(false)
   const [subject, setSubject] = useState('')
   const [topic, setTopic] = useState('')
+  const [gradingId, setGradingId] = useState<string | null>(null)
+  const [deckScheduleId, setDeckScheduleId] = useState<string | null>(null)
+  const [sessionScheduleId, setSessionScheduleId] = useState<string | null>(null)
   
   // Get user's custom subjects
   const userSubjects = useSubjects(session.user.id)
+  const documents = useDocuments(session)
+
+  useCommandHandler('revision.add', () => setDialogOpen(true))
 
   useEffect(() => {
-    loadReviews()
+    importLocalReviews().finally(fetchSchedules)
   }, [])
 
-  const generateId = (review: ReviewTopic) => {
-    return `${review.subject}-${review.topic}-${review.reviewDate}`.toLowerCase().replace(/\s+/g, '-')
-  }
-
-  const loadReviews = () => {
+  const fetchSchedules = async () => {
     try {
-      const stored = localStorage.getItem(`reviews-${session.user.id}`)
-      if (stored) {
-        const parsedReviews = JSON.parse(stored)
-        setReviews(parsedReviews)
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/review-schedules`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setSchedules(data.schedules || [])
       }
     } catch (error) {
-      console.error('Error loading reviews:', error)
+      console.error('Error fetching review schedules:', error)
     }
   }
 
-  const saveReviews = (updatedReviews: ReviewTopic[]) => {
+  // Reviews used to live only in localStorage as one entry per session; group
+  // them back into per-topic schedules and move them to the server once
+  const importLocalReviews = async () => {
+    const storageKey = `reviews-${session.user.id}`
     try {
-      localStorage.setItem(`reviews-${session.user.id}`, JSON.stringify(updatedReviews))
-      setReviews(updatedReviews)
+      const stored = localStorage.getItem(storageKey)
+      if (!stored) return
+
+      const localReviews = JSON.parse(stored)
+      if (!Array.isArray(localReviews) || localReviews.length === 0) {
+        localStorage.removeItem(storageKey)
+        return
+      }
+
+      const grouped: { [key: string]: any } = {}
+      localReviews.forEach((review: any) => {
+        const key = `${review.subject}|${review.topic}`
+        // Stored review dates are plain YYYY-MM-DD days in the user's local time
+        const reviewDate = new Date(`${review.reviewDate}T00:00:00`).toISOString()
+        if (!grouped[key]) {
+          grouped[key] = {
+            subject: review.subject,
+            topic: review.topic,
+            studiedAt: review.createdAt,
+            createdAt: review.createdAt,
+            reviews: [],
+            completedReviews: []
+          }
+        }
+        grouped[key].reviews.push(reviewDate)
+        if (review.completed) {
+          grouped[key].completedReviews.push(reviewDate)
+        }
+      })
+
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/review-schedules/import`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ schedules: Object.values(grouped) }),
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        localStorage.removeItem(storageKey)
+        if (data.imported > 0) {
+          toast.success(`☁️ ${data.imported} revision topic${data.imported !== 1 ? 's' : ''} synced to your account`)
+        }
+      }
     } catch (error) {
-      console.error('Error saving reviews:', error)
-      toast.error('Failed to save')
+      console.error('Error importing local reviews:', error)
+    }
+  }
+
+  const replaceSchedule = (updatedSchedule: ReviewSchedule) => {
+    setSchedules(prev => prev.map(s => s.id === updatedSchedule.id ? updatedSchedule : s))
+  }
+
+  const handleSessionComplete = (updatedSchedule: ReviewSchedule, xpGained: number) => {
+    replaceSchedule(updatedSchedule)
+    const nextReview = `next review in ${formatInterval(updatedSchedule.srs.intervalDays)}`
+    if (xpGained > 0) {
+      toast.success(`🃏 Deck reviewed! +${xpGained} XP, ${nextReview}`)
+      onProfileUpdate()
+    } else {
+      toast.success(`🃏 Deck reviewed early, ${nextReview}`)
     }
   }
 
-  const createReviewSchedule = (e: React.FormEvent) => {
+  const createReviewSchedule = async (e: React.FormEvent) => {
     e.preventDefault()
 
     if (!subject || !topic.trim()) {
@@ -72,55 +181,128 @@ export function SpacedRepetitionFixed({ session, onProfileUpdate }: SpacedRepeti
       return
     }
 
-    // Create review schedule with spaced repetition intervals
-    const now = new Date()
-    const intervals = [1, 3, 7, 14, 30] // days
-    const newReviews: ReviewTopic[] = []
-
-    intervals.forEach((days, index) => {
-      const reviewDate = new Date(now)
-      reviewDate.setDate(reviewDate.getDate() + days)
-      
-      const review: ReviewTopic = {
-        id: '',
-        subject,
-        topic,
-        reviewDate: reviewDate.toISOString().split('T')[0],
-        completed: false,
-        createdAt: new Date().toISOString()
+    setIsLoading(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/review-schedule`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ subject, topic, studiedAt: new Date().toISOString() }),
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setSchedules(prev => [...prev, data.schedule])
+        toast.success('✅ Topic added! First review is tomorrow')
+        setDialogOpen(false)
+        setSubject('')
+        setTopic('')
+      } else {
+        const data = await response.json()
+        toast.error('Failed to create schedule: ' + data.error)
       }
-      review.id = generateId(review) + `-${index}`
-      newReviews.push(review)
-    })
+    } catch (error) {
+      console.error('Error creating schedule:', error)
+      toast.error('An error occurred while creating schedule')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const gradeReview = async (schedule: ReviewSchedule, grade: RecallGrade) => {
+    setGradingId(schedule.id)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/review-complete/${schedule.id}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ grade }),
+        }
+      )
 
-    const updatedReviews = [...reviews, ...newReviews]
-    saveReviews(updatedReviews)
-    
-    toast.success(`✅ Review schedule created! ${intervals.length} sessions planned`)
-    setDialogOpen(false)
-    setSubject('')
-    setTopic('')
-    onProfileUpdate()
+      if (response.ok) {
+        const data = await response.json()
+        replaceSchedule(data.schedule)
+        const nextReview = `next review in ${formatInterval(data.schedule.srs.intervalDays)}`
+        if (data.xpGained > 0) {
+          toast.success(`✅ Review completed! +${data.xpGained} XP, ${nextReview}`)
+          onProfileUpdate()
+        } else {
+          toast.success(`✅ Reviewed early, ${nextReview}`)
+        }
+      } else {
+        toast.error('Failed to save review')
+      }
+    } catch (error) {
+      console.error('Error grading review:', error)
+      toast.error('Failed to save review')
+    } finally {
+      setGradingId(null)
+    }
   }
 
-  const toggleComplete = (review: ReviewTopic) => {
-    const updatedReviews = reviews.map(r =>
-      r.id === review.id ? { ...r, completed: !r.completed } : r
-    )
-    saveReviews(updatedReviews)
-    
-    if (!review.completed) {
-      toast.success('✅ Review completed! +10 XP')
-      onProfileUpdate()
-    } else {
-      toast.success('Marked as incomplete')
+  const undoLastReview = async (schedule: ReviewSchedule) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/review-uncomplete/${schedule.id}`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        replaceSchedule(data.schedule)
+        if (data.xpGained < 0) {
+          toast.success(`Last review undone, ${data.xpGained} XP`)
+          onProfileUpdate()
+        } else {
+          toast.success('Last review undone')
+        }
+      } else {
+        const data = await response.json()
+        toast.error(data.error || 'Failed to undo review')
+      }
+    } catch (error) {
+      console.error('Error undoing review:', error)
+      toast.error('Failed to undo review')
     }
   }
 
-  const deleteReview = (review: ReviewTopic) => {
-    const updatedReviews = reviews.filter(r => r.id !== review.id)
-    saveReviews(updatedReviews)
-    toast.success('Review deleted')
+  const deleteSchedule = async (schedule: ReviewSchedule) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/review-schedule/${schedule.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        setSchedules(prev => prev.filter(s => s.id !== schedule.id))
+        toast.success(`Review schedule for "${schedule.topic}" deleted`)
+      } else {
+        toast.error('Failed to delete review schedule')
+      }
+    } catch (error) {
+      console.error('Error deleting review schedule:', error)
+      toast.error('Failed to delete review schedule')
+    }
   }
 
   const formatDate = (dateString: string) => {
@@ -141,12 +323,133 @@ export function SpacedRepetitionFixed({ session, onProfileUpdate }: SpacedRepeti
     return Math.ceil(diff / (1000 * 60 * 60 * 24))
   }
 
-  const pendingReviews = reviews.filter(r => !r.completed).sort((a, b) => 
-    new Date(a.reviewDate).getTime() - new Date(b.reviewDate).getTime()
-  )
-  const completedReviews = reviews.filter(r => r.completed)
-  const dueToday = pendingReviews.filter(r => getDaysUntil(r.reviewDate) === 0)
-  const overdue = pendingReviews.filter(r => getDaysUntil(r.reviewDate) < 0)
+  const now = new Date()
+  const isDue = (schedule: ReviewSchedule) => new Date(schedule.srs.dueAt).getTime() <= now.getTime()
+  const dueSchedules = schedules.filter(isDue)
+  const upcomingSchedules = schedules.filter(s => !isDue(s))
+  const totalReviewsDone = schedules.reduce((sum, s) => sum + s.history.length, 0)
+
+  const renderScheduleCard = (schedule: ReviewSchedule) => {
+    const due = isDue(schedule)
+    const daysUntil = getDaysUntil(schedule.srs.dueAt)
+    const intervals = previewIntervals(schedule.srs, now)
+    const lastReview = schedule.history[schedule.history.length - 1]
+    const cardCount = schedule.cards?.length ?? 0
+
+    return (
+      <Card 
+        key={schedule.id} 
+        className={`hover:shadow-lg transition-shadow ${due ? 'border-orange-300 bg-orange-50' : ''}`}
+      >
+        <CardContent className="pt-6">
+          <div className="space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 sm:gap-4">
+              <div className="flex-1">
+                <h4 className="text-lg">{schedule.topic}</h4>
+                <p className="text-sm text-gray-600">Subject: {schedule.subject || 'General'}</p>
+              </div>
+
+              {/* Responsive buttons */}
+              <div className="flex flex-row gap-2">
+                {cardCount > 0 && (
+                  <Button
+                    size="sm"
+                    onClick={() => setSessionScheduleId(schedule.id)}
+                    title="Study flashcards"
+                  >
+                    <Play className="w-4 h-4 sm:mr-1" />
+                    <span className="hidden sm:inline">Study</span>
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDeckScheduleId(schedule.id)}
+                  title="Edit flashcards"
+                >
+                  <Layers className="w-4 h-4 sm:mr-1" />
+                  <span className="hidden sm:inline">Cards ({cardCount})</span>
+                </Button>
+                {lastReview?.previous && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => undoLastReview(schedule)}
+                    title="Undo last review"
+                  >
+                    <Undo2 className="w-4 h-4 sm:mr-1" />
+                    <span className="hidden sm:inline">Undo</span>
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteSchedule(schedule)}
+                  className="text-red-600 border-red-200 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4 sm:mr-1" />
+                  <span className="hidden sm:inline">Delete</span>
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant={due ? 'destructive' : 'outline'}>
+                {due
+                  ? daysUntil < 0 ? `Overdue by ${Math.abs(daysUntil)} days` : 'Due Now'
+                  : daysUntil === 0 ? 'Later Today' : `In ${daysUntil} days`}
+              </Badge>
+              <Badge variant="secondary">
+                {formatDate(schedule.srs.dueAt)}
+              </Badge>
+              <Badge variant="outline">
+                Interval {schedule.srs.intervalDays > 0 ? formatInterval(schedule.srs.intervalDays) : 'new'}
+              </Badge>
+              <Badge variant="outline">Ease {schedule.srs.ease.toFixed(2)}</Badge>
+              {schedule.srs.lapses > 0 && (
+                <Badge variant="outline" className="text-red-600 border-red-200">
+                  Forgotten {schedule.srs.lapses}×
+                </Badge>
+              )}
+            </div>
+
+            <AttachedMaterials
+              session={session}
+              documents={documents}
+              attachments={schedule.attachments}
+              recordRoute="review-schedule"
+              recordId={schedule.id}
+              onChange={(attachments) => setSchedules(prev => prev.map(s => s.id === schedule.id ? { ...s, attachments } : s))}
+            />
+
+            {/* Recall grades */}
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600">
+                {cardCount > 0
+                  ? 'Study the deck, or grade the whole topic directly:'
+                  : due ? 'How well did you remember it?' : 'Reviewing early? Grade your recall:'}
+              </p>
+              <div className="grid grid-cols-4 gap-2">
+                {RECALL_GRADES.map((grade) => (
+                  <Button
+                    key={grade}
+                    variant="outline"
+                    size="sm"
+                    disabled={gradingId === schedule.id}
+                    onClick={() => gradeReview(schedule, grade)}
+                    className={`flex flex-col h-auto py-2 ${GRADE_STYLES[grade]}`}
+                  >
+                    <span>{GRADE_LABELS[grade]}</span>
+                    <span className="text-xs opacity-75">{formatInterval(intervals[grade])}</span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
 
   return (
     <div className="space-y-6">
@@ -159,7 +462,7 @@ export function SpacedRepetitionFixed({ session, onProfileUpdate }: SpacedRepeti
           <CardContent>
             <div className="flex items-center gap-2">
               <Clock className="w-5 h-5 text-orange-600" />
-              <span className="text-3xl">{dueToday.length + overdue.length}</span>
+              <span className="text-3xl">{dueSchedules.length}</span>
             </div>
           </CardContent>
         </Card>
@@ -171,7 +474,7 @@ export function SpacedRepetitionFixed({ session, onProfileUpdate }: SpacedRepeti
           <CardContent>
             <div className="flex items-center gap-2">
               <CheckCircle className="w-5 h-5 text-green-600" />
-              <span className="text-3xl">{completedReviews.length}</span>
+              <span className="text-3xl">{totalReviewsDone}</span>
             </div>
           </CardContent>
         </Card>
@@ -183,7 +486,7 @@ export function SpacedRepetitionFixed({ session, onProfileUpdate }: SpacedRepeti
           <CardContent>
             <div className="flex items-center gap-2">
               <Brain className="w-5 h-5 text-purple-600" />
-              <span className="text-3xl">{new Set(reviews.map(r => r.topic)).size}</span>
+              <span className="text-3xl">{schedules.length}</span>
             </div>
           </CardContent>
         </Card>
@@ -192,188 +495,97 @@ export function SpacedRepetitionFixed({ session, onProfileUpdate }: SpacedRepeti
       {/* Add Topic Button */}
       <div className="flex justify-between items-center">
         <h2 className="text-2xl">Review Schedule</h2>
-        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="w-4 h-4 mr-2" />
-              Add Topic to Review
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Create Spaced Repetition Schedule</DialogTitle>
-              <DialogDescription>
-                Add a topic to review using the spaced repetition method
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={createReviewSchedule} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="review-subject">Subject</Label>
-                <Select value={subject} onValueChange={setSubject} required>
-                  <SelectTrigger id="review-subject">
-                    <SelectValue placeholder="Select subject" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {userSubjects.map((subj) => (
-                      <SelectItem key={subj} value={subj}>
-                        {subj}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+        <div className="flex gap-2">
+          <DeckImportExport
+            session={session}
+            schedules={schedules}
+            subjects={userSubjects}
+            onImported={fetchSchedules}
+          />
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Topic to Review
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Spaced Repetition Schedule</DialogTitle>
+                <DialogDescription>
+                  Add a topic to review using the spaced repetition method
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={createReviewSchedule} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="review-subject">Subject</Label>
+                  <Select value={subject} onValueChange={setSubject} required>
+                    <SelectTrigger id="review-subject">
+                      <SelectValue placeholder="Select subject" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {userSubjects.map((subj) => (
+                        <SelectItem key={subj} value={subj}>
+                          {subj}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="review-topic">Topic</Label>
-                <Input
-                  id="review-topic"
-                  value={topic}
-                  onChange={(e) => setTopic(e.target.value)}
-                  placeholder="e.g., Quadratic Equations, Photosynthesis"
-                  required
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="review-topic">Topic</Label>
+                  <Input
+                    id="review-topic"
+                    value={topic}
+                    onChange={(e) => setTopic(e.target.value)}
+                    placeholder="e.g., Quadratic Equations, Photosynthesis"
+                    required
+                  />
+                </div>
 
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <h4 className="text-sm font-medium mb-2">Review Schedule:</h4>
-                <ul className="text-sm text-gray-700 space-y-1">
-                  <li>• Day 1 (Tomorrow)</li>
-                  <li>• Day 3</li>
-                  <li>• Day 7 (1 week)</li>
-                  <li>• Day 14 (2 weeks)</li>
-                  <li>• Day 30 (1 month)</li>
-                </ul>
-              </div>
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                  <h4 className="text-sm font-medium mb-2">How reviews are scheduled:</h4>
+                  <ul className="text-sm text-gray-700 space-y-1">
+                    <li>• First review is tomorrow</li>
+                    <li>• Grade each review Again, Hard, Good or Easy</li>
+                    <li>• Topics you forget come back sooner</li>
+                    <li>• Topics you find easy are pushed further out</li>
+                  </ul>
+                </div>
 
-              <div className="flex justify-end gap-2">
-                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  Create Schedule
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Creating...' : 'Create Schedule'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
-      {/* Pending Reviews */}
-      {pendingReviews.length > 0 && (
+      {/* Due Reviews */}
+      {dueSchedules.length > 0 && (
         <div className="space-y-4">
-          <h3 className="text-lg">Upcoming Reviews</h3>
-          {pendingReviews.map((review) => {
-            const daysUntil = getDaysUntil(review.reviewDate)
-            const isDue = daysUntil <= 0
-            
-            return (
-              <Card 
-                key={review.id} 
-                className={`hover:shadow-lg transition-shadow ${isDue ? 'border-orange-300 bg-orange-50' : ''}`}
-              >
-                <CardContent className="pt-6">
-                  <div className="flex items-start gap-3">
-                    {/* Checkbox */}
-                    <div className="flex items-center pt-1">
-                      <button
-                        onClick={() => toggleComplete(review)}
-                        className="w-6 h-6 rounded border-2 border-gray-300 hover:border-indigo-600 flex items-center justify-center transition-colors bg-white"
-                        title="Mark as reviewed"
-                      >
-                        {review.completed && (
-                          <CheckSquare className="w-5 h-5 text-indigo-600" />
-                        )}
-                      </button>
-                    </div>
-                    
-                    <div className="flex-1 space-y-2">
-                      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 sm:gap-4">
-                        <div className="flex-1">
-                          <h4 className="text-lg">{review.topic}</h4>
-                          <p className="text-sm text-gray-600">Subject: {review.subject}</p>
-                        </div>
-                        
-                        {/* Responsive buttons */}
-                        <div className="flex flex-row gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => toggleComplete(review)}
-                            className="text-green-600 border-green-200 hover:bg-green-50"
-                          >
-                            <CheckSquare className="w-4 h-4 sm:mr-1" />
-                            <span className="hidden sm:inline">Complete</span>
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => deleteReview(review)}
-                            className="text-red-600 border-red-200 hover:bg-red-50"
-                          >
-                            <Trash2 className="w-4 h-4 sm:mr-1" />
-                            <span className="hidden sm:inline">Delete</span>
-                          </Button>
-                        </div>
-                      </div>
-                      
-                      <div className="flex flex-wrap gap-2">
-                        <Badge variant={isDue ? 'destructive' : 'outline'}>
-                          {daysUntil === 0 
-                            ? 'Due Today' 
-                            : daysUntil < 0 
-                              ? `Overdue by ${Math.abs(daysUntil)} days` 
-                              : `In ${daysUntil} days`}
-                        </Badge>
-                        <Badge variant="secondary">
-                          {formatDate(review.reviewDate)}
-                        </Badge>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            )
-          })}
+          <h3 className="text-lg">Due for Review</h3>
+          {dueSchedules.map(renderScheduleCard)}
         </div>
       )}
 
-      {/* Completed Reviews */}
-      {completedReviews.length > 0 && (
+      {/* Upcoming Reviews */}
+      {upcomingSchedules.length > 0 && (
         <div className="space-y-4">
-          <h3 className="text-lg text-gray-600">Completed Reviews</h3>
-          {completedReviews.map((review) => (
-            <Card key={review.id} className="opacity-75 bg-green-50">
-              <CardContent className="pt-6">
-                <div className="flex items-start gap-4">
-                  <Checkbox
-                    checked={review.completed}
-                    onCheckedChange={() => toggleComplete(review)}
-                    className="mt-1"
-                  />
-                  <div className="flex-1">
-                    <h4 className="text-lg line-through text-gray-600">{review.topic}</h4>
-                    <p className="text-sm text-gray-500">{review.subject}</p>
-                    <Badge variant="secondary" className="mt-2">
-                      Reviewed on {formatDate(review.reviewDate)}
-                    </Badge>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => deleteReview(review)}
-                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+          <h3 className="text-lg text-gray-600">Upcoming Reviews</h3>
+          {upcomingSchedules.map(renderScheduleCard)}
         </div>
       )}
 
       {/* Empty State */}
-      {reviews.length === 0 && (
+      {schedules.length === 0 && (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <Brain className="w-12 h-12 text-gray-400 mb-4" />
@@ -388,8 +600,8 @@ export function SpacedRepetitionFixed({ session, onProfileUpdate }: SpacedRepeti
               </h4>
               <ul className="text-sm text-gray-700 space-y-1">
                 <li>📚 Add topics immediately after learning something new</li>
-                <li>🧠 Focus on understanding, not memorization</li>
-                <li>📅 Review on scheduled dates for best retention</li>
+                <li>🧠 Try to recall before checking your notes</li>
+                <li>🎯 Grade honestly - it keeps your schedule accurate</li>
                 <li>✅ Complete reviews to unlock full potential!</li>
               </ul>
             </div>
@@ -397,7 +609,7 @@ export function SpacedRepetitionFixed({ session, onProfileUpdate }: SpacedRepeti
         </Card>
       )}
 
-      {reviews.length > 0 && pendingReviews.length === 0 && (
+      {schedules.length > 0 && dueSchedules.length === 0 && (
         <Card className="bg-green-50 border-green-200">
           <CardContent className="flex flex-col items-center justify-center py-12">
             <CheckCircle className="w-16 h-16 text-green-600 mb-4" />
@@ -406,6 +618,22 @@ export function SpacedRepetitionFixed({ session, onProfileUpdate }: SpacedRepeti
           </CardContent>
         </Card>
       )}
+
+      <FlashcardDeckEditor
+        session={session}
+        schedule={schedules.find(s => s.id === deckScheduleId) ?? null}
+        open={deckScheduleId !== null}
+        onOpenChange={(open) => !open && setDeckScheduleId(null)}
+        onScheduleUpdate={replaceSchedule}
+      />
+
+      <FlashcardSession
+        session={session}
+        schedule={schedules.find(s => s.id === sessionScheduleId) ?? null}
+        open={sessionScheduleId !== null}
+        onClose={() => setSessionScheduleId(null)}
+        onComplete={handleSessionComplete}
+      />
     </div>
   )
 }
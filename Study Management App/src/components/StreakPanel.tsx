@@ -0,0 +1,310 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Progress } from './ui/progress'
+import { Card, CardContent } from './ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { toast } from 'sonner@2.0.3'
+import { Flame, Snowflake, Trash2 } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { addDays, getLocalTimeZone } from '../utils/timezone'
+import { FREEZE_EARN_DAYS, MAX_FREEZES, MAX_MINIMUM_MINUTES, type DayOffReason, type StreakSettings, type StreakSummary } from '../utils/streaks'
+import type { FieldErrors } from '../utils/schemas'
+import { FieldError } from './FieldError'
+
+interface StreakPanelProps {
+  session: any
+  isOpen: boolean
+  onClose: () => void
+  // Called after anything that can change the streak shown in the header
+  onStreakChange: () => void
+}
+
+const REASON_LABELS: { [reason in DayOffReason]: string } = {
+  holiday: 'Holiday',
+  sick: 'Sick day'
+}
+// Past days off stay listed for a while so a mistake can be undone
+const PAST_DAYS_SHOWN = 30
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+// The streak in detail, with the daily minimum and days off that shape it
+export function StreakPanel({ session, isOpen, onClose, onStreakChange }: StreakPanelProps) {
+  const [streak, setStreak] = useState<StreakSummary | null>(null)
+  const [settings, setSettings] = useState<StreakSettings | null>(null)
+  const [timeZone, setTimeZone] = useState('UTC')
+  const [minimumMinutes, setMinimumMinutes] = useState('')
+  const [dayOff, setDayOff] = useState<{ from: string; to: string; reason: DayOffReason }>({ from: '', to: '', reason: 'holiday' })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  const [busy, setBusy] = useState(false)
+  const localTimeZone = getLocalTimeZone()
+
+  const api = (path: string, init: RequestInit = {}) => fetch(
+    `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/${path}`,
+    {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    }
+  )
+
+  const applyResponse = (data: any) => {
+    setStreak(data.streak)
+    setSettings(data.settings)
+    setTimeZone(data.timeZone)
+    setMinimumMinutes(String(data.settings.minimumMinutes))
+  }
+
+  useEffect(() => {
+    if (isOpen) fetchStreak()
+  }, [isOpen])
+
+  const fetchStreak = async () => {
+    try {
+      const response = await api('streak')
+      if (response.ok) {
+        applyResponse(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching streak:', error)
+    }
+  }
+
+  // Sends a change and shows the recomputed streak, or the fields at fault
+  const submit = async (path: string, init: RequestInit, success: string) => {
+    setBusy(true)
+    try {
+      const response = await api(path, init)
+      const data = await response.json()
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {})
+        toast.error(data.error)
+        return false
+      }
+      setFieldErrors({})
+      applyResponse(data)
+      onStreakChange()
+      toast.success(success)
+      return true
+    } catch (error) {
+      console.error('Error updating streak:', error)
+      toast.error('Failed to update streak settings')
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveMinimum = () => submit(
+    'streak/settings',
+    { method: 'PUT', body: JSON.stringify({ minimumMinutes: parseInt(minimumMinutes) || 0 }) },
+    'Daily minimum updated'
+  )
+
+  const addDaysOff = async () => {
+    const added = await submit(
+      'streak/days-off',
+      { method: 'POST', body: JSON.stringify({ ...dayOff, to: dayOff.to || dayOff.from }) },
+      'Days off added'
+    )
+    if (added) setDayOff({ from: '', to: '', reason: dayOff.reason })
+  }
+
+  const removeDayOff = (date: string) => submit(`streak/days-off/${date}`, { method: 'DELETE' }, 'Day off removed')
+
+  const switchToLocalTimeZone = async () => {
+    setBusy(true)
+    try {
+      const response = await api('profile', { method: 'POST', body: JSON.stringify({ timeZone: localTimeZone }) })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+      await fetchStreak()
+      onStreakChange()
+      toast.success(`Streak days now follow ${localTimeZone}`)
+    } catch (error) {
+      console.error('Error updating time zone:', error)
+      toast.error('Failed to update time zone')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const visibleDaysOff = streak && settings
+    ? settings.daysOff.filter(d => d.date >= addDays(streak.today, -PAST_DAYS_SHOWN)).slice().reverse()
+    : []
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flame className="w-5 h-5 text-orange-500" />
+            Study Streak
+          </DialogTitle>
+          <DialogDescription>
+            Days are counted in {timeZone}.
+            {timeZone !== localTimeZone && (
+              <Button variant="link" size="sm" disabled={busy} onClick={switchToLocalTimeZone}>
+                Use {localTimeZone}
+              </Button>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!streak || !settings ? (
+          <p className="text-sm text-gray-500 text-center py-8">Loading streak...</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-2" style={{ gridTemplateColumns: 'repeat(3, minmax(0, 1fr))' }}>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm text-gray-600">Current</p>
+                  <p className="text-2xl">{streak.current} day{streak.current !== 1 ? 's' : ''}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm text-gray-600">Longest</p>
+                  <p className="text-2xl">{streak.longest} day{streak.longest !== 1 ? 's' : ''}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4" title={`Earn one for every ${FREEZE_EARN_DAYS} days in a row`}>
+                  <p className="text-sm text-gray-600 flex items-center gap-1">
+                    <Snowflake className="w-4 h-4 text-blue-600" />
+                    Freezes
+                  </p>
+                  <p className="text-2xl">{streak.freezes} / {MAX_FREEZES}</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>Today</span>
+                <span className="text-gray-600">
+                  {streak.todayMinutes} of {settings.minimumMinutes} minutes
+                </span>
+              </div>
+              <Progress value={Math.min(100, streak.todayMinutes / settings.minimumMinutes * 100)} />
+              <p className="text-xs text-gray-500">
+                {streak.todayComplete
+                  ? 'Today counts towards your streak'
+                  : streak.atRisk && streak.freezes > 0
+                    ? 'If today falls short, a freeze keeps your streak going'
+                    : `Study at least ${settings.minimumMinutes} minutes for today to count`}
+              </p>
+              {streak.frozenDays.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Freezes covered {streak.frozenDays.map(formatDay).join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="streak-minimum">Daily minimum (minutes)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="streak-minimum"
+                  type="number"
+                  min={1}
+                  max={MAX_MINIMUM_MINUTES}
+                  value={minimumMinutes}
+                  onChange={(e) => setMinimumMinutes(e.target.value)}
+                  style={{ width: '6rem' }}
+                />
+                <Button
+                  variant="outline"
+                  disabled={busy || minimumMinutes === String(settings.minimumMinutes)}
+                  onClick={saveMinimum}
+                >
+                  Save
+                </Button>
+              </div>
+              <FieldError message={fieldErrors.minimumMinutes} />
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <h3>Days off</h3>
+                <p className="text-xs text-gray-500">
+                  Holidays and sick days don't count towards your streak, and don't break it
+                </p>
+              </div>
+              <div className="grid gap-2" style={{ gridTemplateColumns: 'repeat(3, minmax(0, 1fr))' }}>
+                <div className="space-y-1">
+                  <Label htmlFor="day-off-from">From</Label>
+                  <Input
+                    id="day-off-from"
+                    type="date"
+                    value={dayOff.from}
+                    onChange={(e) => setDayOff({ ...dayOff, from: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="day-off-to">To</Label>
+                  <Input
+                    id="day-off-to"
+                    type="date"
+                    min={dayOff.from || undefined}
+                    value={dayOff.to}
+                    onChange={(e) => setDayOff({ ...dayOff, to: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="day-off-reason">Reason</Label>
+                  <Select value={dayOff.reason} onValueChange={(reason: DayOffReason) => setDayOff({ ...dayOff, reason })}>
+                    <SelectTrigger id="day-off-reason">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(REASON_LABELS) as DayOffReason[]).map((reason) => (
+                        <SelectItem key={reason} value={reason}>{REASON_LABELS[reason]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <FieldError message={fieldErrors.from} />
+              <FieldError message={fieldErrors.to} />
+              <Button size="sm" disabled={busy || !dayOff.from} onClick={addDaysOff}>
+                Add days off
+              </Button>
+
+              {visibleDaysOff.length > 0 && (
+                <div className="space-y-2">
+                  {visibleDaysOff.map((day) => (
+                    <div key={day.date} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                      <span className="text-sm">{formatDay(day.date)}</span>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{REASON_LABELS[day.reason]}</Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={busy}
+                          onClick={() => removeDayOff(day.date)}
+                          title="Remove day off"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { toast } from 'sonner@2.0.3'
+import { Wand2, Check, ChevronLeft, ChevronRight, RefreshCw, GripVertical, Brain, ListTodo, BookOpen } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import { useSubjects } from './SubjectManagement'
+import { findOpenSlot, generatePlan, type PlannedBlock, type PlannedBlockKind } from '../utils/planner'
+import { timeToMinutes } from '../utils/timetable'
+
+interface StudyPlannerProps {
+  session: any
+  routine: any
+}
+
+interface StoredPlan {
+  weekStart: string
+  blocks: PlannedBlock[]
+  status: 'draft' | 'accepted'
+  updatedAt: string
+}
+
+const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+const KIND_STYLES: { [kind in PlannedBlockKind]: string } = {
+  review: 'bg-orange-50 border-orange-200',
+  task: 'bg-yellow-50 border-yellow-200',
+  subject: 'bg-green-50 border-green-200'
+}
+
+const KIND_ICONS = {
+  review: Brain,
+  task: ListTodo,
+  subject: BookOpen
+}
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+const getWeekStart = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  return start
+}
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+const sortBlocks = (blocks: PlannedBlock[]) =>
+  [...blocks].sort((a, b) => a.day - b.day || timeToMinutes(a.start) - timeToMinutes(b.start))
+
+export function StudyPlanner({ session, routine }: StudyPlannerProps) {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()))
+  const [plan, setPlan] = useState<StoredPlan | null>(null)
+  const [viewMode, setViewMode] = useState<'day' | 'week'>('week')
+  const [selectedDay, setSelectedDay] = useState(() => (new Date().getDay() + 6) % 7)
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const userSubjects = useSubjects(session.user.id)
+  const weekKey = toDateKey(weekStart)
+  const timetable = routine?.timetable || []
+
+  useEffect(() => {
+    fetchPlan()
+  }, [weekKey])
+
+  const apiFetch = async (path: string, init?: RequestInit) =>
+    fetch(`https://${projectId}.supabase.co/functions/v1/make-server-21b13642/${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+  const fetchPlan = async () => {
+    setIsLoading(true)
+    try {
+      const response = await apiFetch(`plan/${weekKey}`)
+      if (response.ok) {
+        const data = await response.json()
+        setPlan(data.plan)
+      }
+    } catch (error) {
+      console.error('Error fetching plan:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const savePlan = async (blocks: PlannedBlock[], status: StoredPlan['status']) => {
+    const previous = plan
+    setPlan({ weekStart: weekKey, blocks, status, updatedAt: new Date().toISOString() })
+    try {
+      const response = await apiFetch(`plan/${weekKey}`, {
+        method: 'PUT',
+        body: JSON.stringify({ blocks, status }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        toast.error('Failed to save plan: ' + data.error)
+        setPlan(previous)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error saving plan:', error)
+      toast.error('Failed to save plan')
+      setPlan(previous)
+      return false
+    }
+  }
+
+  const regenerate = async () => {
+    setIsGenerating(true)
+    try {
+      const [tasksResponse, schedulesResponse, recordsResponse] = await Promise.all([
+        apiFetch('tasks'),
+        apiFetch('review-schedules'),
+        apiFetch('study-records')
+      ])
+      if (!tasksResponse.ok || !schedulesResponse.ok || !recordsResponse.ok) {
+        toast.error('Failed to load your tasks and reviews')
+        return
+      }
+      const [{ tasks = [] }, { schedules = [] }, { records = [] }] = await Promise.all([
+        tasksResponse.json(),
+        schedulesResponse.json(),
+        recordsResponse.json()
+      ])
+
+      const now = new Date()
+      const blocks = generatePlan({
+        weekStart: weekKey,
+        today: { date: toDateKey(now), minutes: now.getHours() * 60 + now.getMinutes() },
+        timetable,
+        tasks: tasks.filter((task: any) => task.id),
+        reviews: schedules.filter((schedule: any) => schedule.srs?.dueAt).map((schedule: any) => ({
+          id: schedule.id,
+          subject: schedule.subject || 'General',
+          topic: schedule.topic,
+          dueDate: toDateKey(new Date(schedule.srs.dueAt))
+        })),
+        records: records.map((record: any) => ({
+          subject: record.subject,
+          duration: record.duration || 0,
+          date: toDateKey(new Date(record.studiedAt || record.startedAt || record.createdAt))
+        })),
+        subjects: userSubjects
+      })
+
+      if (blocks.length === 0) {
+        toast.error('No free time left to plan this week')
+      }
+      if (await savePlan(blocks, 'draft')) {
+        toast.success(`🪄 Planned ${blocks.length} study block${blocks.length !== 1 ? 's' : ''}`)
+      }
+    } catch (error) {
+      console.error('Error generating plan:', error)
+      toast.error('Failed to generate plan')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const acceptPlan = async () => {
+    if (plan && await savePlan(plan.blocks, 'accepted')) {
+      toast.success('✅ Plan accepted')
+    }
+  }
+
+  // Dropping a block on another swaps their time slots; dropping it on a
+  // day moves it into that day's first open slot
+  const dropOnBlock = (target: PlannedBlock) => {
+    if (!plan || !draggedId || draggedId === target.id) return
+    const dragged = plan.blocks.find(b => b.id === draggedId)
+    if (!dragged) return
+
+    const blocks = plan.blocks.map((block) => {
+      if (block.id === dragged.id) return { ...block, day: target.day, start: target.start, end: target.end }
+      if (block.id === target.id) return { ...block, day: dragged.day, start: dragged.start, end: dragged.end }
+      return block
+    })
+    savePlan(blocks, plan.status)
+  }
+
+  const dropOnDay = (day: number) => {
+    if (!plan || !draggedId) return
+    const dragged = plan.blocks.find(b => b.id === draggedId)
+    if (!dragged || dragged.day === day) return
+
+    const slot = findOpenSlot(timetable, plan.blocks, day)
+    if (!slot) {
+      toast.error(`No free slot left on ${DAYS[day]}`)
+      return
+    }
+    savePlan(plan.blocks.map(block => block.id === dragged.id ? { ...block, day, ...slot } : block), plan.status)
+  }
+
+  const renderBlock = (block: PlannedBlock) => {
+    const Icon = KIND_ICONS[block.kind]
+    return (
+      <div
+        key={block.id}
+        draggable
+        onDragStart={() => setDraggedId(block.id)}
+        onDragEnd={() => setDraggedId(null)}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          dropOnBlock(block)
+        }}
+        className={`flex items-start gap-2 p-2 border rounded-lg cursor-pointer text-sm ${KIND_STYLES[block.kind]} ${draggedId === block.id ? 'opacity-50' : ''}`}
+      >
+        <GripVertical className="w-4 h-4 text-gray-400 shrink-0 mt-1" />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-gray-500">{block.start}–{block.end}</p>
+          <p className="truncate flex items-center gap-1">
+            <Icon className="w-3 h-3 shrink-0" />
+            {block.title}
+          </p>
+          {block.subject && block.kind !== 'subject' && (
+            <p className="text-xs text-gray-500 truncate">{block.subject}</p>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const weekDates = DAYS.map((_, index) => addDays(weekStart, index))
+  const blocks = sortBlocks(plan?.blocks || [])
+  const visibleDays = viewMode === 'week' ? DAYS.map((_, index) => index) : [selectedDay]
+  const plannedMinutes = blocks.reduce((sum, b) => sum + timeToMinutes(b.end) - timeToMinutes(b.start), 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wand2 className="w-5 h-5 text-purple-600" />
+              Study Planner
+              {plan && (
+                <Badge variant={plan.status === 'accepted' ? 'default' : 'outline'}>
+                  {plan.status === 'accepted' ? 'Accepted' : 'Draft'}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              Week of {weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              {plan ? ` · ${Math.floor(plannedMinutes / 60)}h ${plannedMinutes % 60}m planned` : ''}
+              {timetable.length === 0 && ' · add your timetable above for a better plan'}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, -7))} title="Previous week">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, 7))} title="Next week">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" onClick={regenerate} disabled={isGenerating}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {isGenerating ? 'Planning...' : plan ? 'Regenerate' : 'Generate Plan'}
+            </Button>
+            {plan && plan.status !== 'accepted' && plan.blocks.length > 0 && (
+              <Button onClick={acceptPlan}>
+                <Check className="w-4 h-4 mr-2" />
+                Accept
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant={viewMode === 'week' ? 'default' : 'outline'} size="sm" onClick={() => setViewMode('week')}>
+            Week
+          </Button>
+          {DAYS.map((day, index) => (
+            <Button
+              key={day}
+              variant={viewMode === 'day' && selectedDay === index ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => {
+                setViewMode('day')
+                setSelectedDay(index)
+              }}
+            >
+              {day.slice(0, 3)}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 text-center py-8">Loading plan...</p>
+        ) : !plan ? (
+          <div className="text-center py-8 space-y-2">
+            <p className="text-gray-600">No plan for this week yet</p>
+            <p className="text-sm text-gray-500">
+              Generate one from your tasks, due reviews and the subjects you haven't studied lately
+            </p>
+          </div>
+        ) : (
+          <div className={viewMode === 'week' ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-7 gap-2' : 'space-y-2'}>
+            {visibleDays.map((day) => {
+              const dayBlocks = blocks.filter(b => b.day === day)
+              return (
+                <div
+                  key={day}
+                  className="space-y-2 p-2 border rounded-lg min-w-0"
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    dropOnDay(day)
+                  }}
+                >
+                  <div>
+                    <p className="text-sm">{DAYS[day]}</p>
+                    <p className="text-xs text-gray-500">
+                      {weekDates[day].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </p>
+                  </div>
+                  {dayBlocks.map(renderBlock)}
+                  {dayBlocks.length === 0 && (
+                    <p className="text-xs text-gray-400 py-2">Drop a block here</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -9,9 +9,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Badge } from './ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { toast } from 'sonner@2.0.3'
-import { Plus, Clock, BookOpen, TrendingUp, Flame, GraduationCap, School, Home, BarChart3 } from 'lucide-react'
+import { Plus, Clock, BookOpen, TrendingUp, Flame, GraduationCap, School, Home, BarChart3, Trash2 } from 'lucide-react'
 import { projectId } from '../utils/supabase/info'
 import { useSubjects } from './SubjectManagement'
+import { FocusTimer, type FocusSessionResult } from './FocusTimer'
+import { AttachedMaterials, useDocuments } from './AttachedMaterials'
+import type { Attachment } from '../utils/attachments'
+import { registerCommands, useCommandHandler } from '../utils/commands'
+import { hasFieldErrors, MAX_BACKDATE_DAYS, MAX_SESSION_MINUTES, readPayload, studyRecordSchema, type FieldErrors } from '../utils/schemas'
+import { addDays, getLocalTimeZone, zonedDateKey } from '../utils/timezone'
+import { FieldError } from './FieldError'
+
+registerCommands([
+  { id: 'study.log', title: 'Log study session', group: 'Study', keywords: ['record', 'add'], tab: 'study' }
+])
 
 interface StudyRecordsProps {
   session: any
@@ -19,6 +30,7 @@ interface StudyRecordsProps {
 }
 
 interface StudyRecord {
+  id?: string
   subject: string
   topic: string
   duration: number
@@ -27,9 +39,26 @@ interface StudyRecord {
   distractions: number
   notes: string
   source: 'school' | 'tuition' | 'self-study'
+  // Set when the session was timed with the focus timer
+  startedAt?: string
+  // Set when the session was logged for an earlier day
+  studiedAt?: string | null
+  attachments?: Attachment[]
   createdAt: string
 }
 
+const emptyRecord = (): StudyRecord => ({
+  subject: '',
+  topic: '',
+  duration: 30,
+  focusLevel: 3,
+  energyLevel: 3,
+  distractions: 0,
+  notes: '',
+  source: 'self-study',
+  createdAt: new Date().toISOString()
+})
+
 const SUBJECTS = ['Mathematics', 'Physics', 'Chemistry', 'Biology', 'English', 'History', 'Geography', 'Computer Science', 'Other']
 
 export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsProps) {
@@ -37,25 +66,24 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
   const [isLoading, setIsLoading] = useState(false)
   const [dialogOpen, setDialogOpen] = useState(false)
   const [viewMode, setViewMode] = useState<'all' | 'school' | 'tuition' | 'self-study' | 'compare'>('all')
-  const [formData, setFormData] = useState<StudyRecord>({
-    subject: '',
-    topic: '',
-    duration: 30,
-    focusLevel: 3,
-    energyLevel: 3,
-    distractions: 0,
-    notes: '',
-    source: 'self-study',
-    createdAt: new Date().toISOString()
-  })
+  const [formData, setFormData] = useState<StudyRecord>(emptyRecord)
+  // Set while rating a session the focus timer has already saved
+  const [reflectingOn, setReflectingOn] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  // Sessions can be logged for the last few days; empty means today
+  const [studiedOn, setStudiedOn] = useState('')
+  const today = zonedDateKey(new Date(), getLocalTimeZone())
 
   // Get user's custom subjects
   const userSubjects = useSubjects(session.user.id)
+  const documents = useDocuments(session)
 
   useEffect(() => {
     fetchRecords()
   }, [])
 
+  useCommandHandler('study.log', () => setDialogOpen(true))
+
   const fetchRecords = async () => {
     try {
       const response = await fetch(
@@ -76,8 +104,27 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
     }
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const resetForm = () => {
+    setFormData(emptyRecord())
+    setReflectingOn(null)
+    setStudiedOn('')
+    setFieldErrors({})
+  }
+
+  const handleDialogChange = (open: boolean) => {
+    setDialogOpen(open)
+    if (!open) resetForm()
+  }
+
+  // Saves a new record; resolves to the server's response, or null if it
+  // was rejected
+  const saveRecord = async (record: StudyRecord) => {
+    const { fieldErrors: errors } = readPayload(studyRecordSchema, record)
+    setFieldErrors(errors)
+    if (hasFieldErrors(errors)) {
+      toast.error(Object.values(errors)[0])
+      return null
+    }
     setIsLoading(true)
 
     try {
@@ -89,45 +136,131 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
             'Content-Type': 'application/json',
             Authorization: `Bearer ${session.access_token}`,
           },
-          body: JSON.stringify(formData),
+          body: JSON.stringify(record),
         }
       )
 
-      if (response.ok) {
-        const data = await response.json()
-        toast.success(`🎉 Study record saved! +${data.xpGained} XP`)
-        if (data.streak > 1) {
-          toast.success(`🔥 ${data.streak} day streak!`)
-        }
-        
-        setDialogOpen(false)
-        fetchRecords()
-        onProfileUpdate()
-        
-        // Reset form
-        setFormData({
-          subject: '',
-          topic: '',
-          duration: 30,
-          focusLevel: 3,
-          energyLevel: 3,
-          distractions: 0,
-          notes: '',
-          source: 'self-study',
-          createdAt: new Date().toISOString()
-        })
-      } else {
-        const data = await response.json()
+      const data = await response.json()
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {})
         toast.error('Failed to save record: ' + data.error)
+        return null
       }
+
+      toast.success(`🎉 Study record saved! +${data.xpGained} XP`)
+      if (data.studyDay.minutes < data.studyDay.minimumMinutes) {
+        toast(`Study ${data.studyDay.minimumMinutes - data.studyDay.minutes} more minutes that day for it to count towards your streak`)
+      } else if (data.streak > 1) {
+        toast.success(`🔥 ${data.streak} day streak!`)
+      }
+      fetchRecords()
+      onProfileUpdate()
+      return data
     } catch (error) {
       console.error('Error saving record:', error)
       toast.error('An error occurred while saving')
+      return null
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Adds focus, energy and notes to a record the focus timer saved
+  const saveReflection = async (recordId: string) => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/study-record/${recordId}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ focusLevel: formData.focusLevel, energyLevel: formData.energyLevel, notes: formData.notes }),
+        }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {})
+        toast.error('Failed to update record: ' + data.error)
+        return false
+      }
+      setRecords(prev => prev.map(r => r.id === recordId ? data.record : r))
+      toast.success('Session updated')
+      return true
+    } catch (error) {
+      console.error('Error updating record:', error)
+      toast.error('An error occurred while saving')
+      return false
     } finally {
       setIsLoading(false)
     }
   }
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const saved = reflectingOn
+      ? await saveReflection(reflectingOn)
+      : await saveRecord({
+          ...formData,
+          // Midday keeps the session on that date whatever the time zone
+          studiedAt: studiedOn && studiedOn !== today ? new Date(`${studiedOn}T12:00`).toISOString() : null
+        })
+    if (saved) handleDialogChange(false)
+  }
+
+  // A finished focus timer session is saved straight away with what the
+  // timer measured; the form then opens to add focus, energy and notes
+  const handleTimerSessionEnd = async (result: FocusSessionResult) => {
+    const record: StudyRecord = {
+      ...emptyRecord(),
+      subject: result.subject,
+      topic: result.topic,
+      duration: result.duration,
+      distractions: result.distractions,
+      source: result.source,
+      startedAt: result.startedAt
+    }
+    const data = await saveRecord(record)
+    if (!data) return false
+
+    setFormData(record)
+    setReflectingOn(data.recordId)
+    setDialogOpen(true)
+    return true
+  }
+
+  const deleteRecord = async (record: StudyRecord) => {
+    // Remove from local state immediately, restored if the server rejects it
+    setRecords(prev => prev.filter(r => r.id !== record.id))
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/study-record/${record.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`)
+      }
+
+      const data = await response.json()
+      toast.success(data.xpGained < 0 ? `Study session deleted, ${data.xpGained} XP` : 'Study session deleted')
+      onProfileUpdate()
+    } catch (error) {
+      console.error('Error deleting record:', error)
+      setRecords(prev => prev.some(r => r.id === record.id) ? prev : [record, ...prev])
+      toast.error('Failed to delete study session')
+    }
+  }
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     return date.toLocaleDateString('en-US', { 
@@ -191,19 +324,32 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
     return (
       <div className="space-y-4">
         {sourceRecords.map((record, index) => (
-          <Card key={index} className="hover:shadow-lg transition-shadow">
+          <Card key={record.id ?? index} className="hover:shadow-lg transition-shadow">
             <CardHeader>
               <div className="flex items-start justify-between">
                 <div className="space-y-1">
                   <CardTitle className="text-lg">{record.subject}</CardTitle>
                   <CardDescription>{record.topic}</CardDescription>
                 </div>
-                <Badge className={getSourceColor(record.source)}>
-                  <div className="flex items-center gap-1">
-                    {getSourceIcon(record.source)}
-                    <span className="capitalize">{record.source}</span>
-                  </div>
-                </Badge>
+                <div className="flex items-center gap-2">
+                  <Badge className={getSourceColor(record.source)}>
+                    <div className="flex items-center gap-1">
+                      {getSourceIcon(record.source)}
+                      <span className="capitalize">{record.source}</span>
+                    </div>
+                  </Badge>
+                  {record.id && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteRecord(record)}
+                      title="Delete study session"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -226,7 +372,7 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
                 </div>
                 <div>
                   <p className="text-gray-500">Date</p>
-                  <p>{formatDate(record.createdAt)}</p>
+                  <p>{formatDate(record.studiedAt || record.startedAt || record.createdAt)}</p>
                 </div>
               </div>
               {record.notes && (
@@ -234,6 +380,18 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
                   <p className="text-sm text-gray-700">{record.notes}</p>
                 </div>
               )}
+              {record.id && (
+                <div className="mt-4">
+                  <AttachedMaterials
+                    session={session}
+                    documents={documents}
+                    attachments={record.attachments}
+                    recordRoute="study-record"
+                    recordId={record.id}
+                    onChange={(attachments) => setRecords(prev => prev.map(r => r.id === record.id ? { ...r, attachments } : r))}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
         ))}
@@ -243,6 +401,8 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
 
   return (
     <div className="space-y-6">
+      <FocusTimer session={session} onSessionEnd={handleTimerSessionEnd} />
+
       {/* View Mode Tabs */}
       <Tabs value={viewMode} onValueChange={(value: any) => setViewMode(value)}>
         <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4 mb-4">
@@ -274,7 +434,7 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
             </TabsList>
           </div>
 
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <Dialog open={dialogOpen} onOpenChange={handleDialogChange}>
             <DialogTrigger asChild>
               <Button className="w-full sm:w-auto shrink-0">
                 <Plus className="w-4 h-4 mr-2" />
@@ -283,73 +443,96 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
             </DialogTrigger>
             <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Log Study Session</DialogTitle>
+                <DialogTitle>{reflectingOn ? 'How Did It Go?' : 'Log Study Session'}</DialogTitle>
                 <DialogDescription>
-                  Record what you studied today and track your focus
+                  {reflectingOn
+                    ? `Your ${formData.duration} minute session of ${formData.topic} is saved. Rate your focus and energy, and add any notes.`
+                    : 'Record what you studied today and track your focus'}
                 </DialogDescription>
               </DialogHeader>
               <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="subject">Subject</Label>
-                    <Select
-                      value={formData.subject}
-                      onValueChange={(value) => setFormData({ ...formData, subject: value })}
-                      required
-                    >
-                      <SelectTrigger id="subject">
-                        <SelectValue placeholder="Select subject" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {userSubjects.map((subject) => (
-                          <SelectItem key={subject} value={subject}>
-                            {subject}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                {!reflectingOn && (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="subject">Subject</Label>
+                        <Select
+                          value={formData.subject}
+                          onValueChange={(value) => setFormData({ ...formData, subject: value })}
+                          required
+                        >
+                          <SelectTrigger id="subject">
+                            <SelectValue placeholder="Select subject" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {userSubjects.map((subject) => (
+                              <SelectItem key={subject} value={subject}>
+                                {subject}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FieldError message={fieldErrors.subject} />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="source">Source</Label>
+                        <Select
+                          value={formData.source}
+                          onValueChange={(value: any) => setFormData({ ...formData, source: value })}
+                        >
+                          <SelectTrigger id="source">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="school">School</SelectItem>
+                            <SelectItem value="tuition">Tuition</SelectItem>
+                            <SelectItem value="self-study">Self Study</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="topic">Topic Studied</Label>
+                      <Input
+                        id="topic"
+                        value={formData.topic}
+                        onChange={(e) => setFormData({ ...formData, topic: e.target.value })}
+                        placeholder="e.g., Quadratic Equations, Newton's Laws"
+                        required
+                      />
+                      <FieldError message={fieldErrors.topic} />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="duration">Duration (minutes)</Label>
+                      <Input
+                        id="duration"
+                        type="number"
+                        min="1"
+                        max={MAX_SESSION_MINUTES}
+                        value={formData.duration}
+                        onChange={(e) => setFormData({ ...formData, duration: parseInt(e.target.value) || 0 })}
+                        required
+                      />
+                      <FieldError message={fieldErrors.duration} />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="studied-on">Date</Label>
+                      <Input
+                        id="studied-on"
+                        type="date"
+                        min={addDays(today, -MAX_BACKDATE_DAYS)}
+                        max={today}
+                        value={studiedOn || today}
+                        onChange={(e) => setStudiedOn(e.target.value)}
+                      />
+                      <FieldError message={fieldErrors.studiedAt} />
+                    </div>
                   </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="source">Source</Label>
-                    <Select
-                      value={formData.source}
-                      onValueChange={(value: any) => setFormData({ ...formData, source: value })}
-                    >
-                      <SelectTrigger id="source">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="school">School</SelectItem>
-                        <SelectItem value="tuition">Tuition</SelectItem>
-                        <SelectItem value="self-study">Self Study</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="topic">Topic Studied</Label>
-                  <Input
-                    id="topic"
-                    value={formData.topic}
-                    onChange={(e) => setFormData({ ...formData, topic: e.target.value })}
-                    placeholder="e.g., Quadratic Equations, Newton's Laws"
-                    required
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="duration">Duration (minutes)</Label>
-                  <Input
-                    id="duration"
-                    type="number"
-                    min="1"
-                    value={formData.duration}
-                    onChange={(e) => setFormData({ ...formData, duration: parseInt(e.target.value) || 0 })}
-                    required
-                  />
-                </div>
+                )}
 
                 <div className="space-y-2">
                   <Label htmlFor="focus">Focus Level (1-5)</Label>
@@ -389,16 +572,19 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
                   <p className="text-xs text-gray-500">1 = Very tired, 5 = Fully energized</p>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="distractions">Number of Distractions</Label>
-                  <Input
-                    id="distractions"
-                    type="number"
-                    min="0"
-                    value={formData.distractions}
-                    onChange={(e) => setFormData({ ...formData, distractions: parseInt(e.target.value) || 0 })}
-                  />
-                </div>
+                {!reflectingOn && (
+                  <div className="space-y-2">
+                    <Label htmlFor="distractions">Number of Distractions</Label>
+                    <Input
+                      id="distractions"
+                      type="number"
+                      min="0"
+                      value={formData.distractions}
+                      onChange={(e) => setFormData({ ...formData, distractions: parseInt(e.target.value) || 0 })}
+                    />
+                    <FieldError message={fieldErrors.distractions} />
+                  </div>
+                )}
 
                 <div className="space-y-2">
                   <Label htmlFor="notes">Notes (optional)</Label>
@@ -409,14 +595,15 @@ export function StudyRecordsImproved({ session, onProfileUpdate }: StudyRecordsP
                     placeholder="Any additional notes about this study session..."
                     rows={3}
                   />
+                  <FieldError message={fieldErrors.notes} />
                 </div>
 
                 <div className="flex justify-end gap-2">
-                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                    Cancel
+                  <Button type="button" variant="outline" onClick={() => handleDialogChange(false)}>
+                    {reflectingOn ? 'Skip' : 'Cancel'}
                   </Button>
                   <Button type="submit" disabled={isLoading}>
-                    {isLoading ? 'Saving...' : 'Save Record'}
+                    {isLoading ? 'Saving...' : reflectingOn ? 'Save' : 'Save Record'}
                   </Button>
                 </div>
               </form>
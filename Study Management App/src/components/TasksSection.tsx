@@ -9,9 +9,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Checkbox } from './ui/checkbox'
 import { Badge } from './ui/badge'
 import { toast } from 'sonner@2.0.3'
-import { Plus, CheckSquare, Trash2, Clock } from 'lucide-react'
+import { Plus, CheckSquare, Trash2, Clock, Repeat } from 'lucide-react'
 import { projectId } from '../utils/supabase/info'
 import { useSubjects } from './SubjectManagement'
+import { AttachedMaterials, useDocuments } from './AttachedMaterials'
+import { QuickAdd } from './QuickAdd'
+import { RecurrenceFields } from './RecurrenceFields'
+import type { Attachment } from '../utils/attachments'
+import { registerCommands, useCommandHandler } from '../utils/commands'
+import { describeRecurrence, readRecurrence, type Recurrence } from '../utils/recurrence'
+import { hasFieldErrors, MAX_TITLE_LENGTH, readPayload, taskSchema, type FieldErrors } from '../utils/schemas'
+import { FieldError } from './FieldError'
+
+registerCommands([
+  { id: 'tasks.add', title: 'Add task', group: 'Tasks', keywords: ['homework', 'todo', 'new'], tab: 'tasks' }
+])
 
 interface TasksSectionProps {
   session: any
@@ -28,6 +40,13 @@ interface Task {
   completed: boolean
   createdAt: string
   userId?: string
+  attachments?: Attachment[]
+  recurrence?: Recurrence | null
+  // Set by the server on repeating tasks: every occurrence is its own task
+  // sharing the first one's id, numbered from 1
+  seriesId?: string
+  occurrence?: number
+  completedAt?: string | null
 }
 
 export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
@@ -41,16 +60,16 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
     dueDate: '',
     priority: 'medium',
     completed: false,
-    createdAt: new Date().toISOString()
+    createdAt: new Date().toISOString(),
+    recurrence: null
   })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
 
   // Get user's custom subjects
   const userSubjects = useSubjects(session.user.id)
+  const documents = useDocuments(session)
 
-  // Generate unique ID for tasks (client-side only)
-  const generateTaskId = (task: Task) => {
-    return `${task.title}-${task.dueDate}-${task.subject}`.toLowerCase().replace(/\s+/g, '-')
-  }
+  useCommandHandler('tasks.add', () => setDialogOpen(true))
 
   useEffect(() => {
     fetchTasks()
@@ -73,17 +92,7 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
       
       if (response.ok) {
         const data = await response.json()
-        console.log('=== FETCHED TASKS ===')
-        console.log('Tasks:', data.tasks)
-        
-        // Add client-side IDs to tasks
-        const tasksWithIds = (data.tasks || []).map((task: Task) => ({
-          ...task,
-          id: generateTaskId(task)
-        }))
-        
-        console.log('Tasks with IDs:', tasksWithIds)
-        setTasks(tasksWithIds)
+        setTasks(data.tasks || [])
       }
     } catch (error) {
       console.error('Error fetching tasks:', error)
@@ -92,6 +101,11 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    const { fieldErrors: errors } = readPayload(taskSchema, formData)
+    const { error: recurrenceError } = readRecurrence(formData.recurrence, formData.dueDate)
+    if (recurrenceError) errors.recurrence = recurrenceError
+    setFieldErrors(errors)
+    if (hasFieldErrors(errors)) return
     setIsLoading(true)
 
     try {
@@ -120,10 +134,12 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
           dueDate: '',
           priority: 'medium',
           completed: false,
-          createdAt: new Date().toISOString()
+          createdAt: new Date().toISOString(),
+          recurrence: null
         })
       } else {
         const data = await response.json()
+        setFieldErrors(data.fieldErrors || {})
         toast.error('Failed to create task: ' + data.error)
       }
     } catch (error) {
@@ -135,46 +151,107 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
   }
 
   const toggleTaskComplete = async (task: Task) => {
-    console.log('Toggling task:', task)
-    
-    // Update locally first for immediate feedback
-    const updatedTasks = tasks.map(t => 
-      t.id === task.id ? { ...t, completed: !t.completed } : t
-    )
-    setTasks(updatedTasks)
-    
-    // Show success message
-    if (!task.completed) {
-      toast.success('✅ Task completed! +20 XP')
-      onProfileUpdate()
-    } else {
-      toast.success('Task marked as incomplete')
+    const completed = !task.completed
+
+    // Update locally first for immediate feedback, rolled back if the server rejects it
+    setTasks(prev => prev.map(t => t.id === task.id ? { ...t, completed } : t))
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/task/${task.id}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          // Lets the server start a repeating task's next occurrence from today
+          body: JSON.stringify({ completed }),
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`)
+      }
+
+      const data = await response.json()
+      setTasks(prev => [
+        ...prev.map(t => t.id === task.id ? data.task : t),
+        ...(data.nextTask ? [data.nextTask] : [])
+      ])
+
+      if (data.nextTask) {
+        toast.success(`✅ Task completed! +${data.xpGained} XP. Next one due ${formatDate(data.nextTask.dueDate)}`)
+        onProfileUpdate()
+      } else if (data.xpGained > 0) {
+        toast.success(`✅ Task completed! +${data.xpGained} XP`)
+        onProfileUpdate()
+      } else if (completed) {
+        toast.success('✅ Task completed!')
+      } else if (data.xpGained < 0) {
+        toast.success(`Task marked as incomplete, ${data.xpGained} XP`)
+        onProfileUpdate()
+      } else {
+        toast.success('Task marked as incomplete')
+      }
+    } catch (error) {
+      console.error('Error updating task:', error)
+      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, completed: task.completed } : t))
+      toast.error('Failed to update task')
     }
-    
-    // Store in localStorage
+  }
+
+  const stopRepeating = async (task: Task) => {
     try {
-      const taskKey = `task-${task.id}`
-      localStorage.setItem(taskKey, JSON.stringify({ ...task, completed: !task.completed }))
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/task/${task.id}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ recurrence: null }),
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`)
+      }
+
+      const data = await response.json()
+      setTasks(prev => prev.map(t => t.id === task.id ? data.task : t))
+      toast.success('Task will not repeat')
     } catch (error) {
-      console.error('Error saving task state:', error)
+      console.error('Error updating task:', error)
+      toast.error('Failed to update task')
     }
   }
 
   const deleteTask = async (task: Task) => {
-    console.log('Deleting task:', task)
-    
-    // Remove from local state immediately
-    const updatedTasks = tasks.filter(t => t.id !== task.id)
-    setTasks(updatedTasks)
-    
-    toast.success('✅ Task deleted')
-    
-    // Remove from localStorage
+    // Remove from local state immediately, restored if the server rejects it
+    setTasks(prev => prev.filter(t => t.id !== task.id))
+
     try {
-      const taskKey = `task-${task.id}`
-      localStorage.removeItem(taskKey)
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/task/${task.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`)
+      }
+
+      toast.success('✅ Task deleted')
     } catch (error) {
-      console.error('Error removing task from storage:', error)
+      console.error('Error deleting task:', error)
+      setTasks(prev => prev.some(t => t.id === task.id) ? prev : [...prev, task])
+      toast.error('Failed to delete task')
     }
   }
 
@@ -203,28 +280,11 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
     }
   }
 
-  // Apply localStorage state to tasks
-  const getTasksWithLocalState = () => {
-    return tasks.map(task => {
-      try {
-        const taskKey = `task-${task.id}`
-        const stored = localStorage.getItem(taskKey)
-        if (stored) {
-          const storedTask = JSON.parse(stored)
-          return { ...task, completed: storedTask.completed }
-        }
-      } catch (error) {
-        // Ignore localStorage errors
-      }
-      return task
-    })
-  }
-
-  const tasksWithState = getTasksWithLocalState()
-  const pendingTasks = tasksWithState.filter(t => !t.completed).sort((a, b) => {
+  const pendingTasks = tasks.filter(t => !t.completed).sort((a, b) => {
     return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
   })
-  const completedTasks = tasksWithState.filter(t => t.completed)
+  const completedTasks = tasks.filter(t => t.completed)
+  const completedInSeries = (seriesId: string) => completedTasks.filter(t => t.seriesId === seriesId).length
 
   return (
     <div className="space-y-6">
@@ -269,6 +329,15 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
         </Card>
       </div>
 
+      <QuickAdd
+        session={session}
+        subjects={userSubjects}
+        onTaskCreated={() => {
+          fetchTasks()
+          onProfileUpdate()
+        }}
+      />
+
       {/* Add Task Button */}
       <div className="flex justify-between items-center">
         <h2 className="text-2xl">Tasks & Homework</h2>
@@ -294,8 +363,10 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
                   value={formData.title}
                   onChange={(e) => setFormData({ ...formData, title: e.target.value })}
                   placeholder="e.g., Complete Math Homework Chapter 5"
+                  maxLength={MAX_TITLE_LENGTH}
                   required
                 />
+                <FieldError message={fieldErrors.title} />
               </div>
 
               <div className="space-y-2">
@@ -307,6 +378,7 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
                   placeholder="Additional details..."
                   rows={3}
                 />
+                <FieldError message={fieldErrors.description} />
               </div>
 
               <div className="grid grid-cols-2 gap-4">
@@ -328,6 +400,7 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
                       ))}
                     </SelectContent>
                   </Select>
+                  <FieldError message={fieldErrors.subject} />
                 </div>
 
                 <div className="space-y-2">
@@ -357,8 +430,17 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
                   onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
                   required
                 />
+                <FieldError message={fieldErrors.dueDate} />
               </div>
 
+              <RecurrenceFields
+                id="task-recurrence"
+                value={formData.recurrence ?? null}
+                onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+                startDate={formData.dueDate}
+              />
+              <FieldError message={fieldErrors.recurrence} />
+
               <div className="flex justify-end gap-2">
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancel
@@ -433,7 +515,31 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
                         <Badge variant={daysUntil <= 1 ? 'destructive' : 'outline'}>
                           {daysUntil === 0 ? 'Due today' : daysUntil < 0 ? 'Overdue' : `Due in ${daysUntil} days`}
                         </Badge>
+                        {task.recurrence && (
+                          <Badge variant="outline">
+                            <Repeat className="w-3 h-3" />
+                            {describeRecurrence(task.recurrence)}
+                            {task.seriesId && completedInSeries(task.seriesId) > 0 && ` · done ${completedInSeries(task.seriesId)}×`}
+                            <button
+                              type="button"
+                              onClick={() => stopRepeating(task)}
+                              className="text-gray-500 hover:text-red-700"
+                              style={{ marginLeft: 4 }}
+                              title="Stop repeating"
+                            >
+                              ×
+                            </button>
+                          </Badge>
+                        )}
                       </div>
+                      <AttachedMaterials
+                        session={session}
+                        documents={documents}
+                        attachments={task.attachments}
+                        recordRoute="task"
+                        recordId={task.id!}
+                        onChange={(attachments) => setTasks(prev => prev.map(t => t.id === task.id ? { ...t, attachments } : t))}
+                      />
                     </div>
                   </div>
                 </CardContent>
@@ -458,7 +564,15 @@ export function TasksSection({ session, onProfileUpdate }: TasksSectionProps) {
                   />
                   <div className="flex-1">
                     <h4 className="text-lg line-through text-gray-600">{task.title}</h4>
-                    <Badge variant="secondary" className="mt-2">{task.subject}</Badge>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      <Badge variant="secondary">{task.subject}</Badge>
+                      {task.seriesId && (
+                        <Badge variant="outline">
+                          <Repeat className="w-3 h-3" />
+                          {formatDate(task.dueDate)}
+                        </Badge>
+                      )}
+                    </div>
                   </div>
                   <Button
                     variant="ghost"
@@ -0,0 +1,283 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Badge } from './ui/badge'
+import { toast } from 'sonner@2.0.3'
+import { Plus, Trash2, Copy, CalendarClock, RotateCcw } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+import {
+  BLOCK_TYPE_LABELS,
+  TIMETABLE_BLOCK_TYPES,
+  availableStudyMinutes,
+  blocksForDay,
+  committedMinutes,
+  minutesToTime,
+  timeToMinutes,
+  timetableFromRoutine,
+  type TimetableBlock,
+  type TimetableBlockType
+} from '../utils/timetable'
+
+interface TimetableEditorProps {
+  session: any
+  routine: any
+  onRoutineUpdate: (routine: any) => void
+}
+
+const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+const BLOCK_TYPE_COLORS: { [type in TimetableBlockType]: string } = {
+  school: 'bg-indigo-50 border-indigo-200',
+  tuition: 'bg-purple-50 border-purple-200',
+  travel: 'bg-yellow-50 border-yellow-200',
+  custom: 'bg-gray-50 border-gray-200'
+}
+
+const formatHours = (minutes: number) => `${Math.round((minutes / 60) * 10) / 10}h`
+
+export function TimetableEditor({ session, routine, onRoutineUpdate }: TimetableEditorProps) {
+  const [blocks, setBlocks] = useState<TimetableBlock[]>([])
+  const [selectedDay, setSelectedDay] = useState(0)
+  const [isDirty, setIsDirty] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setBlocks(routine?.timetable || [])
+    setIsDirty(false)
+  }, [routine])
+
+  const editBlocks = (updater: (prev: TimetableBlock[]) => TimetableBlock[]) => {
+    setBlocks(updater)
+    setIsDirty(true)
+  }
+
+  const updateBlock = (id: string, changes: Partial<TimetableBlock>) => {
+    editBlocks(prev => prev.map(block => block.id === id ? { ...block, ...changes } : block))
+  }
+
+  const addBlock = () => {
+    const dayBlocks = blocksForDay(blocks, selectedDay)
+    const lastEnd = dayBlocks.length > 0 ? dayBlocks[dayBlocks.length - 1].end : '16:00'
+    const startMinutes = Math.min(timeToMinutes(lastEnd), 22 * 60)
+    editBlocks(prev => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        day: selectedDay,
+        type: 'custom',
+        title: '',
+        start: minutesToTime(startMinutes),
+        end: minutesToTime(startMinutes + 60)
+      }
+    ])
+  }
+
+  const deleteBlock = (id: string) => {
+    editBlocks(prev => prev.filter(block => block.id !== id))
+  }
+
+  // Copies the selected day onto every other weekday (Monday to Friday)
+  const copyToWeekdays = () => {
+    const source = blocksForDay(blocks, selectedDay)
+    editBlocks(prev => [
+      ...prev.filter(block => block.day > 4 || block.day === selectedDay),
+      ...[0, 1, 2, 3, 4]
+        .filter(day => day !== selectedDay)
+        .flatMap(day => source.map(block => ({ ...block, id: crypto.randomUUID(), day })))
+    ])
+    toast.success(`Copied ${DAYS[selectedDay]} to the other weekdays`)
+  }
+
+  const startFromOnboarding = () => {
+    editBlocks(() => timetableFromRoutine(routine))
+  }
+
+  const resetChanges = () => {
+    setBlocks(routine?.timetable || [])
+    setIsDirty(false)
+  }
+
+  const saveTimetable = async () => {
+    const invalid = blocks.find(block => !block.start || !block.end || timeToMinutes(block.end) <= timeToMinutes(block.start))
+    if (invalid) {
+      setSelectedDay(invalid.day)
+      toast.error(`A block on ${DAYS[invalid.day]} ends before it starts`)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/routine`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ timetable: blocks }),
+        }
+      )
+
+      const data = await response.json()
+      if (response.ok) {
+        toast.success('📅 Timetable saved')
+        onRoutineUpdate(data.routine)
+      } else {
+        toast.error('Failed to save timetable: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error saving timetable:', error)
+      toast.error('Failed to save timetable')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const dayBlocks = blocksForDay(blocks, selectedDay)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="w-5 h-5 text-indigo-600" />
+              Weekly Timetable
+            </CardTitle>
+            <CardDescription>
+              Set when school, tuition and your other commitments actually happen
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {isDirty && (
+              <Button variant="outline" onClick={resetChanges}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Discard
+              </Button>
+            )}
+            <Button onClick={saveTimetable} disabled={!isDirty || isSaving}>
+              {isSaving ? 'Saving...' : 'Save Timetable'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Day picker */}
+        <div className="grid grid-cols-4 lg:grid-cols-7 gap-2">
+          {DAYS.map((day, index) => {
+            const count = blocksForDay(blocks, index).length
+            return (
+              <Button
+                key={day}
+                variant={selectedDay === index ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setSelectedDay(index)}
+              >
+                {day.slice(0, 3)}
+                {count > 0 && <span className="ml-2 opacity-75">{count}</span>}
+              </Button>
+            )
+          })}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-gray-600">
+            {DAYS[selectedDay]}: {formatHours(committedMinutes(dayBlocks))} committed,{' '}
+            <strong>{formatHours(availableStudyMinutes(blocks, selectedDay))}</strong> left for self-study
+          </p>
+          {selectedDay < 5 && dayBlocks.length > 0 && (
+            <Button variant="outline" size="sm" onClick={copyToWeekdays}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy to Mon–Fri
+            </Button>
+          )}
+        </div>
+
+        {/* Blocks for the selected day */}
+        <div className="space-y-2">
+          {dayBlocks.map((block) => (
+            <div key={block.id} className={`p-3 border rounded-lg space-y-2 ${BLOCK_TYPE_COLORS[block.type]}`}>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                <Select
+                  value={block.type}
+                  onValueChange={(value) => updateBlock(block.id, { type: value as TimetableBlockType })}
+                >
+                  <SelectTrigger className="bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIMETABLE_BLOCK_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {BLOCK_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="bg-white"
+                  value={block.title}
+                  onChange={(e) => updateBlock(block.id, { title: e.target.value })}
+                  placeholder={block.type === 'custom' ? 'e.g., Football practice' : BLOCK_TYPE_LABELS[block.type]}
+                />
+                <Input
+                  className="bg-white"
+                  type="time"
+                  value={block.start}
+                  onChange={(e) => updateBlock(block.id, { start: e.target.value })}
+                  aria-label="Start time"
+                />
+                <Input
+                  className="bg-white"
+                  type="time"
+                  value={block.end}
+                  onChange={(e) => updateBlock(block.id, { end: e.target.value })}
+                  aria-label="End time"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                {block.type === 'tuition' && (
+                  <Input
+                    className="bg-white flex-1"
+                    value={block.subject || ''}
+                    onChange={(e) => updateBlock(block.id, { subject: e.target.value })}
+                    placeholder="Subject, e.g., Mathematics"
+                  />
+                )}
+                {block.start && block.end && timeToMinutes(block.end) <= timeToMinutes(block.start) && (
+                  <Badge variant="destructive">Ends before it starts</Badge>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteBlock(block.id)}
+                  className="ml-auto text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {dayBlocks.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">Nothing planned on {DAYS[selectedDay]}</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={addBlock}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Block
+          </Button>
+          {blocks.length === 0 && (
+            <Button variant="outline" onClick={startFromOnboarding}>
+              Start from my setup answers
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
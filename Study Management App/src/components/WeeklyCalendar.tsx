@@ -1,196 +1,281 @@
 import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
-import { Calendar, Clock, Book, Home, GraduationCap } from 'lucide-react'
+import { Calendar, Clock, ChevronLeft, ChevronRight, CheckCircle, Brain } from 'lucide-react'
 import { projectId } from '../utils/supabase/info'
+import { BLOCK_TYPE_LABELS, blocksForDay, timeToMinutes, type TimetableBlock, type TimetableBlockType } from '../utils/timetable'
 
 interface WeeklyCalendarProps {
   session: any
 }
 
+interface StudyBlock {
+  title: string
+  subtitle: string
+  // Minutes since midnight
+  start: number
+  duration: number
+  color: string
+}
+
+interface DayItem {
+  title: string
+  kind: 'task' | 'review'
+  done: boolean
+}
+
 const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
-const HOURS = Array.from({ length: 24 }, (_, i) => i)
+const HOUR_HEIGHT = 60
+const DEFAULT_FIRST_HOUR = 6
+const DEFAULT_LAST_HOUR = 23
+
+const SOURCE_COLORS: { [source: string]: string } = {
+  school: 'bg-indigo-200 text-indigo-900 border-indigo-300',
+  tuition: 'bg-purple-200 text-purple-900 border-purple-300',
+  'self-study': 'bg-green-200 text-green-900 border-green-300'
+}
+
+// Timetable commitments are drawn lighter, behind the logged sessions
+const TIMETABLE_COLORS: { [type in TimetableBlockType]: string } = {
+  school: 'bg-indigo-50 text-indigo-800 border-indigo-200',
+  tuition: 'bg-purple-50 text-purple-800 border-purple-200',
+  travel: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+  custom: 'bg-gray-100 text-gray-700 border-gray-200'
+}
+
+// Local calendar date as YYYY-MM-DD, the same shape tasks store as dueDate
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+const getWeekStart = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  return start
+}
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+
+const formatDuration = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`
 
 export function WeeklyCalendar({ session }: WeeklyCalendarProps) {
-  const [routine, setRoutine] = useState<any>(null)
+  const [records, setRecords] = useState<any[]>([])
+  const [tasks, setTasks] = useState<any[]>([])
+  const [schedules, setSchedules] = useState<any[]>([])
+  const [timetable, setTimetable] = useState<TimetableBlock[]>([])
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()))
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    fetchRoutine()
+    fetchCalendarData()
   }, [])
 
-  const fetchRoutine = async () => {
+  const fetchFromServer = async (path: string, field: string) => {
     try {
       const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/routine`,
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/${path}`,
         {
           headers: {
             Authorization: `Bearer ${session.access_token}`,
           },
         }
       )
-      
+
       if (response.ok) {
         const data = await response.json()
-        setRoutine(data.routine)
+        return data[field] || []
       }
     } catch (error) {
-      console.error('Error fetching routine:', error)
-    } finally {
-      setLoading(false)
+      console.error(`Error fetching ${path}:`, error)
     }
+    return []
+  }
+
+  const fetchCalendarData = async () => {
+    const [recordsData, tasksData, schedulesData, routineData] = await Promise.all([
+      fetchFromServer('study-records', 'records'),
+      fetchFromServer('tasks', 'tasks'),
+      fetchFromServer('review-schedules', 'schedules'),
+      fetchFromServer('routine', 'routine')
+    ])
+    setRecords(recordsData)
+    setTasks(tasksData)
+    setSchedules(schedulesData)
+    setTimetable(routineData?.timetable || [])
+    setLoading(false)
   }
 
   if (loading) {
     return <div className="flex justify-center py-12">Loading calendar...</div>
   }
 
-  if (!routine) {
-    return (
-      <Card>
-        <CardContent className="py-12 text-center">
-          <p className="text-gray-600">No routine data found</p>
-        </CardContent>
-      </Card>
-    )
-  }
+  const weekDates = DAYS.map((_, index) => addDays(weekStart, index))
+  const weekKeys = weekDates.map(toDateKey)
+  const todayKey = toDateKey(new Date())
+  const isCurrentWeek = weekKeys.includes(todayKey)
 
-  const getBlocksForDay = (dayIndex: number) => {
-    const blocks: any[] = []
-    const isSchoolDay = dayIndex < routine.schoolDaysPerWeek
-    const isTuitionDay = routine.tuitionDays?.includes(dayIndex)
-
-    // Morning routine (7-8 AM)
-    blocks.push({
-      title: 'Morning Routine',
-      start: 7,
-      duration: 1,
-      type: 'personal',
-      color: 'bg-gray-200 text-gray-800'
+  // Study records are placed where they happened: sessions logged for an
+  // earlier day sit at midday on it, timed sessions know when they started,
+  // and others are assumed to have ended when they were logged
+  const blocksByDay: { [dateKey: string]: StudyBlock[] } = {}
+  records.forEach((record) => {
+    const duration = Math.max(1, record.duration || 0)
+    const start = record.studiedAt || record.startedAt
+      ? new Date(record.studiedAt || record.startedAt)
+      : new Date(new Date(record.createdAt).getTime() - duration * 60000)
+    const dateKey = toDateKey(start)
+    if (!weekKeys.includes(dateKey)) return
+
+    const startMinutes = start.getHours() * 60 + start.getMinutes()
+    ;(blocksByDay[dateKey] ||= []).push({
+      title: record.subject || 'Study',
+      subtitle: record.topic || '',
+      start: startMinutes,
+      // Sessions running past midnight are cut off at the end of the day
+      duration: Math.min(duration, 24 * 60 - startMinutes),
+      color: SOURCE_COLORS[record.source] || SOURCE_COLORS['self-study']
     })
+  })
 
-    // School/College (9 AM - based on hours)
-    if (isSchoolDay) {
-      const schoolStart = 9
-      blocks.push({
-        title: routine.studentType === 'school' ? 'School' : 'College',
-        start: schoolStart,
-        duration: routine.schoolHoursPerDay || 6,
-        type: 'school',
-        color: 'bg-indigo-200 text-indigo-900 border-indigo-300'
-      })
-
-      // Travel time after school
-      if (routine.travelTimeSchool > 0) {
-        blocks.push({
-          title: 'Travel',
-          start: schoolStart + (routine.schoolHoursPerDay || 6),
-          duration: Math.ceil(routine.travelTimeSchool / 60),
-          type: 'travel',
-          color: 'bg-yellow-200 text-yellow-900 border-yellow-300'
-        })
-      }
+  const itemsByDay: { [dateKey: string]: DayItem[] } = {}
+  tasks.forEach((task) => {
+    if (task.dueDate && weekKeys.includes(task.dueDate)) {
+      (itemsByDay[task.dueDate] ||= []).push({ title: task.title, kind: 'task', done: !!task.completed })
     }
-
-    // Tuition
-    if (isTuitionDay && routine.numberOfTuitions > 0) {
-      const tuitionStart = isSchoolDay 
-        ? 9 + (routine.schoolHoursPerDay || 6) + Math.ceil(routine.travelTimeSchool / 60) + 1
-        : 10
-      
-      blocks.push({
-        title: 'Tuition',
-        start: tuitionStart,
-        duration: routine.tuitionHoursPerDay || 2,
-        type: 'tuition',
-        color: 'bg-purple-200 text-purple-900 border-purple-300',
-        subjects: routine.tuitionSubjects?.[dayIndex] || []
-      })
-
-      // Travel time after tuition
-      if (routine.travelTimeTuition > 0) {
-        blocks.push({
-          title: 'Travel',
-          start: tuitionStart + (routine.tuitionHoursPerDay || 2),
-          duration: Math.ceil(routine.travelTimeTuition / 60),
-          type: 'travel',
-          color: 'bg-yellow-200 text-yellow-900 border-yellow-300'
-        })
+  })
+  schedules.forEach((schedule) => {
+    // Past reviews from the history, plus the next one the scheduler set
+    (schedule.history || []).forEach((entry: any) => {
+      const dateKey = toDateKey(new Date(entry.reviewedAt))
+      if (weekKeys.includes(dateKey)) {
+        (itemsByDay[dateKey] ||= []).push({ title: schedule.topic, kind: 'review', done: true })
+      }
+    })
+    if (schedule.srs?.dueAt) {
+      const dateKey = toDateKey(new Date(schedule.srs.dueAt))
+      if (weekKeys.includes(dateKey)) {
+        (itemsByDay[dateKey] ||= []).push({ title: schedule.topic, kind: 'review', done: false })
       }
     }
+  })
 
-    // Self-study blocks (evening)
-    const lastActivityEnd = blocks.length > 0 
-      ? Math.max(...blocks.map(b => b.start + b.duration))
-      : 16
-    
-    if (lastActivityEnd < 20) {
-      blocks.push({
-        title: 'Self Study',
-        start: Math.max(lastActivityEnd + 1, 17),
-        duration: Math.min(3, 20 - lastActivityEnd),
-        type: 'self-study',
-        color: 'bg-green-200 text-green-900 border-green-300'
-      })
-    }
+  // The timetable repeats every week
+  const timetableByDay: { [dateKey: string]: StudyBlock[] } = {}
+  weekKeys.forEach((dateKey, dayIndex) => {
+    timetableByDay[dateKey] = blocksForDay(timetable, dayIndex).map((block) => ({
+      title: block.title || BLOCK_TYPE_LABELS[block.type],
+      subtitle: block.subject || '',
+      start: timeToMinutes(block.start),
+      duration: timeToMinutes(block.end) - timeToMinutes(block.start),
+      color: TIMETABLE_COLORS[block.type]
+    }))
+  })
 
-    // Dinner & Personal Time (8-9 PM)
-    blocks.push({
-      title: 'Dinner & Personal',
-      start: 20,
-      duration: 1,
-      type: 'personal',
-      color: 'bg-gray-200 text-gray-800'
-    })
+  // Widen the visible hours when something happened outside the usual day
+  const allBlocks = Object.values(blocksByDay).flat()
+  const shownBlocks = [...allBlocks, ...Object.values(timetableByDay).flat()]
+  const firstHour = Math.min(DEFAULT_FIRST_HOUR, ...shownBlocks.map(b => Math.floor(b.start / 60)))
+  const lastHour = Math.max(DEFAULT_LAST_HOUR, ...shownBlocks.map(b => Math.ceil((b.start + b.duration) / 60) - 1))
+  const visibleHours = Array.from({ length: lastHour - firstHour + 1 }, (_, i) => firstHour + i)
 
-    // Optional evening study (9-10 PM)
-    blocks.push({
-      title: 'Review/Light Study',
-      start: 21,
-      duration: 1,
-      type: 'self-study',
-      color: 'bg-green-100 text-green-800 border-green-200'
-    })
+  const weekMinutes = allBlocks.reduce((sum, b) => sum + b.duration, 0)
+  const weekLabel = `${weekDates[0].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${weekDates[6].toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
 
-    return blocks
-  }
+  // Logged sessions sit on top of the timetable, indented so the commitment
+  // underneath stays visible
+  const renderTimeBlock = (block: StudyBlock, key: string, indent: boolean) => (
+    <div
+      key={key}
+      className={`absolute rounded border p-1 text-xs overflow-hidden ${block.color}`}
+      style={{
+        top: `${((block.start - firstHour * 60) / 60) * HOUR_HEIGHT}px`,
+        height: `${Math.max(20, (block.duration / 60) * HOUR_HEIGHT - 2)}px`,
+        left: indent ? '16px' : '4px',
+        right: '4px',
+        zIndex: indent ? 2 : 1
+      }}
+      title={`${block.title}${block.subtitle ? ` · ${block.subtitle}` : ''} (${formatMinutes(block.start)}, ${formatDuration(block.duration)})`}
+    >
+      <p className="truncate">{block.title}</p>
+      {block.subtitle && <p className="text-xs opacity-75 truncate">{block.subtitle}</p>}
+    </div>
+  )
 
-  const getVisibleHours = () => {
-    // Show only 6 AM to 11 PM for better visibility
-    return HOURS.filter(h => h >= 6 && h <= 23)
-  }
+  const renderDayItem = (item: DayItem, index: number) => (
+    <div
+      key={index}
+      className={`flex items-center gap-1 rounded px-2 py-0.5 text-xs truncate ${
+        item.kind === 'task' ? 'bg-yellow-100 text-yellow-900' : 'bg-orange-50 text-orange-900'
+      } ${item.done ? 'line-through opacity-75' : ''}`}
+      title={item.title}
+    >
+      {item.kind === 'task' ? <CheckCircle className="w-3 h-3 shrink-0" /> : <Brain className="w-3 h-3 shrink-0" />}
+      <span className="truncate">{item.title}</span>
+    </div>
+  )
 
   return (
     <div className="space-y-6">
-      {/* Legend */}
+      {/* Week navigation and legend */}
       <Card>
         <CardHeader>
-          <CardTitle>Weekly Time Block Calendar</CardTitle>
-          <CardDescription>
-            Visual overview of your weekly routine with color-coded activities
-          </CardDescription>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <CardTitle>Weekly Calendar</CardTitle>
+              <CardDescription>
+                {weekLabel} · {formatDuration(weekMinutes)} studied
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, -7))} title="Previous week">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setWeekStart(getWeekStart(new Date()))}
+                disabled={isCurrentWeek}
+              >
+                This Week
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, 7))} title="Next week">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="flex flex-wrap gap-4">
             <div className="flex items-center gap-2">
               <div className="w-4 h-4 bg-indigo-200 border border-indigo-300 rounded"></div>
-              <span className="text-sm">School/College</span>
+              <span className="text-sm">School study</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-4 h-4 bg-purple-200 border border-purple-300 rounded"></div>
-              <span className="text-sm">Tuition</span>
+              <span className="text-sm">Tuition study</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-4 h-4 bg-green-200 border border-green-300 rounded"></div>
-              <span className="text-sm">Self Study</span>
+              <span className="text-sm">Self study</span>
             </div>
             <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-yellow-200 border border-yellow-300 rounded"></div>
-              <span className="text-sm">Travel</span>
+              <div className="w-4 h-4 bg-gray-100 border border-gray-200 rounded"></div>
+              <span className="text-sm">Timetable (lighter shades)</span>
             </div>
             <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-gray-200 rounded"></div>
-              <span className="text-sm">Personal Time</span>
+              <div className="w-4 h-4 bg-yellow-100 rounded"></div>
+              <span className="text-sm">Task due</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 bg-orange-50 border border-orange-200 rounded"></div>
+              <span className="text-sm">Revision</span>
             </div>
           </div>
         </CardContent>
@@ -206,46 +291,48 @@ export function WeeklyCalendar({ session }: WeeklyCalendarProps) {
                 <Clock className="w-5 h-5 text-gray-500" />
               </div>
               {DAYS.map((day, index) => (
-                <div key={index} className="p-3 text-center border-r">
+                <div
+                  key={day}
+                  className={`p-3 text-center border-r ${weekKeys[index] === todayKey ? 'bg-indigo-50' : ''}`}
+                >
                   <p className="text-sm">{day}</p>
+                  <p className="text-xs text-gray-500">
+                    {weekDates[index].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {/* Tasks and reviews for the whole day */}
+            <div className="grid grid-cols-8 border-b">
+              <div className="p-2 border-r text-xs text-gray-500">Due</div>
+              {weekKeys.map((dateKey) => (
+                <div key={dateKey} className="p-1 border-r space-y-1">
+                  {(itemsByDay[dateKey] || []).map(renderDayItem)}
                 </div>
               ))}
             </div>
 
-            {/* Time slots */}
-            <div className="relative">
-              {getVisibleHours().map((hour) => (
-                <div key={hour} className="grid grid-cols-8 border-b" style={{ height: '60px' }}>
-                  <div className="p-2 border-r text-xs text-gray-500 flex items-start">
+            {/* Time grid */}
+            <div className="grid grid-cols-8">
+              <div className="border-r">
+                {visibleHours.map((hour) => (
+                  <div key={hour} className="p-2 border-b text-xs text-gray-500" style={{ height: `${HOUR_HEIGHT}px` }}>
                     {hour.toString().padStart(2, '0')}:00
                   </div>
-                  {DAYS.map((day, dayIndex) => {
-                    const blocks = getBlocksForDay(dayIndex)
-                    const blockInThisSlot = blocks.find(
-                      b => b.start === hour
-                    )
-
-                    return (
-                      <div key={dayIndex} className="border-r relative">
-                        {blockInThisSlot && (
-                          <div
-                            className={`absolute inset-x-1 rounded border p-1 text-xs overflow-hidden ${blockInThisSlot.color}`}
-                            style={{
-                              height: `${blockInThisSlot.duration * 60 - 4}px`,
-                              zIndex: 1
-                            }}
-                          >
-                            <p className="truncate">{blockInThisSlot.title}</p>
-                            {blockInThisSlot.subjects && blockInThisSlot.subjects.length > 0 && (
-                              <p className="text-xs opacity-75 truncate">
-                                {blockInThisSlot.subjects.join(', ')}
-                              </p>
-                            )}
-                          </div>
-                        )}
-                      </div>
-                    )
-                  })}
+                ))}
+              </div>
+              {weekKeys.map((dateKey) => (
+                <div key={dateKey} className="border-r relative">
+                  {visibleHours.map((hour) => (
+                    <div key={hour} className="border-b" style={{ height: `${HOUR_HEIGHT}px` }} />
+                  ))}
+                  {(timetableByDay[dateKey] || []).map((block, blockIndex) =>
+                    renderTimeBlock(block, `timetable-${blockIndex}`, false)
+                  )}
+                  {(blocksByDay[dateKey] || []).map((block, blockIndex) =>
+                    renderTimeBlock(block, `record-${blockIndex}`, (timetableByDay[dateKey] || []).length > 0)
+                  )}
                 </div>
               ))}
             </div>
@@ -256,15 +343,17 @@ export function WeeklyCalendar({ session }: WeeklyCalendarProps) {
       {/* Daily Breakdown */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {DAYS.map((day, index) => {
-          const blocks = getBlocksForDay(index)
-          const totalScheduled = blocks.reduce((sum, b) => sum + b.duration, 0)
-          
+          const dateKey = weekKeys[index]
+          const blocks = [...(blocksByDay[dateKey] || [])].sort((a, b) => a.start - b.start)
+          const items = itemsByDay[dateKey] || []
+          const totalStudied = blocks.reduce((sum, b) => sum + b.duration, 0)
+
           return (
-            <Card key={index}>
+            <Card key={day} className={dateKey === todayKey ? 'border-indigo-300' : ''}>
               <CardHeader className="pb-3">
                 <CardTitle className="text-base">{day}</CardTitle>
                 <CardDescription>
-                  {totalScheduled} hours scheduled
+                  {totalStudied > 0 ? `${formatDuration(totalStudied)} studied` : 'No study logged'}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -272,13 +361,17 @@ export function WeeklyCalendar({ session }: WeeklyCalendarProps) {
                   {blocks.map((block, blockIndex) => (
                     <div key={blockIndex} className="flex items-center justify-between text-sm">
                       <span className="text-gray-600">
-                        {block.start.toString().padStart(2, '0')}:00
+                        {formatMinutes(block.start)}
                       </span>
                       <Badge variant="secondary" className="text-xs">
-                        {block.title}
+                        {block.title} · {formatDuration(block.duration)}
                       </Badge>
                     </div>
                   ))}
+                  {items.map(renderDayItem)}
+                  {blocks.length === 0 && items.length === 0 && (
+                    <p className="text-sm text-gray-500">Nothing scheduled</p>
+                  )}
                 </div>
               </CardContent>
             </Card>
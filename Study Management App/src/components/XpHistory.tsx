@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Card, CardContent } from './ui/card'
+import { Zap } from 'lucide-react'
+import { projectId } from '../utils/supabase/info'
+
+interface XpHistoryProps {
+  session: any
+  isOpen: boolean
+  onClose: () => void
+}
+
+interface XpEvent {
+  id: string
+  amount: number
+  reason: string
+  source: { type: string; id: string } | null
+  createdAt: string
+}
+
+const REASON_LABELS: { [reason: string]: string } = {
+  opening_balance: 'Earned before XP history was kept',
+  onboarding: 'Set up your study routine',
+  study_session: 'Logged a study session',
+  study_session_deleted: 'Deleted a study session',
+  goal_completed: 'Completed a goal',
+  goal_reopened: 'Reopened a goal',
+  task_completed: 'Completed a task',
+  task_reopened: 'Reopened a task',
+  review_completed: 'Finished a revision session',
+  review_undone: 'Undid a revision session'
+}
+
+const reasonLabel = (reason: string) => REASON_LABELS[reason] || reason.replace(/_/g, ' ')
+
+const formatAmount = (amount: number) => `${amount > 0 ? '+' : ''}${amount} XP`
+
+// Every XP award and reversal, newest first, with a total per reason
+export function XpHistory({ session, isOpen, onClose }: XpHistoryProps) {
+  const [events, setEvents] = useState<XpEvent[]>([])
+  const [byReason, setByReason] = useState<{ [reason: string]: number }>({})
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) fetchHistory()
+  }, [isOpen])
+
+  const fetchHistory = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/xp/history`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setEvents(data.events || [])
+        setByReason(data.byReason || {})
+        setTotal(data.total || 0)
+      }
+    } catch (error) {
+      console.error('Error fetching XP history:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const reasons = Object.entries(byReason)
+    .filter(([, amount]) => amount !== 0)
+    .sort((a, b) => b[1] - a[1])
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="w-5 h-5 text-yellow-500" />
+            XP History
+          </DialogTitle>
+          <DialogDescription>
+            {total} XP in total. Reopening a completed task or goal takes its XP back.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 text-center py-8">Loading XP history...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">No XP earned yet</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {reasons.map(([reason, amount]) => (
+                <Card key={reason}>
+                  <CardContent className="p-4 flex items-center justify-between gap-2">
+                    <span className="text-sm text-gray-600">{reasonLabel(reason)}</span>
+                    <span className={`text-sm ${amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatAmount(amount)}
+                    </span>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {events.map((event) => (
+                <div key={event.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{reasonLabel(event.reason)}</p>
+                    <p className="text-xs text-gray-500">{new Date(event.createdAt).toLocaleString()}</p>
+                  </div>
+                  <span className={`text-sm shrink-0 ${event.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatAmount(event.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
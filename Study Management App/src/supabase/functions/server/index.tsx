@@ -1,8 +1,64 @@
-import { Hono } from 'npm:hono'
+import { Hono, type Context } from 'npm:hono'
 import { cors } from 'npm:hono/cors'
 import { logger } from 'npm:hono/logger'
 import { createClient } from 'npm:@supabase/supabase-js@2'
 import * as kv from './kv_store.tsx'
+import {
+  aggregateGrades,
+  cardMatchKey,
+  createReviewState,
+  isRecallGrade,
+  scheduleReview,
+  stateFromFixedSchedule,
+  topicMatchKey,
+} from '../../../utils/spacedRepetition.tsx'
+import { isValidTime } from '../../../utils/timetable.tsx'
+import { normalizeAttachments } from '../../../utils/attachments.tsx'
+import { MAX_QUERY_LENGTH, searchItems, type SearchableItem } from '../../../utils/search.tsx'
+import {
+  advanceRecurringNotes,
+  collectReminders,
+  createReminderState,
+  MAX_SNOOZE_MINUTES,
+  pendingReminders,
+  pruneReminderState,
+  type ReminderSource,
+} from '../../../utils/reminders.tsx'
+import { addDays, isValidTimeZone, zonedDateKey, zonedParts } from '../../../utils/timezone.tsx'
+import { nextOccurrence, readRecurrence } from '../../../utils/recurrence.tsx'
+import { computeStreak, defaultStreakSettings, planDaysOff, studyDayOf } from '../../../utils/streaks.tsx'
+import { achievementStats, evaluateAchievements, readUnlockedAchievements } from '../../../utils/achievements.tsx'
+import {
+  dayOffSchema,
+  documentSchema,
+  flashcardSchema,
+  goalProgressSchema,
+  goalSchema,
+  hasFieldErrors,
+  isPushEndpoint,
+  MAX_BACKDATE_DAYS,
+  MAX_STUDY_MINUTES_PER_DAY,
+  noteSchema,
+  profileUpdateSchema,
+  pushSubscriptionSchema,
+  readPayload,
+  reviewScheduleSchema,
+  routineSchema,
+  streakSettingsSchema,
+  studyRecordReflectionSchema,
+  studyRecordSchema,
+  taskSchema,
+  validationFailure,
+  type FieldErrors,
+} from '../../../utils/schemas.tsx'
+import {
+  createPushTransport,
+  getVapidPublicKey,
+  sendToSubscriptions,
+  type PushMessage,
+  type PushOptions,
+  type PushTransport,
+} from './push.tsx'
 
 const app = new Hono()
 
@@ -55,6 +111,105 @@ async function verifyAuth(request: Request) {
   return { error: null, userId: user.id }
 }
 
+// Payloads that fail their schema (see utils/schemas) all get the same 400 body
+const validationFailed = (c: Context, fieldErrors: FieldErrors) => c.json(validationFailure(fieldErrors), 400)
+
+// kv.getByPrefix only returns values, so list routes that need to hand record
+// ids back to the client read the keys straight from the kv table
+async function getEntriesByPrefix(prefix: string) {
+  const { data, error } = await supabase
+    .from('kv_store_21b13642')
+    .select('key, value')
+    .like('key', prefix + '%')
+  if (error) {
+    throw new Error(error.message)
+  }
+  return (data ?? []).map((d: any) => ({ key: d.key as string, value: d.value }))
+}
+
+// Lists a user's `${type}:${userId}:*` records with the id used by the
+// `/${type}/:id` routes attached
+async function listWithIds(type: string, userId: string) {
+  const entries = await getEntriesByPrefix(`${type}:${userId}:`)
+  return entries.map(({ key, value }) => ({ ...value, id: key.slice(type.length + 1) }))
+}
+
+// XP is kept as a ledger of `xp_event:${userId}:*` records rather than a
+// counter on the profile: every award is a new key, so concurrent requests
+// can't overwrite each other, and the user can see where their XP came from.
+// Reversals are the exception, with one fixed key per source (see reverseXp).
+// A profile's XP is the sum of its ledger.
+type XpSource = { type: string; id: string } | null
+
+// Profiles from before the ledger carry their XP in `xp`. It becomes the
+// ledger's opening balance under a fixed key, so doing this twice is harmless.
+async function ensureXpLedger(userId: string, profile: any) {
+  if (!profile || profile.xpLedgerStartedAt) return
+  const startedAt = new Date().toISOString()
+  // A profile write that raced with an earlier migration can drop the flag;
+  // the opening balance it recorded still stands
+  if (profile.xp > 0 && !(await kv.get(`xp_event:${userId}:0`))) {
+    await kv.set(`xp_event:${userId}:0`, {
+      userId,
+      amount: profile.xp,
+      reason: 'opening_balance',
+      source: null,
+      createdAt: startedAt,
+    })
+  }
+  await kv.set(`user_profile:${userId}`, { ...profile, xpLedgerStartedAt: startedAt })
+}
+
+async function listXpEvents(userId: string) {
+  return listWithIds('xp_event', userId)
+}
+
+// Records an XP change; negative amounts take XP away
+async function awardXp(userId: string, amount: number, reason: string, source: XpSource = null) {
+  await ensureXpLedger(userId, await kv.get(`user_profile:${userId}`))
+  // The random suffix keeps two events in the same millisecond apart
+  await kv.set(`xp_event:${userId}:${Date.now()}-${crypto.randomUUID().slice(0, 8)}`, {
+    userId,
+    amount,
+    reason,
+    source,
+    createdAt: new Date().toISOString(),
+  })
+}
+
+// Takes back whatever XP a record has earned so far, e.g. when a completed
+// task is marked incomplete. Returns the amount taken back. The reversal
+// lives under one key per source and holds everything the source ever
+// earned, so two reversals racing each other write the same event rather
+// than taking the XP twice.
+async function reverseXp(userId: string, reason: string, source: NonNullable<XpSource>) {
+  const reversalId = `${userId}:reversal:${source.type}:${source.id}`
+  const events = (await listXpEvents(userId))
+    .filter(event => event.source?.type === source.type && event.source?.id === source.id)
+  const reversed = events.find(event => event.id === reversalId)?.amount || 0
+  const earned = events
+    .filter(event => event.id !== reversalId)
+    .reduce((sum, event) => sum + event.amount, 0)
+  if (earned + reversed <= 0) return 0
+
+  await ensureXpLedger(userId, await kv.get(`user_profile:${userId}`))
+  await kv.set(`xp_event:${reversalId}`, {
+    userId,
+    amount: -earned,
+    reason,
+    source,
+    createdAt: new Date().toISOString(),
+  })
+  return earned + reversed
+}
+
+// The profile as the client sees it, with XP summed from the ledger
+async function withXp(userId: string, profile: any) {
+  await ensureXpLedger(userId, profile)
+  const events = await listXpEvents(userId)
+  return { ...profile, xp: events.reduce((sum, event) => sum + event.amount, 0) }
+}
+
 // ============= AUTH ROUTES =============
 
 app.post('/make-server-21b13642/signup', async (c) => {
@@ -62,8 +217,12 @@ app.post('/make-server-21b13642/signup', async (c) => {
     const body = await c.req.json()
     const { email, password, name } = body
 
-    if (!email || !password || !name) {
-      return c.json({ error: 'Missing required fields' }, 400)
+    const fieldErrors: FieldErrors = {}
+    if (!email) fieldErrors.email = 'Email is required'
+    if (!password) fieldErrors.password = 'Password is required'
+    if (!name) fieldErrors.name = 'Name is required'
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
     }
 
     const { data, error } = await supabase.auth.admin.createUser({
@@ -76,7 +235,9 @@ app.post('/make-server-21b13642/signup', async (c) => {
 
     if (error) {
       console.error('Signup error:', error)
-      return c.json({ error: error.message }, 400)
+      // Supabase's message names what's wrong; file it under that field
+      const field = /password/i.test(error.message) ? 'password' : 'email'
+      return validationFailed(c, { [field]: error.message })
     }
 
     // Initialize user profile
@@ -84,7 +245,7 @@ app.post('/make-server-21b13642/signup', async (c) => {
       name,
       email,
       createdAt: new Date().toISOString(),
-      xp: 0,
+      xpLedgerStartedAt: new Date().toISOString(),
       level: 1,
       streak: 0,
       lastStudyDate: null,
@@ -106,11 +267,13 @@ app.get('/make-server-21b13642/profile', async (c) => {
   if (error) return c.json({ error }, 401)
 
   try {
-    const profile = await kv.get(`user_profile:${userId}`)
-    if (!profile) {
+    const stored = await kv.get(`user_profile:${userId}`)
+    if (!stored) {
       return c.json({ error: 'Profile not found' }, 404)
     }
-    return c.json({ profile })
+    // A streak can end without any request, at midnight
+    const { profile } = await refreshStreak(userId!, stored)
+    return c.json({ profile: await withXp(userId!, profile) })
   } catch (error) {
     console.error('Error fetching profile:', error)
     return c.json({ error: 'Failed to fetch profile' }, 500)
@@ -122,42 +285,91 @@ app.post('/make-server-21b13642/profile', async (c) => {
   if (error) return c.json({ error }, 401)
 
   try {
-    const updates = await c.req.json()
+    // Only the user-editable fields; XP, level, streak and achievements
+    // change through the server's own game logic
+    const { value: updates, fieldErrors } = readPayload(profileUpdateSchema, await c.req.json(), { partial: true })
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
     const currentProfile = await kv.get(`user_profile:${userId}`)
+    if (!currentProfile) {
+      return c.json({ error: 'Profile not found' }, 404)
+    }
     
-    const updatedProfile = { ...currentProfile, ...updates }
+    const updatedProfile = {
+      ...currentProfile,
+      ...updates,
+      ...(updates.preferences ? { preferences: { ...currentProfile.preferences, ...updates.preferences } } : {}),
+      updatedAt: new Date().toISOString()
+    }
     await kv.set(`user_profile:${userId}`, updatedProfile)
     
-    return c.json({ success: true, profile: updatedProfile })
+    return c.json({ success: true, profile: await withXp(userId!, updatedProfile) })
   } catch (error) {
     console.error('Error updating profile:', error)
     return c.json({ error: 'Failed to update profile' }, 500)
   }
 })
 
+const MAX_XP_HISTORY = 200
+
+app.get('/make-server-21b13642/xp/history', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    await ensureXpLedger(userId!, await kv.get(`user_profile:${userId}`))
+    const events = await listXpEvents(userId!)
+    events.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+    const total = events.reduce((sum, event) => sum + event.amount, 0)
+    const byReason: { [reason: string]: number } = {}
+    events.forEach((event) => {
+      byReason[event.reason] = (byReason[event.reason] || 0) + event.amount
+    })
+
+    return c.json({ total, byReason, events: events.slice(0, MAX_XP_HISTORY) })
+  } catch (error) {
+    console.error('Error fetching XP history:', error)
+    return c.json({ error: 'Failed to fetch XP history' }, 500)
+  }
+})
+
 // ============= ONBOARDING/ROUTINE SETUP ROUTES =============
 
+const ONBOARDING_XP = 50
+
 app.post('/make-server-21b13642/routine', async (c) => {
   const { error, userId } = await verifyAuth(c.req.raw)
   if (error) return c.json({ error }, 401)
 
   try {
-    const routineData = await c.req.json()
-    await kv.set(`user_routine:${userId}`, {
+    const existing = await kv.get(`user_routine:${userId}`)
+
+    // Onboarding sends the whole routine; after that, editors such as the
+    // timetable send just their part and the rest is kept
+    const { value: routineData, fieldErrors } = readPayload(routineSchema, await c.req.json(), { partial: Boolean(existing) })
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
+    const routine = {
+      ...existing,
       ...routineData,
-      createdAt: new Date().toISOString(),
+      createdAt: existing?.createdAt || new Date().toISOString(),
       updatedAt: new Date().toISOString()
-    })
+    }
+    await kv.set(`user_routine:${userId}`, routine)
     
-    // Mark onboarding as complete
+    // Mark onboarding as complete; the setup bonus is only given once
     const profile = await kv.get(`user_profile:${userId}`)
-    await kv.set(`user_profile:${userId}`, {
-      ...profile,
-      onboardingComplete: true,
-      xp: (profile?.xp || 0) + 50 // Bonus XP for completing setup
-    })
+    if (!profile?.onboardingComplete) {
+      await kv.set(`user_profile:${userId}`, { ...profile, onboardingComplete: true })
+      await awardXp(userId!, ONBOARDING_XP, 'onboarding')
+    }
     
-    return c.json({ success: true })
+    return c.json({ success: true, routine })
   } catch (error) {
     console.error('Error saving routine:', error)
     return c.json({ error: 'Failed to save routine' }, 500)
@@ -177,6 +389,82 @@ app.get('/make-server-21b13642/routine', async (c) => {
   }
 })
 
+// ============= STUDY PLAN ROUTES =============
+
+const WEEK_START_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const MAX_PLANNED_BLOCKS = 200
+const PLANNED_BLOCK_KINDS = ['review', 'task', 'subject']
+
+// Plans are generated on the client (see utils/planner) and stored per week
+app.get('/make-server-21b13642/plan/:weekStart', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const weekStart = c.req.param('weekStart')
+    if (!WEEK_START_PATTERN.test(weekStart)) {
+      return validationFailed(c, { weekStart: 'Week start must be a YYYY-MM-DD date' })
+    }
+
+    const plan = await kv.get(`plan:${userId}:${weekStart}`)
+    return c.json({ plan: plan || null })
+  } catch (error) {
+    console.error('Error fetching plan:', error)
+    return c.json({ error: 'Failed to fetch plan' }, 500)
+  }
+})
+
+app.put('/make-server-21b13642/plan/:weekStart', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const weekStart = c.req.param('weekStart')
+    if (!WEEK_START_PATTERN.test(weekStart)) {
+      return validationFailed(c, { weekStart: 'Week start must be a YYYY-MM-DD date' })
+    }
+
+    const { blocks, status } = await c.req.json()
+    if (!Array.isArray(blocks) || blocks.length > MAX_PLANNED_BLOCKS) {
+      return validationFailed(c, { blocks: `Blocks must be an array of at most ${MAX_PLANNED_BLOCKS} items` })
+    }
+
+    const validBlocks = blocks.filter((block: any) =>
+      Number.isInteger(block?.day) && block.day >= 0 && block.day <= 6 &&
+      isValidTime(block.start) && isValidTime(block.end) &&
+      PLANNED_BLOCK_KINDS.includes(block.kind) && typeof block.title === 'string'
+    )
+    if (validBlocks.length !== blocks.length) {
+      return validationFailed(c, { blocks: 'Some plan blocks are invalid' })
+    }
+
+    const existing = await kv.get(`plan:${userId}:${weekStart}`)
+    const plan = {
+      userId,
+      weekStart,
+      blocks: validBlocks.map((block: any) => ({
+        id: String(block.id),
+        day: block.day,
+        start: block.start,
+        end: block.end,
+        kind: block.kind,
+        title: block.title.slice(0, 120),
+        subject: typeof block.subject === 'string' ? block.subject : '',
+        refIds: Array.isArray(block.refIds) ? block.refIds.filter((id: any) => typeof id === 'string') : []
+      })),
+      status: status === 'accepted' ? 'accepted' : 'draft',
+      createdAt: existing?.createdAt || new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }
+    await kv.set(`plan:${userId}:${weekStart}`, plan)
+
+    return c.json({ success: true, plan })
+  } catch (error) {
+    console.error('Error saving plan:', error)
+    return c.json({ error: 'Failed to save plan' }, 500)
+  }
+})
+
 // ============= STUDY RECORDS ROUTES =============
 
 app.post('/make-server-21b13642/study-record', async (c) => {
@@ -184,42 +472,50 @@ app.post('/make-server-21b13642/study-record', async (c) => {
   if (error) return c.json({ error }, 401)
 
   try {
-    const recordData = await c.req.json()
-    const recordId = `${userId}:${Date.now()}`
-    
-    await kv.set(`study_record:${recordId}`, {
-      userId,
-      ...recordData,
-      createdAt: new Date().toISOString()
-    })
+    const { value: recordData, fieldErrors } = readPayload(studyRecordSchema, await c.req.json())
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
 
-    // Update user XP and streak
+    const record = { userId, ...recordData, createdAt: new Date().toISOString() }
+
+    // However a day's study is split into sessions, it only has so many hours
     const profile = await kv.get(`user_profile:${userId}`)
-    const today = new Date().toISOString().split('T')[0]
-    const lastStudyDate = profile?.lastStudyDate?.split('T')[0]
-    
-    let newStreak = profile?.streak || 0
-    if (lastStudyDate === today) {
-      // Same day, no streak change
-    } else if (lastStudyDate === new Date(Date.now() - 86400000).toISOString().split('T')[0]) {
-      // Yesterday, increment streak
-      newStreak += 1
-    } else {
-      // Streak broken, reset to 1
-      newStreak = 1
+    const timeZone = readTimeZone(profile?.timeZone)
+    const studyDay = studyDayOf(record, timeZone)
+    if (studyDay < addDays(zonedDateKey(new Date(), timeZone), -MAX_BACKDATE_DAYS)) {
+      return validationFailed(c, { studiedAt: `Study date can be at most ${MAX_BACKDATE_DAYS} days ago` })
+    }
+    const records = await listWithIds('study_record', userId!)
+    const loggedMinutes = records
+      .filter(other => studyDayOf(other, timeZone) === studyDay)
+      .reduce((sum, other) => sum + (Number(other.duration) || 0), 0)
+    if (loggedMinutes + record.duration > MAX_STUDY_MINUTES_PER_DAY) {
+      const remaining = Math.max(0, MAX_STUDY_MINUTES_PER_DAY - loggedMinutes)
+      return validationFailed(c, { duration: `At most ${remaining} more minutes can be logged for ${studyDay}` })
     }
 
-    // Calculate XP based on study duration
-    const xpGained = Math.floor((recordData.duration || 0) / 15) * 10 // 10 XP per 15 mins
+    const recordId = `${userId}:${Date.now()}`
+    await kv.set(`study_record:${recordId}`, record)
 
-    await kv.set(`user_profile:${userId}`, {
-      ...profile,
-      xp: (profile?.xp || 0) + xpGained,
-      streak: newStreak,
-      lastStudyDate: new Date().toISOString()
-    })
+    // A session logged for an earlier day can join up or extend a past
+    // streak, so the streak is worked out again from the whole history
+    const { summary, settings } = await refreshStreak(userId!, profile, [...records, record])
+
+    // Calculate XP based on study duration
+    const xpGained = Math.floor(recordData.duration / 15) * 10 // 10 XP per 15 mins
+    if (xpGained > 0) {
+      await awardXp(userId!, xpGained, 'study_session', { type: 'study_record', id: recordId })
+    }
+    await refreshAchievements(userId!)
     
-    return c.json({ success: true, recordId, xpGained, streak: newStreak })
+    return c.json({
+      success: true,
+      recordId,
+      xpGained,
+      streak: summary.current,
+      studyDay: { date: studyDay, minutes: loggedMinutes + record.duration, minimumMinutes: settings.minimumMinutes }
+    })
   } catch (error) {
     console.error('Error saving study record:', error)
     return c.json({ error: 'Failed to save study record' }, 500)
@@ -231,7 +527,7 @@ app.get('/make-server-21b13642/study-records', async (c) => {
   if (error) return c.json({ error }, 401)
 
   try {
-    const records = await kv.getByPrefix(`study_record:${userId}:`)
+    const records = await listWithIds('study_record', userId!)
     // Sort by createdAt descending
     const sortedRecords = records.sort((a, b) => 
       new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -243,25 +539,239 @@ app.get('/make-server-21b13642/study-records', async (c) => {
   }
 })
 
+// Focus, energy and notes can be added after the session is saved, as they
+// are when the focus timer logs one
+app.put('/make-server-21b13642/study-record/:id', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const recordId = c.req.param('id')
+    const { value: updates, fieldErrors } = readPayload(studyRecordReflectionSchema, await c.req.json(), { partial: true })
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
+    const record = await kv.get(`study_record:${recordId}`)
+    if (!record || record.userId !== userId) {
+      return c.json({ error: 'Study record not found' }, 404)
+    }
+
+    const updatedRecord = { ...record, ...updates, updatedAt: new Date().toISOString() }
+    await kv.set(`study_record:${recordId}`, updatedRecord)
+
+    return c.json({ success: true, record: { ...updatedRecord, id: recordId } })
+  } catch (error) {
+    console.error('Error updating study record:', error)
+    return c.json({ error: 'Failed to update study record' }, 500)
+  }
+})
+
+app.delete('/make-server-21b13642/study-record/:id', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const recordId = c.req.param('id')
+    const record = await kv.get(`study_record:${recordId}`)
+
+    if (!record || record.userId !== userId) {
+      return c.json({ error: 'Study record not found' }, 404)
+    }
+
+    await kv.del(`study_record:${recordId}`)
+    const xpGained = -await reverseXp(userId!, 'study_session_deleted', { type: 'study_record', id: recordId })
+    const { summary } = await refreshStreak(userId!, await kv.get(`user_profile:${userId}`))
+
+    return c.json({ success: true, xpGained, streak: summary.current })
+  } catch (error) {
+    console.error('Error deleting study record:', error)
+    return c.json({ error: 'Failed to delete study record' }, 500)
+  }
+})
+
+// ============= STREAK ROUTES =============
+
+async function readStreakSettings(userId: string) {
+  return { ...defaultStreakSettings(), ...(await kv.get(`streak_settings:${userId}`)) }
+}
+
+// Works the streak out from the whole study history (see utils/streaks) in
+// the user's time zone, and keeps the copy on the profile in step
+async function refreshStreak(userId: string, profile: any, records?: any[]) {
+  const [history, settings] = await Promise.all([
+    records ?? listWithIds('study_record', userId),
+    readStreakSettings(userId)
+  ])
+  const summary = computeStreak(history, settings, readTimeZone(profile?.timeZone), new Date())
+
+  let updatedProfile = profile
+  if (profile && (profile.streak !== summary.current || profile.longestStreak !== summary.longest || profile.lastStudyDate !== summary.lastStudyDay)) {
+    updatedProfile = { ...profile, streak: summary.current, longestStreak: summary.longest, lastStudyDate: summary.lastStudyDay }
+    await kv.set(`user_profile:${userId}`, updatedProfile)
+  }
+  return { summary, settings, profile: updatedProfile }
+}
+
+async function streakResponse(userId: string, profile: any) {
+  const { summary, settings } = await refreshStreak(userId, profile)
+  return { streak: summary, settings, timeZone: readTimeZone(profile?.timeZone) }
+}
+
+app.get('/make-server-21b13642/streak', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    return c.json(await streakResponse(userId!, await kv.get(`user_profile:${userId}`)))
+  } catch (error) {
+    console.error('Error fetching streak:', error)
+    return c.json({ error: 'Failed to fetch streak' }, 500)
+  }
+})
+
+app.put('/make-server-21b13642/streak/settings', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { value: updates, fieldErrors } = readPayload(streakSettingsSchema, await c.req.json())
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
+    const settings = await readStreakSettings(userId!)
+    await kv.set(`streak_settings:${userId}`, { ...settings, ...updates })
+    // A lower minimum can join up days into a longer streak
+    await refreshAchievements(userId!)
+
+    return c.json({ success: true, ...await streakResponse(userId!, await kv.get(`user_profile:${userId}`)) })
+  } catch (error) {
+    console.error('Error updating streak settings:', error)
+    return c.json({ error: 'Failed to update streak settings' }, 500)
+  }
+})
+
+// Holidays and sick days, which neither count towards nor break a streak
+app.post('/make-server-21b13642/streak/days-off', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { value: { from, to, reason }, fieldErrors } = readPayload(dayOffSchema, await c.req.json())
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
+    const profile = await kv.get(`user_profile:${userId}`)
+    const settings = await readStreakSettings(userId!)
+    const today = zonedDateKey(new Date(), readTimeZone(profile?.timeZone))
+    const { days, fieldErrors: planErrors } = planDaysOff(settings.daysOff, from, to, reason, today)
+    if (hasFieldErrors(planErrors)) {
+      return validationFailed(c, planErrors)
+    }
+
+    const daysOff = [...settings.daysOff, ...days].sort((a, b) => a.date.localeCompare(b.date))
+    await kv.set(`streak_settings:${userId}`, { ...settings, daysOff })
+    await refreshAchievements(userId!)
+
+    return c.json({ success: true, added: days.length, ...await streakResponse(userId!, profile) })
+  } catch (error) {
+    console.error('Error adding days off:', error)
+    return c.json({ error: 'Failed to add days off' }, 500)
+  }
+})
+
+app.delete('/make-server-21b13642/streak/days-off/:date', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const date = c.req.param('date')
+    const settings = await readStreakSettings(userId!)
+    if (!settings.daysOff.some(dayOff => dayOff.date === date)) {
+      return c.json({ error: 'Day off not found' }, 404)
+    }
+
+    const daysOff = settings.daysOff.filter(dayOff => dayOff.date !== date)
+    await kv.set(`streak_settings:${userId}`, { ...settings, daysOff })
+
+    return c.json({ success: true, ...await streakResponse(userId!, await kv.get(`user_profile:${userId}`)) })
+  } catch (error) {
+    console.error('Error removing day off:', error)
+    return c.json({ error: 'Failed to remove day off' }, 500)
+  }
+})
+
+// ============= ACHIEVEMENT ROUTES =============
+
+// Runs the achievement rules (see utils/achievements) over the user's whole
+// history and adds any new unlocks to the profile. Called after each event
+// that can move a rule; an achievement already on the profile is never
+// unlocked again, so calling it more often than needed is harmless.
+async function refreshAchievements(userId: string) {
+  const [profile, records, tasks, reviews, streakSettings] = await Promise.all([
+    kv.get(`user_profile:${userId}`),
+    listWithIds('study_record', userId),
+    listWithIds('task', userId),
+    listWithIds('review', userId),
+    readStreakSettings(userId)
+  ])
+  const now = new Date()
+  const stats = achievementStats(
+    { records, tasks, reviews: reviews.map(withReviewState), streakSettings },
+    readTimeZone(profile?.timeZone),
+    now
+  )
+  const unlocked = readUnlockedAchievements(profile?.achievements)
+  const { achievements, newlyUnlocked } = evaluateAchievements(stats, unlocked, now)
+
+  if (profile && newlyUnlocked.length > 0) {
+    await kv.set(`user_profile:${userId}`, { ...profile, achievements: [...unlocked, ...newlyUnlocked] })
+  }
+  return { achievements, newlyUnlocked }
+}
+
+// Every achievement with its progress. Also catches up on unlocks earned
+// before achievements were awarded.
+app.get('/make-server-21b13642/achievements', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    return c.json(await refreshAchievements(userId!))
+  } catch (error) {
+    console.error('Error fetching achievements:', error)
+    return c.json({ error: 'Failed to fetch achievements' }, 500)
+  }
+})
+
 // ============= GOALS ROUTES =============
 
+const GOAL_COMPLETION_XP = 100
+
 app.post('/make-server-21b13642/goal', async (c) => {
   const { error, userId } = await verifyAuth(c.req.raw)
   if (error) return c.json({ error }, 401)
 
   try {
-    const goalData = await c.req.json()
+    const { value: goalData, fieldErrors } = readPayload(goalSchema, await c.req.json())
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
     const goalId = `${userId}:${Date.now()}`
     
-    await kv.set(`goal:${goalId}`, {
+    const goal = {
       userId,
       ...goalData,
       progress: 0,
       completed: false,
       createdAt: new Date().toISOString()
-    })
+    }
+    await kv.set(`goal:${goalId}`, goal)
     
-    return c.json({ success: true, goalId })
+    return c.json({ success: true, goalId, goal: { ...goal, id: goalId } })
   } catch (error) {
     console.error('Error creating goal:', error)
     return c.json({ error: 'Failed to create goal' }, 500)
@@ -273,7 +783,10 @@ app.get('/make-server-21b13642/goals', async (c) => {
   if (error) return c.json({ error }, 401)
 
   try {
-    const goals = await kv.getByPrefix(`goal:${userId}:`)
+    const goals = await listWithIds('goal', userId!)
+    goals.sort((a, b) => 
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    )
     return c.json({ goals })
   } catch (error) {
     console.error('Error fetching goals:', error)
@@ -287,50 +800,164 @@ app.put('/make-server-21b13642/goal/:id', async (c) => {
 
   try {
     const goalId = c.req.param('id')
-    const updates = await c.req.json()
+    const { value: updates, fieldErrors } = readPayload(goalSchema, await c.req.json(), { partial: true })
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
     
     const goal = await kv.get(`goal:${goalId}`)
     if (!goal || goal.userId !== userId) {
       return c.json({ error: 'Goal not found' }, 404)
     }
     
+    // Only the goal's details; progress and completion go through /progress
     const updatedGoal = { ...goal, ...updates }
     await kv.set(`goal:${goalId}`, updatedGoal)
     
-    // Award XP if goal completed
-    if (updates.completed && !goal.completed) {
-      const profile = await kv.get(`user_profile:${userId}`)
-      await kv.set(`user_profile:${userId}`, {
-        ...profile,
-        xp: (profile?.xp || 0) + 100
-      })
-    }
-    
-    return c.json({ success: true, goal: updatedGoal })
+    return c.json({ success: true, goal: { ...updatedGoal, id: goalId } })
   } catch (error) {
     console.error('Error updating goal:', error)
     return c.json({ error: 'Failed to update goal' }, 500)
   }
 })
 
+app.post('/make-server-21b13642/goal/:id/progress', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const goalId = c.req.param('id')
+    const { value: { increment }, fieldErrors } = readPayload(goalProgressSchema, await c.req.json())
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+    
+    const goal = await kv.get(`goal:${goalId}`)
+    if (!goal || goal.userId !== userId) {
+      return c.json({ error: 'Goal not found' }, 404)
+    }
+    
+    // Progress is applied here rather than sent as an absolute value so that
+    // two devices bumping the same goal don't overwrite each other
+    const progress = Math.min(100, Math.max(0, (goal.progress || 0) + increment))
+    const completed = progress === 100 || (goal.completed && increment >= 0)
+    const updatedGoal = { ...goal, progress, completed }
+    await kv.set(`goal:${goalId}`, updatedGoal)
+
+    let xpGained = 0
+    if (completed && !goal.completed) {
+      xpGained = GOAL_COMPLETION_XP
+      await awardXp(userId!, xpGained, 'goal_completed', { type: 'goal', id: goalId })
+    } else if (!completed && goal.completed) {
+      xpGained = -await reverseXp(userId!, 'goal_reopened', { type: 'goal', id: goalId })
+    }
+    
+    return c.json({ success: true, goal: { ...updatedGoal, id: goalId }, xpGained })
+  } catch (error) {
+    console.error('Error updating goal progress:', error)
+    return c.json({ error: 'Failed to update goal progress' }, 500)
+  }
+})
+
+app.delete('/make-server-21b13642/goal/:id', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const goalId = c.req.param('id')
+    const goal = await kv.get(`goal:${goalId}`)
+    
+    if (!goal || goal.userId !== userId) {
+      return c.json({ error: 'Goal not found' }, 404)
+    }
+    
+    await kv.del(`goal:${goalId}`)
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting goal:', error)
+    return c.json({ error: 'Failed to delete goal' }, 500)
+  }
+})
+
+// One-time import of goals that older app versions kept in localStorage
+app.post('/make-server-21b13642/goals/import', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { goals } = await c.req.json()
+    if (!Array.isArray(goals)) {
+      return validationFailed(c, { goals: 'Goals must be an array' })
+    }
+
+    const migrationKey = `goal_migration:${userId}`
+    if (await kv.get(migrationKey)) {
+      return c.json({ success: true, imported: 0, alreadyImported: true })
+    }
+
+    const now = Date.now()
+    const validGoals = goals.filter((goal: any) => typeof goal?.title === 'string' && goal.title.trim())
+    const keys = validGoals.map((_: any, index: number) => `goal:${userId}:${now + index}`)
+    const values = validGoals.map((goal: any) => {
+      const progress = Math.min(100, Math.max(0, Number(goal.progress) || 0))
+      return {
+        userId,
+        title: goal.title,
+        description: goal.description || '',
+        targetDate: goal.targetDate || '',
+        targetValue: goal.targetValue || 100,
+        progress,
+        completed: Boolean(goal.completed) || progress === 100,
+        createdAt: goal.createdAt || new Date().toISOString(),
+        importedFrom: 'localStorage'
+      }
+    })
+
+    if (keys.length > 0) {
+      await kv.mset(keys, values)
+    }
+    await kv.set(migrationKey, { importedAt: new Date().toISOString(), count: keys.length })
+    
+    return c.json({ success: true, imported: keys.length })
+  } catch (error) {
+    console.error('Error importing goals:', error)
+    return c.json({ error: 'Failed to import goals' }, 500)
+  }
+})
+
 // ============= TASKS ROUTES =============
 
+const TASK_COMPLETION_XP = 20
+
+// Each occurrence of a repeating task is its own task, so completing one
+// keeps it (with its completedAt) as that occurrence's history. They share
+// the first occurrence's id as seriesId; the server sets the series fields.
+
 app.post('/make-server-21b13642/task', async (c) => {
   const { error, userId } = await verifyAuth(c.req.raw)
   if (error) return c.json({ error }, 401)
 
   try {
-    const taskData = await c.req.json()
+    const { value: taskData, fieldErrors } = readPayload(taskSchema, await c.req.json())
+    const { recurrence, error: recurrenceError } = readRecurrence(taskData.recurrence, taskData.dueDate)
+    if (recurrenceError) fieldErrors.recurrence = recurrenceError
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
     const taskId = `${userId}:${Date.now()}`
     
-    await kv.set(`task:${taskId}`, {
+    const task = {
       userId,
       ...taskData,
+      recurrence,
+      ...(recurrence ? { seriesId: taskId, occurrence: 1 } : {}),
       completed: false,
       createdAt: new Date().toISOString()
-    })
+    }
+    await kv.set(`task:${taskId}`, task)
     
-    return c.json({ success: true, taskId })
+    return c.json({ success: true, taskId, task: { ...task, id: taskId } })
   } catch (error) {
     console.error('Error creating task:', error)
     return c.json({ error: 'Failed to create task' }, 500)
@@ -342,7 +969,7 @@ app.get('/make-server-21b13642/tasks', async (c) => {
   if (error) return c.json({ error }, 401)
 
   try {
-    const tasks = await kv.getByPrefix(`task:${userId}:`)
+    const tasks = await listWithIds('task', userId!)
     return c.json({ tasks })
   } catch (error) {
     console.error('Error fetching tasks:', error)
@@ -356,26 +983,73 @@ app.put('/make-server-21b13642/task/:id', async (c) => {
 
   try {
     const taskId = c.req.param('id')
-    const updates = await c.req.json()
+    const { value: updates, fieldErrors } = readPayload(taskSchema, await c.req.json(), { partial: true })
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
     
     const task = await kv.get(`task:${taskId}`)
     if (!task || task.userId !== userId) {
       return c.json({ error: 'Task not found' }, 404)
     }
+    // The profile's time zone decides which day is "today" for the next occurrence
+    const profile = await kv.get(`user_profile:${userId}`)
+    const timeZone = readTimeZone(profile?.timeZone)
     
     const updatedTask = { ...task, ...updates }
-    await kv.set(`task:${taskId}`, updatedTask)
+    if (updatedTask.recurrence && ('recurrence' in updates || 'dueDate' in updates)) {
+      const { recurrence, error: recurrenceError } = readRecurrence(updatedTask.recurrence, updatedTask.dueDate)
+      if (recurrenceError) {
+        return validationFailed(c, { recurrence: recurrenceError })
+      }
+      updatedTask.recurrence = recurrence
+      updatedTask.seriesId = task.seriesId || taskId
+      updatedTask.occurrence = task.occurrence || 1
+    }
+
+    const completing = updates.completed && !task.completed
+    if (completing) {
+      updatedTask.completedAt = new Date().toISOString()
+    } else if (updates.completed === false) {
+      updatedTask.completedAt = null
+    }
+
+    // Completing an occurrence creates the next one, once: completing it
+    // again after un-completing doesn't add another
+    let nextTask = null
+    const hasNext = task.nextTaskId && await kv.get(`task:${task.nextTaskId}`)
+    if (completing && updatedTask.recurrence && !hasNext) {
+      const today = zonedDateKey(new Date(), timeZone)
+      const next = nextOccurrence(updatedTask.recurrence, updatedTask.dueDate, updatedTask.occurrence || 1, today)
+      if (next) {
+        const nextTaskId = `${userId}:${Date.now()}`
+        const { completed: _completed, completedAt: _completedAt, nextTaskId: _nextTaskId, ...series } = updatedTask
+        nextTask = {
+          ...series,
+          dueDate: next.date,
+          occurrence: next.occurrence,
+          completed: false,
+          createdAt: new Date().toISOString()
+        }
+        await kv.set(`task:${nextTaskId}`, nextTask)
+        nextTask = { ...nextTask, id: nextTaskId }
+        updatedTask.nextTaskId = nextTaskId
+      }
+    }
+
+    await kv.set(`task:${taskId}`, updatedTask)
     
-    // Award XP if task completed
-    if (updates.completed && !task.completed) {
-      const profile = await kv.get(`user_profile:${userId}`)
-      await kv.set(`user_profile:${userId}`, {
-        ...profile,
-        xp: (profile?.xp || 0) + 20
-      })
+    // Award XP if task completed, and take it back if it's reopened
+    let xpGained = 0
+    if (completing) {
+      xpGained = TASK_COMPLETION_XP
+      await awardXp(userId!, xpGained, 'task_completed', { type: 'task', id: taskId })
+      await refreshAchievements(userId!)
+    } else if (updates.completed === false && task.completed) {
+      xpGained = -await reverseXp(userId!, 'task_reopened', { type: 'task', id: taskId })
     }
     
-    return c.json({ success: true, task: updatedTask })
+    return c.json({ success: true, task: { ...updatedTask, id: taskId }, nextTask, xpGained })
   } catch (error) {
     console.error('Error updating task:', error)
     return c.json({ error: 'Failed to update task' }, 500)
@@ -402,57 +1076,231 @@ app.delete('/make-server-21b13642/task/:id', async (c) => {
   }
 })
 
+// ============= NOTES ROUTES =============
+
+const MAX_IMPORTED_NOTES = 500
+
+// The fields of a note a client may set. Content is markdown, with $...$
+// and $$...$$ for formulas; reminder times are instants (ISO strings). A
+// repeating reminder keeps its time of day in the zone it was set in.
+function readNote(body: any) {
+  const { value: note, fieldErrors } = readPayload(noteSchema, body)
+  if (note.recurrence) {
+    if (!note.reminderTime) {
+      fieldErrors.recurrence = 'Only a note with a reminder can repeat'
+    } else {
+      const result = readRecurrence(note.recurrence, zonedDateKey(new Date(note.reminderTime), note.timeZone))
+      if (result.error) fieldErrors.recurrence = result.error
+      note.recurrence = result.recurrence
+    }
+  }
+  return hasFieldErrors(fieldErrors) ? { note: null, fieldErrors } : { note, fieldErrors }
+}
+
+app.get('/make-server-21b13642/notes', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const notes = await listWithIds('note', userId!)
+    notes.sort((a, b) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )
+    return c.json({ notes })
+  } catch (error) {
+    console.error('Error fetching notes:', error)
+    return c.json({ error: 'Failed to fetch notes' }, 500)
+  }
+})
+
+app.post('/make-server-21b13642/note', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { note: fields, fieldErrors } = readNote(await c.req.json())
+    if (!fields) {
+      return validationFailed(c, fieldErrors)
+    }
+
+    const noteId = `${userId}:${Date.now()}`
+    const now = new Date().toISOString()
+    const note = { userId, ...fields, reminderOccurrence: 1, createdAt: now, updatedAt: now }
+    await kv.set(`note:${noteId}`, note)
+
+    return c.json({ success: true, note: { ...note, id: noteId } })
+  } catch (error) {
+    console.error('Error creating note:', error)
+    return c.json({ error: 'Failed to create note' }, 500)
+  }
+})
+
+app.put('/make-server-21b13642/note/:id', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const noteId = c.req.param('id')
+    const { note: fields, fieldErrors } = readNote(await c.req.json())
+    if (!fields) {
+      return validationFailed(c, fieldErrors)
+    }
+
+    const note = await kv.get(`note:${noteId}`)
+    if (!note || note.userId !== userId) {
+      return c.json({ error: 'Note not found' }, 404)
+    }
+
+    // Moving the reminder starts the series again from the new time
+    const reminderOccurrence = fields!.reminderTime === note.reminderTime ? note.reminderOccurrence || 1 : 1
+    const updatedNote = { ...note, ...fields, reminderOccurrence, updatedAt: new Date().toISOString() }
+    await kv.set(`note:${noteId}`, updatedNote)
+
+    return c.json({ success: true, note: { ...updatedNote, id: noteId } })
+  } catch (error) {
+    console.error('Error updating note:', error)
+    return c.json({ error: 'Failed to update note' }, 500)
+  }
+})
+
+app.delete('/make-server-21b13642/note/:id', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const noteId = c.req.param('id')
+    const note = await kv.get(`note:${noteId}`)
+
+    if (!note || note.userId !== userId) {
+      return c.json({ error: 'Note not found' }, 404)
+    }
+
+    await kv.del(`note:${noteId}`)
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting note:', error)
+    return c.json({ error: 'Failed to delete note' }, 500)
+  }
+})
+
+// Notes older app versions kept in the browser under one key shared by
+// everyone using it. The client only sends them when the user claims them.
+app.post('/make-server-21b13642/notes/import', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { notes } = await c.req.json()
+    if (!Array.isArray(notes)) {
+      return validationFailed(c, { notes: 'Notes must be an array' })
+    }
+    if (notes.length > MAX_IMPORTED_NOTES) {
+      return validationFailed(c, { notes: `At most ${MAX_IMPORTED_NOTES} notes can be imported` })
+    }
+
+    const migrationKey = `note_migration:${userId}`
+    if (await kv.get(migrationKey)) {
+      return c.json({ success: true, imported: 0, alreadyImported: true })
+    }
+
+    const now = Date.now()
+    const importedAt = new Date(now).toISOString()
+    const values = notes
+      .map((legacy: any) => {
+        const { note } = readNote(legacy)
+        if (!note) return null
+        const createdAt = Number.isNaN(Date.parse(legacy.createdAt)) ? importedAt : legacy.createdAt
+        return { userId, ...note, createdAt, updatedAt: createdAt, importedFrom: 'localStorage' }
+      })
+      .filter(Boolean)
+    const keys = values.map((_: any, index: number) => `note:${userId}:${now + index}`)
+
+    if (keys.length > 0) {
+      await kv.mset(keys, values)
+    }
+    await kv.set(migrationKey, { importedAt, count: keys.length })
+
+    return c.json({ success: true, imported: keys.length })
+  } catch (error) {
+    console.error('Error importing notes:', error)
+    return c.json({ error: 'Failed to import notes' }, 500)
+  }
+})
+
 // ============= SPACED REPETITION ROUTES =============
 
+const REVIEW_COMPLETION_XP = 15
+
+// Schedules created before adaptive scheduling carry a fixed list of review
+// dates instead of a review state; convert them when they are read
+function withReviewState(schedule: any) {
+  if (schedule.srs) return schedule
+  const { reviews = [], completedReviews = [], ...rest } = schedule
+  return {
+    ...rest,
+    srs: stateFromFixedSchedule(reviews, completedReviews),
+    history: [...completedReviews].sort().map((reviewedAt: string) => ({ reviewedAt, grade: 'good' }))
+  }
+}
+
 app.post('/make-server-21b13642/review-schedule', async (c) => {
   const { error, userId } = await verifyAuth(c.req.raw)
   if (error) return c.json({ error }, 401)
 
   try {
-    const { topic, studiedAt } = await c.req.json()
+    const { value: { subject, topic, studiedAt }, fieldErrors } = readPayload(reviewScheduleSchema, await c.req.json())
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
     const scheduleId = `${userId}:${Date.now()}`
     
     const studyDate = new Date(studiedAt || Date.now())
-    const reviews = [
-      new Date(studyDate.getTime() + 1 * 86400000).toISOString(), // 1 day
-      new Date(studyDate.getTime() + 3 * 86400000).toISOString(), // 3 days
-      new Date(studyDate.getTime() + 7 * 86400000).toISOString(), // 7 days
-      new Date(studyDate.getTime() + 14 * 86400000).toISOString(), // 14 days
-      new Date(studyDate.getTime() + 30 * 86400000).toISOString(), // 30 days
-    ]
-    
-    await kv.set(`review:${scheduleId}`, {
+    const schedule = {
       userId,
+      subject,
       topic,
       studiedAt: studyDate.toISOString(),
-      reviews,
-      completedReviews: [],
+      srs: createReviewState(studyDate),
+      history: [],
       createdAt: new Date().toISOString()
-    })
+    }
+    await kv.set(`review:${scheduleId}`, schedule)
     
-    return c.json({ success: true, scheduleId, reviews })
+    return c.json({ success: true, scheduleId, schedule: { ...schedule, id: scheduleId } })
   } catch (error) {
     console.error('Error creating review schedule:', error)
     return c.json({ error: 'Failed to create review schedule' }, 500)
   }
 })
 
+app.get('/make-server-21b13642/review-schedules', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const schedules = (await listWithIds('review', userId!)).map(withReviewState)
+    schedules.sort((a, b) => 
+      new Date(a.srs.dueAt).getTime() - new Date(b.srs.dueAt).getTime()
+    )
+    return c.json({ schedules })
+  } catch (error) {
+    console.error('Error fetching review schedules:', error)
+    return c.json({ error: 'Failed to fetch review schedules' }, 500)
+  }
+})
+
 app.get('/make-server-21b13642/reviews-due', async (c) => {
   const { error, userId } = await verifyAuth(c.req.raw)
   if (error) return c.json({ error }, 401)
 
   try {
-    const allReviews = await kv.getByPrefix(`review:${userId}:`)
+    const allReviews = (await listWithIds('review', userId!)).map(withReviewState)
     const now = new Date().toISOString()
     
     const dueReviews = allReviews
-      .map(review => {
-        const nextDue = review.reviews.find((r: string) => 
-          !review.completedReviews.includes(r) && r <= now
-        )
-        return nextDue ? { ...review, nextDue } : null
-      })
-      .filter(Boolean)
+      .filter(review => review.srs.dueAt <= now)
+      .map(review => ({ ...review, nextDue: review.srs.dueAt }))
     
     return c.json({ reviews: dueReviews })
   } catch (error) {
@@ -467,44 +1315,406 @@ app.post('/make-server-21b13642/review-complete/:id', async (c) => {
 
   try {
     const reviewId = c.req.param('id')
-    const { reviewDate } = await c.req.json()
+    const { grade: topicGrade, cardGrades } = await c.req.json()
     
+    const stored = await kv.get(`review:${reviewId}`)
+    if (!stored || stored.userId !== userId) {
+      return c.json({ error: 'Review not found' }, 404)
+    }
+
+    const review = withReviewState(stored)
+
+    // A flashcard session grades each card; the topic is then scheduled on
+    // the combined result
+    let grade = topicGrade
+    let cards = review.cards
+    if (cardGrades && typeof cardGrades === 'object') {
+      const gradedCards = Object.entries(cardGrades)
+        .filter(([cardId]) => cards?.some((card: any) => card.id === cardId))
+        .map(([, cardGrade]) => cardGrade)
+        .filter(isRecallGrade)
+      if (gradedCards.length === 0) {
+        return validationFailed(c, { cardGrades: 'No valid card grades provided' })
+      }
+      grade = aggregateGrades(gradedCards)
+      const reviewedAt = new Date().toISOString()
+      cards = cards.map((card: any) => cardGrades[card.id] && isRecallGrade(cardGrades[card.id])
+        ? { ...card, lastGrade: cardGrades[card.id], lastReviewedAt: reviewedAt }
+        : card
+      )
+    }
+
+    if (!isRecallGrade(grade)) {
+      return validationFailed(c, { grade: 'Grade must be one of again, hard, good or easy' })
+    }
+
+    const now = new Date()
+    // Reviewing ahead of schedule still reschedules the topic, but only
+    // reviews that were actually due earn XP
+    const wasDue = new Date(review.srs.dueAt).getTime() <= now.getTime()
+    const xpGained = wasDue ? REVIEW_COMPLETION_XP : 0
+
+    const updatedReview = {
+      ...review,
+      ...(cards ? { cards } : {}),
+      srs: scheduleReview(review.srs, grade, now),
+      history: [
+        ...review.history,
+        { reviewedAt: now.toISOString(), grade, previous: review.srs, xpGained }
+      ]
+    }
+    await kv.set(`review:${reviewId}`, updatedReview)
+
+    if (xpGained > 0) {
+      await awardXp(userId!, xpGained, 'review_completed', { type: 'review', id: reviewId })
+    }
+    await refreshAchievements(userId!)
+    
+    return c.json({ success: true, schedule: { ...updatedReview, id: reviewId }, xpGained })
+  } catch (error) {
+    console.error('Error completing review:', error)
+    return c.json({ error: 'Failed to complete review' }, 500)
+  }
+})
+
+// Undoes the most recent review of a topic, restoring its previous schedule
+app.post('/make-server-21b13642/review-uncomplete/:id', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const reviewId = c.req.param('id')
+    
+    const stored = await kv.get(`review:${reviewId}`)
+    if (!stored || stored.userId !== userId) {
+      return c.json({ error: 'Review not found' }, 404)
+    }
+
+    const review = withReviewState(stored)
+    const lastReview = review.history[review.history.length - 1]
+    if (!lastReview?.previous) {
+      return validationFailed(c, { review: 'There is no review to undo' })
+    }
+
+    const updatedReview = {
+      ...review,
+      srs: lastReview.previous,
+      history: review.history.slice(0, -1)
+    }
+    await kv.set(`review:${reviewId}`, updatedReview)
+
+    // Only the undone review's XP goes, not the topic's earlier reviews'
+    const xpGained = lastReview.xpGained > 0 ? -lastReview.xpGained : 0
+    if (xpGained < 0) {
+      await awardXp(userId!, xpGained, 'review_undone', { type: 'review', id: reviewId })
+    }
+    
+    return c.json({ success: true, schedule: { ...updatedReview, id: reviewId }, xpGained })
+  } catch (error) {
+    console.error('Error un-completing review:', error)
+    return c.json({ error: 'Failed to update review' }, 500)
+  }
+})
+
+app.delete('/make-server-21b13642/review-schedule/:id', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const reviewId = c.req.param('id')
     const review = await kv.get(`review:${reviewId}`)
+    
     if (!review || review.userId !== userId) {
       return c.json({ error: 'Review not found' }, 404)
     }
     
-    review.completedReviews.push(reviewDate)
-    await kv.set(`review:${reviewId}`, review)
-    
-    // Award XP
-    const profile = await kv.get(`user_profile:${userId}`)
-    await kv.set(`user_profile:${userId}`, {
-      ...profile,
-      xp: (profile?.xp || 0) + 15
+    await kv.del(`review:${reviewId}`)
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting review schedule:', error)
+    return c.json({ error: 'Failed to delete review schedule' }, 500)
+  }
+})
+
+// One-time import of review schedules that older app versions kept in localStorage
+app.post('/make-server-21b13642/review-schedules/import', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { schedules } = await c.req.json()
+    if (!Array.isArray(schedules)) {
+      return validationFailed(c, { schedules: 'Schedules must be an array' })
+    }
+
+    const migrationKey = `review_migration:${userId}`
+    if (await kv.get(migrationKey)) {
+      return c.json({ success: true, imported: 0, alreadyImported: true })
+    }
+
+    const now = Date.now()
+    const validSchedules = schedules.filter((schedule: any) =>
+      typeof schedule?.topic === 'string' && schedule.topic.trim() && Array.isArray(schedule.reviews)
+    )
+    const keys = validSchedules.map((_: any, index: number) => `review:${userId}:${now + index}`)
+    const values = validSchedules.map((schedule: any) => {
+      const reviews = schedule.reviews.filter((r: any) => typeof r === 'string').sort()
+      return withReviewState({
+        userId,
+        subject: schedule.subject || '',
+        topic: schedule.topic.trim(),
+        studiedAt: schedule.studiedAt || new Date().toISOString(),
+        reviews,
+        completedReviews: (schedule.completedReviews || []).filter((r: string) => reviews.includes(r)),
+        createdAt: schedule.createdAt || new Date().toISOString(),
+        importedFrom: 'localStorage'
+      })
     })
+
+    if (keys.length > 0) {
+      await kv.mset(keys, values)
+    }
+    await kv.set(migrationKey, { importedAt: new Date().toISOString(), count: keys.length })
     
-    return c.json({ success: true })
+    return c.json({ success: true, imported: keys.length })
   } catch (error) {
-    console.error('Error completing review:', error)
-    return c.json({ error: 'Failed to complete review' }, 500)
+    console.error('Error importing review schedules:', error)
+    return c.json({ error: 'Failed to import review schedules' }, 500)
+  }
+})
+
+// ============= FLASHCARD ROUTES =============
+
+// Flashcards live inside their topic's review schedule record
+
+app.post('/make-server-21b13642/review-schedule/:id/card', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const reviewId = c.req.param('id')
+    const { value: cardData, fieldErrors } = readPayload(flashcardSchema, await c.req.json())
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
+    const review = await kv.get(`review:${reviewId}`)
+    if (!review || review.userId !== userId) {
+      return c.json({ error: 'Review not found' }, 404)
+    }
+
+    const card = { id: crypto.randomUUID(), ...cardData, createdAt: new Date().toISOString() }
+    const updatedReview = withReviewState({ ...review, cards: [...(review.cards || []), card] })
+    await kv.set(`review:${reviewId}`, updatedReview)
+
+    return c.json({ success: true, card, schedule: { ...updatedReview, id: reviewId } })
+  } catch (error) {
+    console.error('Error creating flashcard:', error)
+    return c.json({ error: 'Failed to create flashcard' }, 500)
+  }
+})
+
+app.put('/make-server-21b13642/review-schedule/:id/card/:cardId', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const reviewId = c.req.param('id')
+    const cardId = c.req.param('cardId')
+    const { value: cardData, fieldErrors } = readPayload(flashcardSchema, await c.req.json())
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
+    const review = await kv.get(`review:${reviewId}`)
+    if (!review || review.userId !== userId) {
+      return c.json({ error: 'Review not found' }, 404)
+    }
+
+    const card = (review.cards || []).find((card: any) => card.id === cardId)
+    if (!card) {
+      return c.json({ error: 'Flashcard not found' }, 404)
+    }
+
+    const updatedCard = { ...card, ...cardData, updatedAt: new Date().toISOString() }
+    const updatedReview = withReviewState({
+      ...review,
+      cards: review.cards.map((existing: any) => existing.id === cardId ? updatedCard : existing)
+    })
+    await kv.set(`review:${reviewId}`, updatedReview)
+
+    return c.json({ success: true, card: updatedCard, schedule: { ...updatedReview, id: reviewId } })
+  } catch (error) {
+    console.error('Error updating flashcard:', error)
+    return c.json({ error: 'Failed to update flashcard' }, 500)
+  }
+})
+
+app.delete('/make-server-21b13642/review-schedule/:id/card/:cardId', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const reviewId = c.req.param('id')
+    const cardId = c.req.param('cardId')
+
+    const review = await kv.get(`review:${reviewId}`)
+    if (!review || review.userId !== userId) {
+      return c.json({ error: 'Review not found' }, 404)
+    }
+
+    const updatedReview = withReviewState({
+      ...review,
+      cards: (review.cards || []).filter((card: any) => card.id !== cardId)
+    })
+    await kv.set(`review:${reviewId}`, updatedReview)
+
+    return c.json({ success: true, schedule: { ...updatedReview, id: reviewId } })
+  } catch (error) {
+    console.error('Error deleting flashcard:', error)
+    return c.json({ error: 'Failed to delete flashcard' }, 500)
+  }
+})
+
+const MAX_IMPORTED_CARDS = 5000
+
+// Imports decks parsed on the client (Anki, CSV/TSV) into a subject. A topic
+// that already exists receives only the cards whose front it doesn't have yet.
+app.post('/make-server-21b13642/review-schedules/import-deck', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { subject, topics } = await c.req.json()
+    if (!Array.isArray(topics)) {
+      return validationFailed(c, { topics: 'Topics must be an array' })
+    }
+
+    const cardCount = topics.reduce((sum: number, t: any) => sum + (Array.isArray(t?.cards) ? t.cards.length : 0), 0)
+    if (cardCount > MAX_IMPORTED_CARDS) {
+      return validationFailed(c, { topics: `A deck import is limited to ${MAX_IMPORTED_CARDS} cards` })
+    }
+
+    const subjectName = typeof subject === 'string' ? subject.trim() : ''
+    const existingByTopic = new Map<string, any>()
+    for (const schedule of await listWithIds('review', userId!)) {
+      existingByTopic.set(topicMatchKey(schedule.subject || '', schedule.topic), schedule)
+    }
+
+    const now = new Date()
+    // Pending writes keyed by kv key, so a topic repeated in the upload is
+    // written once
+    const writes = new Map<string, any>()
+    let created = 0
+    let merged = 0
+    let cardsAdded = 0
+    let duplicateCards = 0
+
+    topics.forEach((importedTopic: any, index: number) => {
+      const topic = typeof importedTopic?.topic === 'string' ? importedTopic.topic.trim() : ''
+      if (!topic || !Array.isArray(importedTopic.cards)) return
+
+      const matchKey = topicMatchKey(subjectName, topic)
+      const existing = existingByTopic.get(matchKey)
+      const cards = existing?.cards ? [...existing.cards] : []
+      const seenFronts = new Set(cards.map((card: any) => cardMatchKey(card.front)))
+
+      let added = 0
+      for (const rawCard of importedTopic.cards) {
+        const { value: cardData, fieldErrors } = readPayload(flashcardSchema, { front: rawCard?.front, back: rawCard?.back })
+        if (hasFieldErrors(fieldErrors)) continue
+        if (seenFronts.has(cardMatchKey(cardData.front))) {
+          duplicateCards++
+          continue
+        }
+        seenFronts.add(cardMatchKey(cardData.front))
+        cards.push({ id: crypto.randomUUID(), ...cardData, createdAt: now.toISOString() })
+        added++
+      }
+      if (added === 0) return
+
+      if (existing) {
+        const { id, importedNow, ...record } = existing
+        const updated = withReviewState({ ...record, cards })
+        if (!importedNow && !writes.has(`review:${id}`)) merged++
+        writes.set(`review:${id}`, updated)
+        existingByTopic.set(matchKey, { ...updated, id, importedNow })
+      } else {
+        const id = `${userId}:${now.getTime() + index}`
+        const record = {
+          userId,
+          subject: subjectName,
+          topic,
+          studiedAt: now.toISOString(),
+          srs: createReviewState(now),
+          history: [],
+          cards,
+          createdAt: now.toISOString(),
+          importedFrom: typeof importedTopic.source === 'string' ? importedTopic.source : 'deck'
+        }
+        writes.set(`review:${id}`, record)
+        existingByTopic.set(matchKey, { ...record, id, importedNow: true })
+        created++
+      }
+      cardsAdded += added
+    })
+
+    if (writes.size > 0) {
+      await kv.mset([...writes.keys()], [...writes.values()])
+    }
+
+    return c.json({ success: true, created, merged, cardsAdded, duplicateCards })
+  } catch (error) {
+    console.error('Error importing deck:', error)
+    return c.json({ error: 'Failed to import deck' }, 500)
   }
 })
 
 // ============= DOCUMENT UPLOAD ROUTES =============
 
+// Extracted text is capped so a huge file can't fill the KV store
+const MAX_EXTRACTED_CHARS = 500000
+const TEXT_FILE_PATTERN = /\.(txt|md|markdown|csv|tsv)$/i
+
+// Text of an uploaded file for search, one entry per PDF page. Files that
+// have no readable text give an empty list.
+async function extractDocumentText(file: File, data: Uint8Array): Promise<string[]> {
+  let pages: string[] = []
+  if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) {
+    // Loaded on first use; the PDF parser is large
+    const { extractText, getDocumentProxy } = await import('npm:unpdf')
+    const pdf = await getDocumentProxy(new Uint8Array(data))
+    const { text } = await extractText(pdf, { mergePages: false })
+    pages = text as string[]
+  } else if (file.type.startsWith('text/') || TEXT_FILE_PATTERN.test(file.name)) {
+    pages = [new TextDecoder().decode(data)]
+  }
+
+  let remaining = MAX_EXTRACTED_CHARS
+  return pages.map((page) => {
+    const kept = page.slice(0, Math.max(0, remaining))
+    remaining -= kept.length
+    return kept
+  })
+}
+
 app.post('/make-server-21b13642/upload-document', async (c) => {
   const { error, userId } = await verifyAuth(c.req.raw)
   if (error) return c.json({ error }, 401)
 
   try {
     const formData = await c.req.formData()
-    const file = formData.get('file') as File
-    const title = formData.get('title') as string
-    const description = formData.get('description') as string
-
-    if (!file) {
-      return c.json({ error: 'No file provided' }, 400)
+    const file = formData.get('file')
+    const { value: { title, description, subject }, fieldErrors } = readPayload(documentSchema, {
+      title: formData.get('title'),
+      description: formData.get('description'),
+      subject: formData.get('subject')
+    })
+    if (!(file instanceof File)) {
+      fieldErrors.file = 'No file provided'
+    }
+    if (!(file instanceof File) || hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
     }
 
     const fileExt = file.name.split('.').pop()
@@ -525,32 +1735,32 @@ app.post('/make-server-21b13642/upload-document', async (c) => {
       return c.json({ error: 'Failed to upload file' }, 500)
     }
 
-    // Create signed URL (valid for 1 year)
-    const { data: signedUrlData, error: urlError } = await supabase.storage
-      .from(BUCKET_NAME)
-      .createSignedUrl(fileName, 31536000)
-
-    if (urlError) {
-      console.error('Signed URL error:', urlError)
-      return c.json({ error: 'Failed to create file URL' }, 500)
-    }
-
-    // Store document metadata
+    // Store document metadata. Only the storage path is kept; links to the
+    // file are signed on demand by GET /document/:id/url
     const docId = `${userId}:${Date.now()}`
     await kv.set(`document:${docId}`, {
       userId,
       title,
       description,
+      subject,
       fileName: file.name,
       filePath: fileName,
-      url: signedUrlData.signedUrl,
       createdAt: new Date().toISOString()
     })
 
+    // Indexing is best effort: the upload still succeeds without it
+    try {
+      const pages = await extractDocumentText(file, fileData)
+      if (pages.some(page => page.trim())) {
+        await kv.set(`document_text:${docId}`, { userId, pages })
+      }
+    } catch (extractError) {
+      console.error('Text extraction error:', extractError)
+    }
+
     return c.json({ 
       success: true, 
-      documentId: docId,
-      url: signedUrlData.signedUrl 
+      documentId: docId
     })
   } catch (error) {
     console.error('Error uploading document:', error)
@@ -563,7 +1773,25 @@ app.get('/make-server-21b13642/documents', async (c) => {
   if (error) return c.json({ error }, 401)
 
   try {
-    const documents = await kv.getByPrefix(`document:${userId}:`)
+    const entries = await getEntriesByPrefix(`document:${userId}:`)
+
+    // Documents uploaded before on-demand links stored a year-long signed
+    // URL; drop it from the record the first time it is listed
+    const legacy = entries.filter(({ value }) => 'url' in value)
+    if (legacy.length > 0) {
+      await kv.mset(
+        legacy.map(({ key }) => key),
+        legacy.map(({ value: { url: _url, ...document } }) => document)
+      )
+    }
+
+    const documents = entries.map(({ key, value: { url: _url, ...document } }) => ({
+      ...document,
+      id: key.slice('document:'.length)
+    }))
+    documents.sort((a, b) => 
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )
     return c.json({ documents })
   } catch (error) {
     console.error('Error fetching documents:', error)
@@ -571,4 +1799,665 @@ app.get('/make-server-21b13642/documents', async (c) => {
   }
 })
 
+const DOCUMENT_URL_TTL_SECONDS = 300
+
+app.get('/make-server-21b13642/document/:id/url', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const docId = c.req.param('id')
+    const document = await kv.get(`document:${docId}`)
+
+    if (!document || document.userId !== userId) {
+      return c.json({ error: 'Document not found' }, 404)
+    }
+
+    const { data: signedUrlData, error: urlError } = await supabase.storage
+      .from(BUCKET_NAME)
+      .createSignedUrl(document.filePath, DOCUMENT_URL_TTL_SECONDS)
+
+    if (urlError) {
+      console.error('Signed URL error:', urlError)
+      return c.json({ error: 'Failed to create file URL' }, 500)
+    }
+
+    return c.json({
+      url: signedUrlData.signedUrl,
+      expiresAt: new Date(Date.now() + DOCUMENT_URL_TTL_SECONDS * 1000).toISOString()
+    })
+  } catch (error) {
+    console.error('Error creating document URL:', error)
+    return c.json({ error: 'Failed to create file URL' }, 500)
+  }
+})
+
+app.put('/make-server-21b13642/document/:id', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const docId = c.req.param('id')
+    const { value: updates, fieldErrors } = readPayload(documentSchema, await c.req.json(), { partial: true })
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
+    const document = await kv.get(`document:${docId}`)
+    if (!document || document.userId !== userId) {
+      return c.json({ error: 'Document not found' }, 404)
+    }
+
+    // Only the descriptive fields can change; the stored file stays as is
+    const { url: _url, ...storedDocument } = document
+    const updatedDocument = { ...storedDocument, ...updates }
+    await kv.set(`document:${docId}`, updatedDocument)
+
+    return c.json({ success: true, document: { ...updatedDocument, id: docId } })
+  } catch (error) {
+    console.error('Error updating document:', error)
+    return c.json({ error: 'Failed to update document' }, 500)
+  }
+})
+
+app.delete('/make-server-21b13642/document/:id', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const docId = c.req.param('id')
+    const document = await kv.get(`document:${docId}`)
+
+    if (!document || document.userId !== userId) {
+      return c.json({ error: 'Document not found' }, 404)
+    }
+
+    const { error: removeError } = await supabase.storage
+      .from(BUCKET_NAME)
+      .remove([document.filePath])
+
+    if (removeError) {
+      console.error('Storage remove error:', removeError)
+      return c.json({ error: 'Failed to delete file' }, 500)
+    }
+
+    // Unlink the document from everything that referenced it
+    const linked = await findAttachedRecords(userId!, docId)
+    if (linked.length > 0) {
+      await kv.mset(
+        linked.map(({ key }) => key),
+        linked.map(({ value }) => ({
+          ...value,
+          attachments: value.attachments.filter((a: any) => a.documentId !== docId)
+        }))
+      )
+    }
+
+    await kv.mdel([`document:${docId}`, `document_text:${docId}`])
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting document:', error)
+    return c.json({ error: 'Failed to delete document' }, 500)
+  }
+})
+
+// ============= ATTACHMENT ROUTES =============
+
+// Records that can link to study materials: the route segment used by their
+// other routes, their KV prefix and how to name one in a backlink
+const ATTACHABLE_RECORDS = [
+  { route: 'task', prefix: 'task', label: 'Task', describe: (task: any) => task.title },
+  { route: 'goal', prefix: 'goal', label: 'Goal', describe: (goal: any) => goal.title },
+  { route: 'review-schedule', prefix: 'review', label: 'Revision topic', describe: (schedule: any) => schedule.topic },
+  {
+    route: 'study-record',
+    prefix: 'study_record',
+    label: 'Study session',
+    describe: (record: any) => [record.subject, record.topic].filter(Boolean).join(' – ')
+  },
+]
+
+async function findAttachedRecords(userId: string, docId: string) {
+  const groups = await Promise.all(ATTACHABLE_RECORDS.map(async (type) => {
+    const entries = await getEntriesByPrefix(`${type.prefix}:${userId}:`)
+    return entries
+      .filter(({ value }) => value.attachments?.some((a: any) => a.documentId === docId))
+      .map(entry => ({ ...entry, type }))
+  }))
+  return groups.flat()
+}
+
+ATTACHABLE_RECORDS.forEach(({ route, prefix, label }) => {
+  app.put(`/make-server-21b13642/${route}/:id/attachments`, async (c) => {
+    const { error, userId } = await verifyAuth(c.req.raw)
+    if (error) return c.json({ error }, 401)
+
+    try {
+      const recordId = c.req.param('id')
+      const body = await c.req.json()
+
+      const { attachments, error: attachmentsError } = normalizeAttachments(body.attachments)
+      if (attachmentsError) {
+        return validationFailed(c, { attachments: attachmentsError })
+      }
+
+      const record = await kv.get(`${prefix}:${recordId}`)
+      if (!record || record.userId !== userId) {
+        return c.json({ error: `${label} not found` }, 404)
+      }
+
+      // Only the user's own documents can be linked
+      const documentIds = [...new Set(attachments.map(a => a.documentId))]
+      const documents = documentIds.length > 0
+        ? await kv.mget(documentIds.map(id => `document:${id}`))
+        : []
+      if (documents.some(document => !document || document.userId !== userId)) {
+        return c.json({ error: 'Document not found' }, 404)
+      }
+
+      const updatedRecord = { ...record, attachments }
+      await kv.set(`${prefix}:${recordId}`, updatedRecord)
+
+      return c.json({ success: true, attachments })
+    } catch (error) {
+      console.error(`Error updating ${route} attachments:`, error)
+      return c.json({ error: 'Failed to update attachments' }, 500)
+    }
+  })
+})
+
+app.get('/make-server-21b13642/document/:id/backlinks', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const docId = c.req.param('id')
+    const document = await kv.get(`document:${docId}`)
+
+    if (!document || document.userId !== userId) {
+      return c.json({ error: 'Document not found' }, 404)
+    }
+
+    const linked = await findAttachedRecords(userId!, docId)
+    const backlinks = linked.map(({ key, value, type }) => ({
+      type: type.route,
+      label: type.label,
+      id: key.slice(type.prefix.length + 1),
+      title: type.describe(value) || type.label,
+      pages: value.attachments
+        .filter((a: any) => a.documentId === docId && a.page)
+        .map((a: any) => a.page)
+    }))
+
+    return c.json({ backlinks })
+  } catch (error) {
+    console.error('Error fetching backlinks:', error)
+    return c.json({ error: 'Failed to fetch backlinks' }, 500)
+  }
+})
+
+// ============= REMINDER ROUTES =============
+
+const MAX_REMINDER_IDS = 500
+
+// Every reminder the user has, worked out from their notes, tasks and
+// revision topics, with the stored delivery state pruned to match. Repeating
+// notes whose reminder was delivered move on to their next occurrence first.
+async function loadReminders(userId: string, timeZone: string) {
+  const [storedNotes, tasks, schedules, storedState] = await Promise.all([
+    listWithIds('note', userId),
+    listWithIds('task', userId),
+    listWithIds('review', userId),
+    kv.get(`reminder_state:${userId}`),
+  ])
+  let notes = storedNotes
+  const advanced = storedState ? advanceRecurringNotes(storedNotes, storedState, new Date()) : []
+  if (advanced.length > 0) {
+    await kv.mset(advanced.map(note => `note:${note.id}`), advanced.map(({ id: _id, ...note }) => note))
+    notes = storedNotes.map(note => advanced.find(a => a.id === note.id) || note)
+  }
+  const reminders = collectReminders({ notes, tasks, reviews: schedules.map(withReviewState) }, timeZone)
+  const state = storedState
+    ? pruneReminderState(storedState, reminders, new Date())
+    : createReminderState(new Date())
+  return { reminders, state }
+}
+
+const readTimeZone = (value: unknown) => isValidTimeZone(value) ? value : 'UTC'
+
+app.get('/make-server-21b13642/reminders', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { reminders, state } = await loadReminders(userId!, readTimeZone(c.req.query('timeZone')))
+    await kv.set(`reminder_state:${userId}`, state)
+    return c.json({ reminders: pendingReminders(reminders, state) })
+  } catch (error) {
+    console.error('Error fetching reminders:', error)
+    return c.json({ error: 'Failed to fetch reminders' }, 500)
+  }
+})
+
+// Called by whichever tab or device showed the reminders, so the others
+// don't show them again
+app.post('/make-server-21b13642/reminders/delivered', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { ids } = await c.req.json()
+    if (!Array.isArray(ids) || ids.length > MAX_REMINDER_IDS || !ids.every((id: unknown) => typeof id === 'string')) {
+      return validationFailed(c, { ids: `Ids must be an array of at most ${MAX_REMINDER_IDS} strings` })
+    }
+
+    const stateKey = `reminder_state:${userId}`
+    const state = (await kv.get(stateKey)) || createReminderState(new Date())
+    const deliveredAt = new Date().toISOString()
+    ids.forEach((id: string) => {
+      state.delivered[id] = deliveredAt
+      delete state.snoozed[id]
+    })
+    await kv.set(stateKey, state)
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error marking reminders delivered:', error)
+    return c.json({ error: 'Failed to update reminders' }, 500)
+  }
+})
+
+app.post('/make-server-21b13642/reminders/snooze', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { id, minutes } = await c.req.json()
+    if (typeof id !== 'string' || !id) {
+      return validationFailed(c, { id: 'Reminder id is required' })
+    }
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SNOOZE_MINUTES) {
+      return validationFailed(c, { minutes: `Snooze must be between 1 and ${MAX_SNOOZE_MINUTES} minutes` })
+    }
+
+    const stateKey = `reminder_state:${userId}`
+    const state = (await kv.get(stateKey)) || createReminderState(new Date())
+    const snoozedUntil = new Date(Date.now() + minutes * 60000).toISOString()
+    state.snoozed[id] = snoozedUntil
+    delete state.delivered[id]
+    await kv.set(stateKey, state)
+
+    return c.json({ success: true, snoozedUntil })
+  } catch (error) {
+    console.error('Error snoozing reminder:', error)
+    return c.json({ error: 'Failed to snooze reminder' }, 500)
+  }
+})
+
+// ============= PUSH NOTIFICATION ROUTES =============
+
+// Categories a user can opt into, each off until they turn it on
+const PUSH_CATEGORIES = ['tasks', 'reviews', 'notes', 'streak'] as const
+type PushCategory = typeof PUSH_CATEGORIES[number]
+const REMINDER_PUSH_CATEGORY: { [source in ReminderSource]: PushCategory } = {
+  task: 'tasks',
+  review: 'reviews',
+  note: 'notes',
+}
+// Reminders overdue by more than this are left for the app's missed summary
+// rather than pushed long after the fact
+const PUSH_WINDOW_MS = 60 * 60000
+// More due at once than this are sent as one summary
+const MAX_PUSHES_PER_USER = 3
+// Local hour from which a streak that hasn't been extended today is at risk
+const STREAK_WARNING_HOUR = 19
+const PUSH_TTL_SECONDS = 60 * 60
+
+const readPushPreferences = (stored: any) => Object.fromEntries(
+  PUSH_CATEGORIES.map(category => [category, stored?.[category] === true])
+) as { [category in PushCategory]: boolean }
+
+// Subscription keys are derived from the endpoint, so subscribing the same
+// browser again replaces its record
+async function pushSubscriptionKey(userId: string, endpoint: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(endpoint))
+  const hash = Array.from(new Uint8Array(digest).slice(0, 12), byte => byte.toString(16).padStart(2, '0')).join('')
+  return `push_subscription:${userId}:${hash}`
+}
+
+app.get('/make-server-21b13642/push/config', async (c) => {
+  const { error } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  return c.json({ publicKey: getVapidPublicKey() })
+})
+
+app.post('/make-server-21b13642/push/subscription', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { value: { subscription, timeZone }, fieldErrors } = readPayload(pushSubscriptionSchema, await c.req.json())
+    if (hasFieldErrors(fieldErrors)) {
+      return validationFailed(c, fieldErrors)
+    }
+
+    await kv.set(await pushSubscriptionKey(userId!, subscription.endpoint), {
+      userId,
+      ...subscription,
+      timeZone,
+      createdAt: new Date().toISOString(),
+    })
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error saving push subscription:', error)
+    return c.json({ error: 'Failed to save push subscription' }, 500)
+  }
+})
+
+// Takes the endpoint in the body rather than the path, as it's a full URL
+app.delete('/make-server-21b13642/push/subscription', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const { endpoint } = await c.req.json()
+    if (typeof endpoint !== 'string' || !endpoint) {
+      return validationFailed(c, { endpoint: 'Endpoint is required' })
+    }
+
+    await kv.del(await pushSubscriptionKey(userId!, endpoint))
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting push subscription:', error)
+    return c.json({ error: 'Failed to delete push subscription' }, 500)
+  }
+})
+
+app.get('/make-server-21b13642/push/preferences', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const preferences = await kv.get(`push_preferences:${userId}`)
+    return c.json({ preferences: readPushPreferences(preferences) })
+  } catch (error) {
+    console.error('Error fetching push preferences:', error)
+    return c.json({ error: 'Failed to fetch push preferences' }, 500)
+  }
+})
+
+app.put('/make-server-21b13642/push/preferences', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const updates = await c.req.json()
+    const current = readPushPreferences(await kv.get(`push_preferences:${userId}`))
+    const preferences = { ...current }
+    for (const category of PUSH_CATEGORIES) {
+      if (updates?.[category] === undefined) continue
+      if (typeof updates[category] !== 'boolean') {
+        return validationFailed(c, { [category]: `${category} must be true or false` })
+      }
+      preferences[category] = updates[category]
+    }
+
+    await kv.set(`push_preferences:${userId}`, preferences)
+    return c.json({ success: true, preferences })
+  } catch (error) {
+    console.error('Error updating push preferences:', error)
+    return c.json({ error: 'Failed to update push preferences' }, 500)
+  }
+})
+
+// Works out and sends one user's pushes; returns how many messages went out
+async function dispatchUserPushes(transport: PushTransport, userId: string, subscriptions: any[], now: Date) {
+  const preferences = readPushPreferences(await kv.get(`push_preferences:${userId}`))
+  // The most recently subscribed device decides what "local" means
+  const timeZone = subscriptions.reduce((latest, s) => s.createdAt > latest.createdAt ? s : latest).timeZone
+  const messages: { message: PushMessage; urgency: PushOptions['urgency'] }[] = []
+
+  const { reminders, state } = await loadReminders(userId, timeZone)
+  const due = pendingReminders(reminders, state).filter(reminder =>
+    preferences[REMINDER_PUSH_CATEGORY[reminder.source]]
+      && Date.parse(reminder.dueAt) <= now.getTime()
+      && now.getTime() - Date.parse(reminder.dueAt) <= PUSH_WINDOW_MS
+  )
+  if (due.length > MAX_PUSHES_PER_USER) {
+    messages.push({
+      message: {
+        title: `${due.length} reminders due`,
+        body: due.slice(0, 3).map(reminder => reminder.title).join('\n'),
+        tag: 'due-reminders',
+      },
+      urgency: 'normal',
+    })
+  } else {
+    due.forEach(reminder => messages.push({
+      message: { title: reminder.title, body: reminder.body, tag: reminder.id, data: { reminder } },
+      urgency: 'normal',
+    }))
+  }
+  if (due.length > 0) {
+    // Marked like a page delivery, so an open tab doesn't show them again
+    const deliveredAt = now.toISOString()
+    due.forEach((reminder) => {
+      state.delivered[reminder.id] = deliveredAt
+      delete state.snoozed[reminder.id]
+    })
+  }
+  await kv.set(`reminder_state:${userId}`, state)
+
+  if (preferences.streak) {
+    // Streak days are the profile's time zone's days
+    const profile = await kv.get(`user_profile:${userId}`)
+    const local = zonedParts(now, profile?.timeZone ? readTimeZone(profile.timeZone) : timeZone)
+    const pushState = (await kv.get(`push_state:${userId}`)) || {}
+    if (Number(local.time.slice(0, 2)) >= STREAK_WARNING_HOUR && pushState.streakWarnedOn !== local.date) {
+      const { summary, settings } = await refreshStreak(userId, profile)
+      if (summary.atRisk) {
+        const minutesLeft = settings.minimumMinutes - summary.todayMinutes
+        messages.push({
+          message: {
+            title: `Your ${summary.current}-day streak is at risk`,
+            body: summary.freezes > 0
+              ? `Study ${minutesLeft} more minutes before midnight, or a streak freeze will be used`
+              : `Study ${minutesLeft} more minutes before midnight to keep it going`,
+            tag: 'streak-at-risk',
+          },
+          urgency: 'high',
+        })
+        await kv.set(`push_state:${userId}`, { ...pushState, streakWarnedOn: local.date })
+      }
+    }
+  }
+
+  let sent = 0
+  const expired = new Set<string>()
+  for (const { message, urgency } of messages) {
+    const result = await sendToSubscriptions(transport, subscriptions, message, { ttl: PUSH_TTL_SECONDS, urgency })
+    sent += result.sent
+    result.expired.forEach(endpoint => expired.add(endpoint))
+  }
+  if (expired.size > 0) {
+    await kv.mdel(await Promise.all([...expired].map(endpoint => pushSubscriptionKey(userId, endpoint))))
+  }
+  return sent
+}
+
+// Compares digests of the two in full rather than stopping at the first
+// difference, so how long it takes says nothing about a guessed secret
+async function secretsMatch(given: string, secret: string) {
+  const digest = async (value: string) =>
+    new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)))
+  const [a, b] = await Promise.all([digest(given), digest(secret)])
+  let difference = 0
+  for (let i = 0; i < a.length; i++) difference |= a[i] ^ b[i]
+  return difference === 0
+}
+
+// Run every few minutes by a scheduler (pg_cron with pg_net, or any cron
+// that can POST) with the service role key as its bearer token
+app.post('/make-server-21b13642/push/dispatch', async (c) => {
+  const token = c.req.header('Authorization')?.split(' ')[1]
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!token || !serviceRoleKey || !(await secretsMatch(token, serviceRoleKey))) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const transport = createPushTransport()
+  if (!transport) {
+    return c.json({ error: 'Push notifications are not configured' }, 503)
+  }
+
+  try {
+    const subscriptions = await kv.getByPrefix('push_subscription:')
+    const byUser = new Map<string, any[]>()
+    // Subscriptions saved before endpoints were held to the push services
+    // are never posted to
+    subscriptions.filter((subscription: any) => isPushEndpoint(subscription.endpoint)).forEach((subscription: any) => {
+      byUser.set(subscription.userId, [...(byUser.get(subscription.userId) || []), subscription])
+    })
+
+    const now = new Date()
+    let sent = 0
+    for (const [userId, userSubscriptions] of byUser) {
+      try {
+        sent += await dispatchUserPushes(transport, userId, userSubscriptions, now)
+      } catch (error) {
+        // One user's bad data shouldn't stop everyone else's pushes
+        console.error(`Error dispatching pushes for ${userId}:`, error)
+      }
+    }
+
+    return c.json({ success: true, users: byUser.size, sent })
+  } catch (error) {
+    console.error('Error dispatching pushes:', error)
+    return c.json({ error: 'Failed to dispatch pushes' }, 500)
+  }
+})
+
+// ============= SEARCH ROUTES =============
+
+const MAX_SEARCH_RESULTS = 50
+
+app.get('/make-server-21b13642/search', async (c) => {
+  const { error, userId } = await verifyAuth(c.req.raw)
+  if (error) return c.json({ error }, 401)
+
+  try {
+    const query = (c.req.query('q') || '').trim()
+    if (!query) {
+      return validationFailed(c, { q: 'Search query is required' })
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return validationFailed(c, { q: `Search query must be at most ${MAX_QUERY_LENGTH} characters` })
+    }
+    const limit = Math.min(MAX_SEARCH_RESULTS, Math.max(1, parseInt(c.req.query('limit') || '') || 20))
+
+    const [tasks, goals, schedules, records, notes, documents, documentTexts] = await Promise.all([
+      listWithIds('task', userId!),
+      listWithIds('goal', userId!),
+      listWithIds('review', userId!),
+      listWithIds('study_record', userId!),
+      listWithIds('note', userId!),
+      listWithIds('document', userId!),
+      listWithIds('document_text', userId!),
+    ])
+
+    const items: SearchableItem[] = [
+      ...tasks.map((task: any) => ({
+        type: 'task' as const,
+        id: task.id,
+        title: task.title,
+        subtitle: task.subject,
+        fields: [
+          { text: task.title, weight: 3 },
+          { text: task.description, weight: 1 },
+          { text: task.subject, weight: 1 },
+        ],
+      })),
+      ...goals.map((goal: any) => ({
+        type: 'goal' as const,
+        id: goal.id,
+        title: goal.title,
+        fields: [
+          { text: goal.title, weight: 3 },
+          { text: goal.description, weight: 1 },
+        ],
+      })),
+      ...schedules.map((schedule: any) => ({
+        type: 'review' as const,
+        id: schedule.id,
+        title: schedule.topic,
+        subtitle: schedule.subject,
+        fields: [
+          { text: schedule.topic, weight: 3 },
+          { text: schedule.subject, weight: 1 },
+          { text: (schedule.cards || []).map((card: any) => `${card.front} ${card.back}`).join(' · '), weight: 1 },
+        ],
+      })),
+      ...records.map((record: any) => ({
+        type: 'study-record' as const,
+        id: record.id,
+        title: [record.subject, record.topic].filter(Boolean).join(': '),
+        subtitle: record.studiedAt || record.startedAt || record.createdAt,
+        fields: [
+          { text: record.topic, weight: 3 },
+          { text: record.subject, weight: 1 },
+          { text: record.notes, weight: 1 },
+        ],
+      })),
+      ...notes.map((note: any) => ({
+        type: 'note' as const,
+        id: note.id,
+        title: note.title,
+        subtitle: note.subject,
+        fields: [
+          { text: note.title, weight: 3 },
+          { text: note.content, weight: 1 },
+          { text: note.subject, weight: 1 },
+        ],
+      })),
+      ...documents.map((document: any) => ({
+        type: 'document' as const,
+        id: document.id,
+        title: document.title || document.fileName,
+        subtitle: document.subject,
+        fields: [
+          { text: document.title, weight: 3 },
+          { text: document.fileName, weight: 2 },
+          { text: document.description, weight: 1 },
+          { text: document.subject, weight: 1 },
+        ],
+      })),
+    ]
+
+    // Each page of a document's text is searched separately so results can
+    // point at the page that matched
+    const documentsById = new Map(documents.map((document: any) => [document.id, document]))
+    documentTexts.forEach((entry: any) => {
+      const document: any = documentsById.get(entry.id)
+      if (!document) return
+      entry.pages.forEach((text: string, index: number) => {
+        items.push({
+          type: 'document',
+          id: entry.id,
+          title: document.title || document.fileName,
+          subtitle: document.subject,
+          page: entry.pages.length > 1 ? index + 1 : undefined,
+          fields: [{ text, weight: 1 }],
+        })
+      })
+    })
+
+    return c.json({ results: searchItems(query, items, limit) })
+  } catch (error) {
+    console.error('Error searching:', error)
+    return c.json({ error: 'Failed to search' }, 500)
+  }
+})
+
 Deno.serve(app.fetch)
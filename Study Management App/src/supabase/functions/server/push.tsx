@@ -0,0 +1,114 @@
+// Web Push delivery. Messages go through a transport so the sender can be
+// swapped: the real one encrypts and signs with VAPID for browser push
+// services, the fake one posts plain JSON to a local endpoint for testing.
+//
+// Configuration (edge function secrets):
+//   VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT  real Web Push
+//   PUSH_FAKE_ENDPOINT                                  send everything to this URL instead
+
+import webpush from 'npm:web-push@3.6.7'
+
+export interface StoredPushSubscription {
+  endpoint: string
+  keys: { p256dh: string; auth: string }
+}
+
+export interface PushMessage {
+  title: string
+  body: string
+  // Notifications with the same tag replace each other
+  tag: string
+  data?: any
+}
+
+export interface PushOptions {
+  // Seconds the push service keeps the message for an offline device
+  ttl: number
+  urgency: 'low' | 'normal' | 'high'
+}
+
+export interface PushTransport {
+  // Resolves to the push service's HTTP status; 404 and 410 mean the
+  // subscription is gone
+  send(subscription: StoredPushSubscription, payload: string, options: PushOptions): Promise<number>
+}
+
+export function webPushTransport(vapid: { subject: string; publicKey: string; privateKey: string }): PushTransport {
+  return {
+    async send(subscription, payload, options) {
+      try {
+        const result = await webpush.sendNotification(subscription, payload, {
+          vapidDetails: vapid,
+          TTL: options.ttl,
+          urgency: options.urgency,
+        })
+        return result.statusCode
+      } catch (error: any) {
+        // web-push throws for any non-2xx response
+        if (typeof error?.statusCode === 'number') return error.statusCode
+        throw error
+      }
+    },
+  }
+}
+
+// Posts each message unencrypted to a test server, which answers with the
+// status code a push service would
+export function fakeEndpointTransport(url: string): PushTransport {
+  return {
+    async send(subscription, payload, options) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endpoint: subscription.endpoint, payload: JSON.parse(payload), ...options }),
+      })
+      return response.status
+    },
+  }
+}
+
+export function getVapidPublicKey() {
+  return Deno.env.get('VAPID_PUBLIC_KEY') || null
+}
+
+// The configured transport, or null when push isn't set up
+export function createPushTransport(): PushTransport | null {
+  const fakeEndpoint = Deno.env.get('PUSH_FAKE_ENDPOINT')
+  if (fakeEndpoint) return fakeEndpointTransport(fakeEndpoint)
+
+  const publicKey = getVapidPublicKey()
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY')
+  if (!publicKey || !privateKey) return null
+  return webPushTransport({
+    subject: Deno.env.get('VAPID_SUBJECT') || 'mailto:admin@example.com',
+    publicKey,
+    privateKey,
+  })
+}
+
+// Sends one message to each of a user's devices. Returns the endpoints the
+// push service no longer knows, so their subscriptions can be deleted.
+export async function sendToSubscriptions(
+  transport: PushTransport,
+  subscriptions: StoredPushSubscription[],
+  message: PushMessage,
+  options: PushOptions
+) {
+  const payload = JSON.stringify(message)
+  const results = await Promise.all(subscriptions.map(async (subscription) => {
+    try {
+      const status = await transport.send(subscription, payload, options)
+      if (status >= 400 && status !== 404 && status !== 410) {
+        console.error(`Push to ${new URL(subscription.endpoint).host} failed with status ${status}`)
+      }
+      return { endpoint: subscription.endpoint, status }
+    } catch (error) {
+      console.error('Error sending push:', error)
+      return { endpoint: subscription.endpoint, status: 0 }
+    }
+  }))
+  return {
+    sent: results.filter(result => result.status >= 200 && result.status < 300).length,
+    expired: results.filter(result => result.status === 404 || result.status === 410).map(result => result.endpoint),
+  }
+}
@@ -0,0 +1,194 @@
+// Achievements, as rules over the user's whole history: each measures some
+// progress towards a target and unlocks once it gets there. Shared by the
+// edge function, which evaluates the rules after anything that can move
+// them and keeps the unlocks on the profile, and the client, which shows
+// them. An unlock is permanent: deleting the sessions behind it later
+// doesn't take it back, and evaluating the rules again never unlocks an
+// achievement twice.
+
+import { computeStreak, type StreakSettings } from './streaks.tsx'
+import { addDays, zonedDateKey } from './timezone.tsx'
+
+export type AchievementId =
+  | 'first_session'
+  | 'streak_7'
+  | 'streak_30'
+  | 'streak_100'
+  | 'hours_100'
+  | 'reviews_50'
+  | 'tasks_cleared_week'
+  | 'subject_mastered'
+
+export interface AchievementDefinition {
+  id: AchievementId
+  title: string
+  description: string
+  // Shown with the progress, e.g. "12 / 50 reviews"
+  unit: string
+}
+
+export interface UnlockedAchievement {
+  id: AchievementId
+  unlockedAt: string
+}
+
+export interface AchievementProgress {
+  id: AchievementId
+  current: number
+  target: number
+  unlockedAt: string | null
+}
+
+// What the rules are measured against, worked out from the user's history
+export interface AchievementStats {
+  sessions: number
+  longestStreak: number
+  studyMinutes: number
+  // Only reviews done when due, the ones that earn XP, so that reviewing a
+  // topic again and again doesn't count
+  reviewsCompleted: number
+  // This week's due tasks, or any earlier week's once one is cleared
+  tasksWeek: { completed: number; due: number; cleared: boolean }
+  // The subject closest to mastered
+  mastery: { subject: string; matureTopics: number; topics: number } | null
+}
+
+// A week only counts as cleared with a few tasks in it
+export const MIN_TASKS_FOR_CLEARED_WEEK = 5
+// A subject is mastered once it has enough topics and every one of them has
+// reached a review interval of three weeks (a "mature" topic in Anki terms)
+export const MIN_TOPICS_FOR_MASTERY = 5
+export const MATURE_INTERVAL_DAYS = 21
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'first_session', title: 'First Steps', description: 'Log your first study session', unit: 'sessions' },
+  { id: 'streak_7', title: 'On a Roll', description: 'Keep a 7-day study streak', unit: 'days' },
+  { id: 'streak_30', title: 'Habit Formed', description: 'Keep a 30-day study streak', unit: 'days' },
+  { id: 'streak_100', title: 'Unstoppable', description: 'Keep a 100-day study streak', unit: 'days' },
+  { id: 'hours_100', title: 'Centurion', description: 'Study for 100 hours in total', unit: 'hours' },
+  { id: 'reviews_50', title: 'Memory Keeper', description: 'Complete 50 revision reviews when they are due', unit: 'reviews' },
+  {
+    id: 'tasks_cleared_week',
+    title: 'Clean Sweep',
+    description: `Complete every task due in a week, with at least ${MIN_TASKS_FOR_CLEARED_WEEK} due`,
+    unit: 'tasks'
+  },
+  {
+    id: 'subject_mastered',
+    title: 'Subject Master',
+    description: `Bring every topic of a subject with ${MIN_TOPICS_FOR_MASTERY} or more topics to a ${MATURE_INTERVAL_DAYS}-day review interval`,
+    unit: 'topics'
+  }
+]
+
+const ACHIEVEMENT_IDS = ACHIEVEMENTS.map(achievement => achievement.id) as string[]
+
+export const getAchievement = (id: AchievementId) => ACHIEVEMENTS.find(achievement => achievement.id === id)!
+
+// Each rule's progress as `current` of `target`; it unlocks when they meet
+const RULES: { [id in AchievementId]: (stats: AchievementStats) => { current: number; target: number } } = {
+  first_session: stats => ({ current: stats.sessions, target: 1 }),
+  streak_7: stats => ({ current: stats.longestStreak, target: 7 }),
+  streak_30: stats => ({ current: stats.longestStreak, target: 30 }),
+  streak_100: stats => ({ current: stats.longestStreak, target: 100 }),
+  hours_100: stats => ({ current: Math.floor(stats.studyMinutes / 60), target: 100 }),
+  reviews_50: stats => ({ current: stats.reviewsCompleted, target: 50 }),
+  tasks_cleared_week: ({ tasksWeek }) => ({
+    current: tasksWeek.completed,
+    target: tasksWeek.cleared ? tasksWeek.due : Math.max(tasksWeek.due, MIN_TASKS_FOR_CLEARED_WEEK)
+  }),
+  subject_mastered: ({ mastery }) => mastery
+    ? { current: mastery.matureTopics, target: Math.max(mastery.topics, MIN_TOPICS_FOR_MASTERY) }
+    : { current: 0, target: MIN_TOPICS_FOR_MASTERY }
+}
+
+// Monday, as in the calendar and planner
+const weekStartOf = (date: string) => addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7))
+
+function tasksWeekStats(tasks: any[], timeZone: string, today: string): AchievementStats['tasksWeek'] {
+  const weeks = new Map<string, { completed: number; due: number }>()
+  for (const task of tasks) {
+    if (!task.dueDate || task.dueDate > addDays(weekStartOf(today), 6)) continue
+    const weekStart = weekStartOf(task.dueDate)
+    const week = weeks.get(weekStart) || { completed: 0, due: 0 }
+    week.due++
+    // Done by the end of the week it was due in
+    if (task.completed && task.completedAt && zonedDateKey(new Date(task.completedAt), timeZone) <= addDays(weekStart, 6)) {
+      week.completed++
+    }
+    weeks.set(weekStart, week)
+  }
+
+  for (const week of weeks.values()) {
+    if (week.due >= MIN_TASKS_FOR_CLEARED_WEEK && week.completed === week.due) {
+      return { ...week, cleared: true }
+    }
+  }
+  return { ...(weeks.get(weekStartOf(today)) || { completed: 0, due: 0 }), cleared: false }
+}
+
+function masteryStats(reviews: any[]): AchievementStats['mastery'] {
+  const subjects = new Map<string, { subject: string; matureTopics: number; topics: number }>()
+  for (const review of reviews) {
+    const key = String(review.subject || '').trim().toLowerCase()
+    if (!key) continue
+    const subject = subjects.get(key) || { subject: review.subject.trim(), matureTopics: 0, topics: 0 }
+    subject.topics++
+    if ((review.srs?.intervalDays || 0) >= MATURE_INTERVAL_DAYS) subject.matureTopics++
+    subjects.set(key, subject)
+  }
+
+  // Closest to mastered: the fewest topics left to mature, then the most topics
+  const remaining = (s: { matureTopics: number; topics: number }) =>
+    Math.max(s.topics, MIN_TOPICS_FOR_MASTERY) - s.matureTopics
+  return [...subjects.values()].sort((a, b) => remaining(a) - remaining(b) || b.topics - a.topics)[0] || null
+}
+
+// `reviews` are review schedules with their review state and history
+export function achievementStats(
+  history: { records: any[]; tasks: any[]; reviews: any[]; streakSettings: StreakSettings },
+  timeZone: string,
+  now: Date
+): AchievementStats {
+  const today = zonedDateKey(now, timeZone)
+  return {
+    sessions: history.records.length,
+    longestStreak: computeStreak(history.records, history.streakSettings, timeZone, now).longest,
+    studyMinutes: history.records.reduce((sum, record) => sum + (Number(record.duration) || 0), 0),
+    reviewsCompleted: history.reviews.reduce((sum, review) =>
+      sum + (review.history || []).filter((entry: any) => entry.xpGained > 0).length, 0),
+    tasksWeek: tasksWeekStats(history.tasks, timeZone, today),
+    mastery: masteryStats(history.reviews)
+  }
+}
+
+// The unlocks kept on a profile; anything that isn't one is dropped
+export function readUnlockedAchievements(value: unknown): UnlockedAchievement[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((item: any) =>
+    ACHIEVEMENT_IDS.includes(item?.id) && typeof item.unlockedAt === 'string'
+  )
+}
+
+// Runs every rule, returning each achievement's progress and the ones that
+// unlock now. Achievements already in `unlocked` keep their unlock date.
+export function evaluateAchievements(
+  stats: AchievementStats,
+  unlocked: UnlockedAchievement[],
+  now: Date
+): { achievements: AchievementProgress[]; newlyUnlocked: UnlockedAchievement[] } {
+  const unlockedAt = new Map(unlocked.map(achievement => [achievement.id, achievement.unlockedAt]))
+  const newlyUnlocked: UnlockedAchievement[] = []
+
+  const achievements = ACHIEVEMENTS.map(({ id }) => {
+    const { current, target } = RULES[id](stats)
+    if (!unlockedAt.has(id) && current >= target) {
+      unlockedAt.set(id, now.toISOString())
+      newlyUnlocked.push({ id, unlockedAt: now.toISOString() })
+    }
+    const at = unlockedAt.get(id) || null
+    return { id, current: at ? target : Math.min(current, target), target, unlockedAt: at }
+  })
+
+  return { achievements, newlyUnlocked }
+}
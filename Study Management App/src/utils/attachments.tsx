@@ -0,0 +1,49 @@
+// Links from tasks, goals, revision topics and study records to uploaded
+// study materials. Shared by the React client and the edge function, which
+// validates the list before storing it on the record.
+
+import { isPlainObject } from './schemas.tsx'
+
+export interface Attachment {
+  documentId: string
+  // 1-based page of a PDF; the whole document when absent
+  page?: number
+}
+
+export const MAX_ATTACHMENTS = 20
+const MAX_PAGE = 10000
+
+export const attachmentKey = (attachment: Attachment) => `${attachment.documentId}#${attachment.page ?? ''}`
+
+export const isSameAttachment = (a: Attachment, b: Attachment) => attachmentKey(a) === attachmentKey(b)
+
+// Checks an attachment list sent by the client; duplicates are dropped and
+// the first problem found is returned
+export function normalizeAttachments(input: unknown): { attachments: Attachment[]; error: string | null } {
+  if (!Array.isArray(input)) {
+    return { attachments: [], error: 'Attachments must be an array' }
+  }
+
+  const attachments: Attachment[] = []
+  const items: unknown[] = input
+  for (const raw of items) {
+    const { documentId, page } = isPlainObject(raw) ? raw : {}
+    if (typeof documentId !== 'string' || !documentId) {
+      return { attachments: [], error: 'Each attachment needs a document' }
+    }
+    const hasPage = page !== undefined && page !== null
+    if (hasPage && (typeof page !== 'number' || !Number.isInteger(page) || page < 1 || page > MAX_PAGE)) {
+      return { attachments: [], error: 'Page must be a positive whole number' }
+    }
+
+    const attachment: Attachment = hasPage ? { documentId, page } : { documentId }
+    if (!attachments.some(existing => isSameAttachment(existing, attachment))) {
+      attachments.push(attachment)
+    }
+  }
+
+  if (attachments.length > MAX_ATTACHMENTS) {
+    return { attachments: [], error: `At most ${MAX_ATTACHMENTS} materials can be linked` }
+  }
+  return { attachments, error: null }
+}
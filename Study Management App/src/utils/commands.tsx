@@ -0,0 +1,148 @@
+// Command palette registry. Section components register the actions they
+// offer when their module loads, so the palette can list them while the
+// section isn't on screen. Running a command switches to the command's
+// Dashboard tab first; the section picks the command up once it has mounted.
+
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+
+export interface AppCommand {
+  id: string
+  title: string
+  group: string
+  // Extra words the command should be found by
+  keywords?: string[]
+  // Dashboard tab the command runs on
+  tab?: string
+  // Set by components that stay mounted and register commands at runtime;
+  // other commands are handled through useCommandHandler
+  run?: () => void
+}
+
+const commands = new Map<string, AppCommand>()
+const listeners = new Set<() => void>()
+let snapshot: AppCommand[] = []
+
+const notify = () => {
+  snapshot = [...commands.values()]
+  listeners.forEach(listener => listener())
+}
+
+// Adds commands to the palette; returns a function that removes them again.
+// Registering an id twice replaces the earlier command.
+export function registerCommands(list: AppCommand[]) {
+  list.forEach(command => commands.set(command.id, command))
+  notify()
+  return () => {
+    list.forEach((command) => {
+      if (commands.get(command.id) === command) commands.delete(command.id)
+    })
+    notify()
+  }
+}
+
+export function useRegisteredCommands() {
+  return useSyncExternalStore(
+    (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    () => snapshot
+  )
+}
+
+// ============= RUNNING COMMANDS =============
+
+const handlers = new Map<string, () => void>()
+// A command whose section wasn't mounted yet when it ran. It is dropped if
+// the section doesn't pick it up soon after the tab switch.
+let pending: { id: string; at: number } | null = null
+const PENDING_TTL_MS = 3000
+
+// Runs `handler` whenever the command runs while the component is mounted,
+// including a run that caused the component to mount
+export function useCommandHandler(id: string, handler: () => void) {
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  useEffect(() => {
+    const run = () => handlerRef.current()
+    handlers.set(id, run)
+    if (pending?.id === id && Date.now() - pending.at < PENDING_TTL_MS) {
+      pending = null
+      run()
+    }
+    return () => {
+      if (handlers.get(id) === run) handlers.delete(id)
+    }
+  }, [id])
+}
+
+export function runCommand(command: AppCommand, navigate: (tab: string) => void) {
+  if (command.tab) navigate(command.tab)
+  const handler = command.run ?? handlers.get(command.id)
+  if (handler) {
+    pending = null
+    handler()
+  } else {
+    pending = { id: command.id, at: Date.now() }
+  }
+}
+
+// ============= MATCHING =============
+
+// Fuzzy match of the query's characters, in order, against the text.
+// Consecutive characters and characters at the start of words score higher;
+// returns null when the text doesn't contain the query as a subsequence.
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, '')
+  const t = text.toLowerCase()
+  if (!q) return 0
+
+  let score = 0
+  let position = -1
+  let previous = -2
+  for (const char of q) {
+    position = t.indexOf(char, position + 1)
+    if (position === -1) return null
+    score += 1
+    if (position === previous + 1) score += 2
+    if (position === 0 || /[\s\-:/]/.test(t[position - 1])) score += 3
+    previous = position
+  }
+  // Prefer shorter texts, where the match covers more of the title
+  return score - t.length * 0.01
+}
+
+export function matchCommand(query: string, command: AppCommand): number | null {
+  const candidates = [command.title, command.group, ...(command.keywords || [])]
+  const scores = candidates
+    .map((text, index) => {
+      const score = fuzzyScore(query, text)
+      // Title matches count fully, others a bit less
+      return score === null ? null : index === 0 ? score : score * 0.8
+    })
+    .filter((score): score is number => score !== null)
+  return scores.length > 0 ? Math.max(...scores) : null
+}
+
+// ============= RECENT COMMANDS =============
+
+const MAX_RECENT = 5
+
+const recentKey = (userId: string) => `command-palette-recent-${userId}`
+
+export function loadRecentCommands(userId: string): string[] {
+  try {
+    const stored = localStorage.getItem(recentKey(userId))
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('Error loading recent commands:', error)
+    return []
+  }
+}
+
+export function saveRecentCommand(userId: string, id: string) {
+  const recent = [id, ...loadRecentCommands(userId).filter(existing => existing !== id)].slice(0, MAX_RECENT)
+  localStorage.setItem(recentKey(userId), JSON.stringify(recent))
+  return recent
+}
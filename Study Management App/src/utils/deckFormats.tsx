@@ -0,0 +1,357 @@
+// Reading and writing flashcard decks in the formats students bring from
+// other apps: Anki packages (.apkg, a zipped SQLite collection) and
+// CSV/TSV files with one "front,back[,topic]" row per card. Everything runs
+// in the browser; the parsed topics are sent to the import-deck route.
+
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url'
+
+export interface DeckCard {
+  front: string
+  back: string
+}
+
+export interface DeckTopic {
+  topic: string
+  cards: DeckCard[]
+  source: 'anki' | 'csv'
+}
+
+export type DeckFormat = 'apkg' | 'csv' | 'tsv'
+
+const FIELD_SEPARATOR = '\x1f'
+const HEADER_FRONTS = ['front', 'question', 'term']
+
+// The zip and SQLite libraries are only needed while importing or exporting,
+// so they are loaded on first use instead of with the app
+async function loadSqlJs() {
+  const { default: initSqlJs } = await import('sql.js')
+  return initSqlJs({ locateFile: () => sqlWasmUrl })
+}
+
+async function loadJSZip() {
+  const { default: JSZip } = await import('jszip')
+  return JSZip
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '').trim() || 'Imported deck'
+
+// Anki fields are HTML; keep the text and line breaks
+function htmlToText(html: string) {
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html')
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>')
+
+// Groups cards by topic, keeping the order topics first appear in
+function groupByTopic(rows: { topic: string; card: DeckCard }[], source: DeckTopic['source']): DeckTopic[] {
+  const topics = new Map<string, DeckTopic>()
+  rows.forEach(({ topic, card }) => {
+    if (!card.front || !card.back) return
+    if (!topics.has(topic)) topics.set(topic, { topic, cards: [], source })
+    topics.get(topic)!.cards.push(card)
+  })
+  return [...topics.values()]
+}
+
+// ============= CSV / TSV =============
+
+// RFC 4180 style: quoted fields may contain delimiters, newlines and "" escapes
+function parseDelimitedRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+export function parseDelimitedDeck(text: string, fileName: string): DeckTopic[] {
+  const content = text.replace(/^\uFEFF/, '')
+  const firstLine = content.split('\n', 1)[0]
+  const delimiter = /\.tsv$/i.test(fileName) || firstLine.includes('\t') ? '\t' : ','
+
+  const rows = parseDelimitedRows(content, delimiter)
+  if (rows.length > 0 && HEADER_FRONTS.includes(rows[0][0]?.trim().toLowerCase())) {
+    rows.shift()
+  }
+
+  const fallbackTopic = baseName(fileName)
+  return groupByTopic(
+    rows.map(([front = '', back = '', topic = '']) => ({
+      topic: topic.trim() || fallbackTopic,
+      card: { front: front.trim(), back: back.trim() }
+    })),
+    'csv'
+  )
+}
+
+const quoteField = (value: string, delimiter: string) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+export function exportDelimitedDeck(topics: DeckTopic[], format: 'csv' | 'tsv'): Blob {
+  const delimiter = format === 'tsv' ? '\t' : ','
+  const lines = [['front', 'back', 'topic'].join(delimiter)]
+  topics.forEach(({ topic, cards }) => {
+    cards.forEach(card => {
+      lines.push([card.front, card.back, topic].map(value => quoteField(value, delimiter)).join(delimiter))
+    })
+  })
+  const mimeType = format === 'tsv' ? 'text/tab-separated-values' : 'text/csv'
+  return new Blob([lines.join('\r\n') + '\r\n'], { type: `${mimeType};charset=utf-8` })
+}
+
+// ============= ANKI PACKAGES =============
+
+export async function parseApkgDeck(data: ArrayBuffer): Promise<DeckTopic[]> {
+  const JSZip = await loadJSZip()
+  const zip = await JSZip.loadAsync(data)
+
+  // Anki 2.1.50+ writes a zstd-compressed collection (anki21b) next to a
+  // placeholder anki2 file; only the uncompressed legacy formats are readable
+  const collectionFile = zip.file('collection.anki21') ?? (zip.file('collection.anki21b') ? null : zip.file('collection.anki2'))
+  if (!collectionFile) {
+    throw new Error('This deck uses the newest Anki format. Export it again with "Support older Anki versions" ticked.')
+  }
+
+  const SQL = await loadSqlJs()
+  const db = new SQL.Database(new Uint8Array(await collectionFile.async('arraybuffer')))
+
+  try {
+    const deckNames = new Map<number, string>()
+    const [colRow] = db.exec('SELECT decks FROM col')
+    const decksJson = colRow?.values[0]?.[0]
+    if (typeof decksJson === 'string' && decksJson.trim().startsWith('{')) {
+      Object.values(JSON.parse(decksJson)).forEach((deck: any) => deckNames.set(Number(deck.id), deck.name))
+    } else {
+      // Schema 18 collections keep decks in their own table
+      const [deckRows] = db.exec('SELECT id, name FROM decks')
+      deckRows?.values.forEach(([id, name]) => deckNames.set(Number(id), String(name).split(FIELD_SEPARATOR).join('::')))
+    }
+
+    // One row per note: a note's first card decides which deck it belongs to
+    const [noteRows] = db.exec(
+      'SELECT n.flds, MIN(c.did) FROM notes n JOIN cards c ON c.nid = n.id GROUP BY n.id ORDER BY n.id'
+    )
+
+    return groupByTopic(
+      (noteRows?.values ?? []).map(([fields, deckId]) => {
+        const [front = '', back = ''] = String(fields).split(FIELD_SEPARATOR)
+        const deckName = deckNames.get(Number(deckId)) || 'Default'
+        return {
+          topic: deckName.split('::').pop()!.trim() || deckName,
+          card: { front: htmlToText(front), back: htmlToText(back) }
+        }
+      }),
+      'anki'
+    )
+  } finally {
+    db.close()
+  }
+}
+
+const ANKI_SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`
+
+const ANKI_DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 }
+}
+
+const ankiDeck = (id: number, name: string, mod: number) => ({
+  id,
+  name,
+  mod,
+  usn: -1,
+  desc: '',
+  dyn: 0,
+  conf: 1,
+  collapsed: false,
+  extendNew: 10,
+  extendRev: 50,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0]
+})
+
+const ankiBasicModel = (id: number, deckId: number, mod: number) => ({
+  id,
+  name: 'Basic (Study Quest)',
+  type: 0,
+  mod,
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tags: [],
+  vers: [],
+  flds: ['Front', 'Back'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  tmpls: [{
+    name: 'Card 1',
+    ord: 0,
+    qfmt: '{{Front}}',
+    afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+    did: null,
+    bqfmt: '',
+    bafmt: ''
+  }],
+  css: '.card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n',
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  req: [[0, 'all', [0]]]
+})
+
+// Anki's duplicate check uses the first 8 hex digits of the SHA-1 of the
+// note's sort field
+async function ankiChecksum(text: string) {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text))
+  const hex = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('')
+  return parseInt(hex.slice(0, 8), 16)
+}
+
+// Builds a package with one sub-deck per topic under a deck named after the
+// subject. Cards are exported as new; review history stays in Study Quest.
+export async function exportApkgDeck(deckName: string, topics: DeckTopic[]): Promise<Blob> {
+  const [SQL, JSZip] = await Promise.all([loadSqlJs(), loadJSZip()])
+  const db = new SQL.Database()
+
+  try {
+    const now = Date.now()
+    const nowSeconds = Math.floor(now / 1000)
+    const rootDeckId = now
+    const modelId = now + 1
+
+    const decks: { [id: string]: any } = {
+      1: ankiDeck(1, 'Default', nowSeconds),
+      [rootDeckId]: ankiDeck(rootDeckId, deckName, nowSeconds)
+    }
+    const topicDeckIds = topics.map((topic, index) => {
+      const deckId = now + 2 + index
+      decks[deckId] = ankiDeck(deckId, `${deckName}::${topic.topic.replace(/::/g, ':')}`, nowSeconds)
+      return deckId
+    })
+
+    db.exec(ANKI_SCHEMA)
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      nowSeconds,
+      now,
+      now,
+      JSON.stringify({ nextPos: 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: 1, newBury: true, newSpread: 0, dueCounts: true, curModel: String(modelId), collapseTime: 1200 }),
+      JSON.stringify({ [modelId]: ankiBasicModel(modelId, rootDeckId, nowSeconds) }),
+      JSON.stringify(decks),
+      JSON.stringify({ 1: ANKI_DECK_CONFIG }),
+      '{}'
+    ])
+
+    // Note and card ids only need to be unique millisecond-style integers
+    let nextId = now
+    let position = 1
+    for (const [topicIndex, topic] of topics.entries()) {
+      for (const card of topic.cards) {
+        const noteId = nextId++
+        const front = escapeHtml(card.front)
+        db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)', [
+          noteId,
+          crypto.randomUUID().replace(/-/g, '').slice(0, 10),
+          modelId,
+          nowSeconds,
+          '',
+          [front, escapeHtml(card.back)].join(FIELD_SEPARATOR),
+          card.front,
+          await ankiChecksum(card.front),
+          ''
+        ])
+        db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, ?)', [
+          nextId++,
+          noteId,
+          topicDeckIds[topicIndex],
+          nowSeconds,
+          position++,
+          ''
+        ])
+      }
+    }
+
+    const zip = new JSZip()
+    zip.file('collection.anki2', db.export())
+    zip.file('media', '{}')
+    return await zip.generateAsync({ type: 'blob', mimeType: 'application/octet-stream' })
+  } finally {
+    db.close()
+  }
+}
+
+export async function parseDeckFile(file: File): Promise<DeckTopic[]> {
+  if (/\.(apkg|colpkg)$/i.test(file.name)) {
+    return parseApkgDeck(await file.arrayBuffer())
+  }
+  if (/\.(csv|tsv|txt)$/i.test(file.name)) {
+    return parseDelimitedDeck(await file.text(), file.name)
+  }
+  throw new Error('Unsupported file type. Use an Anki .apkg, .csv or .tsv file.')
+}
+
+export async function exportDeck(deckName: string, topics: DeckTopic[], format: DeckFormat): Promise<Blob> {
+  return format === 'apkg' ? exportApkgDeck(deckName, topics) : exportDelimitedDeck(topics, format)
+}
@@ -0,0 +1,34 @@
+// Links to uploaded study materials. The server only hands out signed URLs
+// that expire after a few minutes, so they are requested when a file is
+// about to be shown and reused until shortly before they run out.
+
+import { projectId } from './supabase/info'
+
+// Don't hand out a link that may expire while the browser is still loading it
+const EXPIRY_MARGIN_MS = 30 * 1000
+
+const cachedUrls = new Map<string, { url: string; expiresAt: number }>()
+
+export async function getDocumentUrl(accessToken: string, documentId: string): Promise<string> {
+  const cached = cachedUrls.get(documentId)
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached.url
+  }
+
+  const response = await fetch(
+    `https://${projectId}.supabase.co/functions/v1/make-server-21b13642/document/${encodeURIComponent(documentId)}/url`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    }
+  )
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || `Server responded with ${response.status}`)
+  }
+
+  cachedUrls.set(documentId, { url: data.url, expiresAt: new Date(data.expiresAt).getTime() })
+  return data.url
+}
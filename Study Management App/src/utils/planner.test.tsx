@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { freeWindows, generatePlan, type PlannedBlock, type PlannerInput } from './planner'
+import type { TimetableBlock } from './timetable'
+
+const SUBJECTS = ['Chemistry', 'Mathematics', 'Physics']
+
+const commitment = (day: number, start: string, end: string, type: TimetableBlock['type'] = 'school'): TimetableBlock =>
+  ({ id: `${type}-${day}`, day, type, title: type, start, end })
+
+// School on weekdays, and tuition on Tuesday afternoons
+const TIMETABLE = [
+  ...[0, 1, 2, 3, 4].map(day => commitment(day, '09:00', '15:00')),
+  commitment(1, '16:00', '18:00', 'tuition')
+]
+
+// The week of Monday 19 October 2026, planned first thing on the Monday
+const input = (overrides: Partial<PlannerInput> = {}): PlannerInput => ({
+  weekStart: '2026-10-19',
+  today: { date: '2026-10-19', minutes: 0 },
+  timetable: TIMETABLE,
+  tasks: [],
+  reviews: [],
+  records: [],
+  subjects: SUBJECTS,
+  ...overrides
+})
+
+const onDay = (plan: PlannedBlock[], day: number) => plan.filter(block => block.day === day)
+
+describe('freeWindows', () => {
+  it('finds the free stretches between commitments within the day', () => {
+    expect(freeWindows(TIMETABLE, 1)).toEqual([
+      { start: 7 * 60, end: 9 * 60 },
+      { start: 15 * 60, end: 16 * 60 },
+      { start: 18 * 60, end: 22 * 60 }
+    ])
+  })
+
+  it('leaves out gaps too short for a block', () => {
+    const timetable = [commitment(0, '07:20', '15:00')]
+    expect(freeWindows(timetable, 0)).toEqual([{ start: 15 * 60, end: 22 * 60 }])
+  })
+})
+
+describe('generatePlan', () => {
+  it('fills the free time around the timetable', () => {
+    const plan = generatePlan(input())
+    expect(plan.length).toBeGreaterThan(0)
+    plan.forEach((block) => {
+      TIMETABLE.filter(busy => busy.day === block.day).forEach((busy) => {
+        expect(block.end <= busy.start || block.start >= busy.end).toBe(true)
+      })
+    })
+    expect(onDay(plan, 0).map(block => `${block.start}-${block.end}`).slice(0, 3))
+      .toEqual(['07:00-07:45', '07:55-08:40', '15:00-15:45'])
+  })
+
+  it('puts due reviews first, then tasks by priority and deadline, then subjects', () => {
+    const plan = generatePlan(input({
+      tasks: [
+        { id: 'essay', title: 'History essay', subject: '', priority: 'low', dueDate: '2026-10-23', completed: false },
+        { id: 'worksheet', title: 'Physics worksheet', subject: 'Physics', priority: 'high', dueDate: '2026-10-20', completed: false },
+        { id: 'done', title: 'Done already', subject: '', priority: 'high', dueDate: '2026-10-20', completed: true }
+      ],
+      reviews: [{ id: 'r1', subject: 'Chemistry', topic: 'Alkenes', dueDate: '2026-10-19' }]
+    }))
+
+    expect(onDay(plan, 0).map(block => block.title)).toEqual([
+      'Review Alkenes',
+      'Physics worksheet',
+      'Physics worksheet',
+      'Physics worksheet',
+      'History essay',
+      'Study Chemistry',
+      'Study Mathematics',
+      'Study Physics'
+    ])
+    expect(plan.filter(block => block.refIds.includes('done'))).toEqual([])
+  })
+
+  it('never plans a task after its due date', () => {
+    const plan = generatePlan(input({
+      today: { date: '2026-10-21', minutes: 0 },
+      tasks: Array.from({ length: 12 }, (_, i) => ({
+        id: `task-${i}`, title: `Task ${i}`, subject: '', priority: 'high' as const, dueDate: '2026-10-22', completed: false
+      }))
+    }))
+    expect(plan.filter(block => block.kind === 'task' && block.day > 3)).toEqual([])
+  })
+
+  it('studies the least studied subject of the last two weeks first', () => {
+    const plan = generatePlan(input({
+      records: [
+        { subject: 'Chemistry', duration: 60, date: '2026-10-05' },
+        { subject: 'Mathematics', duration: 30, date: '2026-10-18' },
+        // Before the two weeks, so not counted
+        { subject: 'Physics', duration: 600, date: '2026-10-04' }
+      ]
+    }))
+    expect(onDay(plan, 0).map(block => block.subject)).toEqual(['Physics', 'Mathematics', 'Chemistry'])
+  })
+
+  it('gives the same plan for the same input, whatever its order', () => {
+    const tasks = [
+      { id: 'a', title: 'Lab report', subject: 'Chemistry', priority: 'medium' as const, dueDate: '2026-10-22', completed: false },
+      { id: 'b', title: 'Past paper', subject: 'Mathematics', priority: 'medium' as const, dueDate: '2026-10-22', completed: false }
+    ]
+    const reviews = [
+      { id: 'r1', subject: 'Physics', topic: 'Optics', dueDate: '2026-10-20' },
+      { id: 'r2', subject: 'Physics', topic: 'Circuits', dueDate: '2026-10-20' }
+    ]
+    const plan = generatePlan(input({ tasks, reviews }))
+
+    expect(generatePlan(input({ tasks, reviews }))).toEqual(plan)
+    expect(generatePlan(input({ tasks: [...tasks].reverse(), reviews: [...reviews].reverse() }))).toEqual(plan)
+    expect(plan.find(block => block.kind === 'review')).toMatchObject({ day: 1, title: 'Review 2 topics', refIds: ['r2', 'r1'] })
+  })
+
+  it('keeps every block inside the day and after the current time', () => {
+    const plan = generatePlan(input({
+      today: { date: '2026-10-21', minutes: 15 * 60 + 20 },
+      options: { dayStart: '08:00', dayEnd: '20:30' }
+    }))
+    expect(plan.length).toBeGreaterThan(0)
+    plan.forEach((block) => {
+      expect(block.start >= '08:00' && block.end <= '20:30').toBe(true)
+    })
+    expect(plan.filter(block => block.day < 2)).toEqual([])
+    expect(onDay(plan, 2)[0]).toMatchObject({ start: '15:20' })
+  })
+
+  it('dates a week across the end of a month', () => {
+    const plan = generatePlan(input({
+      weekStart: '2026-10-26',
+      today: { date: '2026-10-26', minutes: 0 },
+      reviews: [
+        { id: 'october', subject: 'Physics', topic: 'Optics', dueDate: '2026-10-31' },
+        { id: 'november', subject: 'Physics', topic: 'Circuits', dueDate: '2026-11-01' }
+      ]
+    }))
+    expect(plan.find(block => block.refIds.includes('october'))).toMatchObject({ day: 5, id: '2026-10-31-0' })
+    expect(plan.find(block => block.refIds.includes('november'))).toMatchObject({ day: 6, id: '2026-11-01-0' })
+  })
+
+  it('dates a week across a daylight saving change', () => {
+    // Clocks go forward in Europe on Sunday 29 March and back on 25 October
+    for (const [weekStart, sunday] of [['2026-03-23', '2026-03-29'], ['2026-10-19', '2026-10-25']]) {
+      const plan = generatePlan(input({
+        weekStart,
+        today: { date: weekStart, minutes: 0 },
+        reviews: [{ id: 'sunday', subject: 'Physics', topic: 'Optics', dueDate: sunday }]
+      }))
+      expect(plan.find(block => block.kind === 'review')).toMatchObject({ day: 6, id: `${sunday}-0`, start: '07:00' })
+    }
+  })
+
+  it('moves overdue reviews to today, even from the previous month', () => {
+    const plan = generatePlan(input({
+      weekStart: '2026-10-26',
+      today: { date: '2026-11-01', minutes: 0 },
+      reviews: [{ id: 'late', subject: 'Physics', topic: 'Optics', dueDate: '2026-10-20' }]
+    }))
+    expect(plan.filter(block => block.day < 6)).toEqual([])
+    expect(plan[0]).toMatchObject({ day: 6, kind: 'review', refIds: ['late'] })
+  })
+})
@@ -0,0 +1,270 @@
+// Study planner: fills the free time left by the timetable with concrete
+// study blocks. Generation is a pure function of its input (no clock, no
+// randomness), so the same tasks, reviews and history always give the same
+// plan.
+
+import {
+  availableStudyMinutes,
+  blocksForDay,
+  minutesToTime,
+  timeToMinutes,
+  type TimetableBlock
+} from './timetable'
+import { addDays, dateToDay } from './timezone'
+
+export type PlannedBlockKind = 'review' | 'task' | 'subject'
+
+export interface PlannedBlock {
+  id: string
+  // 0 = Monday ... 6 = Sunday within the planned week
+  day: number
+  start: string
+  end: string
+  kind: PlannedBlockKind
+  title: string
+  subject: string
+  // Task id, or the review schedule ids covered by a revision block
+  refIds: string[]
+}
+
+export interface PlannerTask {
+  id: string
+  title: string
+  subject: string
+  priority: 'low' | 'medium' | 'high'
+  dueDate: string
+  completed: boolean
+}
+
+// Dates below are local calendar dates as YYYY-MM-DD
+export interface PlannerReview {
+  id: string
+  subject: string
+  topic: string
+  dueDate: string
+}
+
+export interface PlannerRecord {
+  subject: string
+  duration: number
+  date: string
+}
+
+export interface PlannerOptions {
+  // Window of the day the planner may use, HH:MM
+  dayStart: string
+  dayEnd: string
+  blockMinutes: number
+  breakMinutes: number
+  // Shortest gap worth turning into a block
+  minBlockMinutes: number
+}
+
+export interface PlannerInput {
+  // Monday of the planned week, YYYY-MM-DD
+  weekStart: string
+  // Local date and minutes since midnight of "now"; earlier slots are skipped
+  today: { date: string; minutes: number }
+  timetable: TimetableBlock[]
+  tasks: PlannerTask[]
+  reviews: PlannerReview[]
+  records: PlannerRecord[]
+  subjects: string[]
+  options?: Partial<PlannerOptions>
+}
+
+export const DEFAULT_PLANNER_OPTIONS: PlannerOptions = {
+  dayStart: '07:00',
+  dayEnd: '22:00',
+  blockMinutes: 45,
+  breakMinutes: 10,
+  minBlockMinutes: 25
+}
+
+const PRIORITY_WEIGHT = { high: 3, medium: 2, low: 1 }
+// Number of blocks a task is expected to take
+const TASK_BLOCKS = { high: 3, medium: 2, low: 1 }
+const NEGLECT_WINDOW_DAYS = 14
+const REVIEW_SCORE = 100
+
+interface Slot {
+  start: number
+  end: number
+}
+
+// Free stretches of the day between timetable commitments
+export function freeWindows(timetable: TimetableBlock[], day: number, options: PlannerOptions = DEFAULT_PLANNER_OPTIONS): Slot[] {
+  const windows: Slot[] = []
+  let cursor = timeToMinutes(options.dayStart)
+  const dayEnd = timeToMinutes(options.dayEnd)
+
+  blocksForDay(timetable, day).forEach((block) => {
+    const start = timeToMinutes(block.start)
+    const end = timeToMinutes(block.end)
+    if (start > cursor) windows.push({ start: cursor, end: Math.min(start, dayEnd) })
+    cursor = Math.max(cursor, end)
+  })
+  if (cursor < dayEnd) windows.push({ start: cursor, end: dayEnd })
+
+  return windows.filter(w => w.end - w.start >= options.minBlockMinutes)
+}
+
+// Cuts free windows into study blocks with short breaks in between
+function slotsForDay(timetable: TimetableBlock[], day: number, notBefore: number, options: PlannerOptions): Slot[] {
+  const slots: Slot[] = []
+  freeWindows(timetable, day, options).forEach((window) => {
+    let cursor = Math.max(window.start, notBefore)
+    while (window.end - cursor >= options.minBlockMinutes) {
+      const end = Math.min(cursor + options.blockMinutes, window.end)
+      slots.push({ start: cursor, end })
+      cursor = end + options.breakMinutes
+    }
+  })
+  return slots
+}
+
+// First free slot on a day that no planned block uses yet, for moving a
+// block onto another day
+export function findOpenSlot(
+  timetable: TimetableBlock[],
+  planned: PlannedBlock[],
+  day: number,
+  options: PlannerOptions = DEFAULT_PLANNER_OPTIONS
+): { start: string; end: string } | null {
+  const taken = planned
+    .filter(block => block.day === day)
+    .map(block => ({ start: timeToMinutes(block.start), end: timeToMinutes(block.end) }))
+  const slot = slotsForDay(timetable, day, 0, options).find(candidate =>
+    taken.every(t => candidate.end <= t.start || candidate.start >= t.end)
+  )
+  return slot ? { start: minutesToTime(slot.start), end: minutesToTime(slot.end) } : null
+}
+
+interface Demand {
+  kind: PlannedBlockKind
+  title: string
+  subject: string
+  refIds: string[]
+  blocksLeft: number
+  // Returns the demand's score on a day, or null when it can't go there
+  scoreOn: (date: string) => number | null
+}
+
+export function generatePlan(input: PlannerInput): PlannedBlock[] {
+  const options = { ...DEFAULT_PLANNER_OPTIONS, ...input.options }
+  const todayDay = dateToDay(input.today.date)
+  const weekDates = Array.from({ length: 7 }, (_, i) => addDays(input.weekStart, i))
+  const demands: Demand[] = []
+
+  // Revision: reviews due on the same day for the same subject share a
+  // block. Overdue reviews are moved to today.
+  const reviewGroups = new Map<string, { date: string; subject: string; reviews: PlannerReview[] }>()
+  input.reviews.forEach((review) => {
+    const date = dateToDay(review.dueDate) < todayDay ? input.today.date : review.dueDate
+    const key = `${date}|${review.subject}`
+    if (!reviewGroups.has(key)) reviewGroups.set(key, { date, subject: review.subject, reviews: [] })
+    reviewGroups.get(key)!.reviews.push(review)
+  })
+  ;[...reviewGroups.entries()].sort(([a], [b]) => a.localeCompare(b)).forEach(([, group]) => {
+    const reviews = [...group.reviews].sort((a, b) => a.topic.localeCompare(b.topic))
+    demands.push({
+      kind: 'review',
+      title: reviews.length === 1 ? `Review ${reviews[0].topic}` : `Review ${reviews.length} topics`,
+      subject: group.subject,
+      refIds: reviews.map(r => r.id),
+      blocksLeft: 1,
+      scoreOn: (date) => date === group.date ? REVIEW_SCORE : null
+    })
+  })
+
+  // Tasks: more important and closer deadlines first; a task can't be
+  // planned after its due date unless it is already overdue
+  input.tasks
+    .filter(task => !task.completed)
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .forEach((task) => {
+      const dueDay = task.dueDate ? dateToDay(task.dueDate) : null
+      const overdue = dueDay !== null && dueDay < todayDay
+      const weight = PRIORITY_WEIGHT[task.priority] ?? PRIORITY_WEIGHT.medium
+      demands.push({
+        kind: 'task',
+        title: task.title,
+        subject: task.subject || '',
+        refIds: [task.id],
+        blocksLeft: TASK_BLOCKS[task.priority] ?? TASK_BLOCKS.medium,
+        scoreOn: (date) => {
+          if (dueDay === null) return weight
+          const daysLeft = dueDay - dateToDay(date)
+          if (daysLeft < 0 && !overdue) return null
+          return (weight * 10) / (Math.max(daysLeft, 0) + 1)
+        }
+      })
+    })
+
+  // Subjects: the less a subject was studied recently, the higher it ranks.
+  // Planned blocks count as studied so the subjects take turns.
+  const windowStart = todayDay - NEGLECT_WINDOW_DAYS
+  const studiedMinutes = new Map<string, number>(input.subjects.map(subject => [subject, 0]))
+  input.records.forEach((record) => {
+    const recordDay = dateToDay(record.date)
+    if (studiedMinutes.has(record.subject) && recordDay >= windowStart && recordDay <= todayDay) {
+      studiedMinutes.set(record.subject, studiedMinutes.get(record.subject)! + (record.duration || 0))
+    }
+  })
+
+  const plan: PlannedBlock[] = []
+
+  weekDates.forEach((date, day) => {
+    const dayNumber = dateToDay(date)
+    if (dayNumber < todayDay) return
+
+    const notBefore = dayNumber === todayDay ? input.today.minutes : 0
+    let budget = availableStudyMinutes(input.timetable, day)
+    const subjectsToday = new Set<string>()
+
+    slotsForDay(input.timetable, day, notBefore, options).forEach((slot, slotIndex) => {
+      const length = slot.end - slot.start
+      if (budget < options.minBlockMinutes) return
+
+      // Highest score wins; ties go to the demand added first
+      let best: Demand | null = null
+      let bestScore = -Infinity
+      for (const demand of demands) {
+        if (demand.blocksLeft <= 0) continue
+        const score = demand.scoreOn(date)
+        if (score !== null && score > bestScore) {
+          best = demand
+          bestScore = score
+        }
+      }
+
+      let block: Omit<PlannedBlock, 'id' | 'day' | 'start' | 'end'> | null = null
+      if (best) {
+        best.blocksLeft--
+        block = { kind: best.kind, title: best.title, subject: best.subject, refIds: best.refIds }
+      } else {
+        // Nothing urgent: study the most neglected subject not yet planned today
+        const subject = [...studiedMinutes.entries()]
+          .filter(([name]) => !subjectsToday.has(name))
+          .sort(([nameA, a], [nameB, b]) => a - b || nameA.localeCompare(nameB))[0]?.[0]
+        if (subject !== undefined) {
+          studiedMinutes.set(subject, studiedMinutes.get(subject)! + length)
+          subjectsToday.add(subject)
+          block = { kind: 'subject', title: `Study ${subject}`, subject, refIds: [] }
+        }
+      }
+
+      if (!block) return
+      budget -= length
+      plan.push({
+        id: `${date}-${slotIndex}`,
+        day,
+        start: minutesToTime(slot.start),
+        end: minutesToTime(slot.end),
+        ...block
+      })
+    })
+  })
+
+  return plan
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { parseQuickAdd, type QuickAddOptions } from './quickAdd'
+
+// Wednesday 21 October 2026, 11:00 in London (BST)
+const NOW = new Date('2026-10-21T10:00:00Z')
+const SUBJECTS = ['Physics', 'Chemistry', 'Mathematics']
+
+const parse = (input: string, options: Partial<QuickAddOptions> = {}) =>
+  parseQuickAdd(input, { now: NOW, timeZone: 'Europe/London', subjects: SUBJECTS, ...options })
+
+describe('parseQuickAdd', () => {
+  it('reads a task with a weekday, subject and priority', () => {
+    expect(parse('Physics worksheet ch.4 due fri !high')).toEqual({
+      kind: 'task',
+      title: 'Physics worksheet ch.4',
+      subject: 'Physics',
+      priority: 'high',
+      date: '2026-10-23',
+      time: null,
+      recurrence: null
+    })
+  })
+
+  it('reads a reminder with a day and time', () => {
+    expect(parse('remind me to revise organic chem tomorrow 7pm')).toMatchObject({
+      kind: 'reminder',
+      title: 'Revise organic chem',
+      subject: 'Chemistry',
+      date: '2026-10-22',
+      time: '19:00'
+    })
+  })
+
+  it('gives a reminder without a time the default time', () => {
+    expect(parse('remind me to email my tutor on fri')).toMatchObject({ date: '2026-10-23', time: '09:00' })
+  })
+
+  describe('"sat" and "sun"', () => {
+    it('keeps them as words when nothing marks them as days', () => {
+      expect(parse('Book SAT practice test')).toMatchObject({ title: 'Book SAT practice test', date: null })
+      expect(parse('Read about the sun')).toMatchObject({ title: 'Read about the sun', date: null })
+    })
+
+    it('reads them as days after "due", "on" or "next"', () => {
+      expect(parse('Essay due sun').date).toBe('2026-10-25')
+      expect(parse('Lab report on sat').date).toBe('2026-10-24')
+      expect(parse('Mock exam next sat').date).toBe('2026-10-31')
+    })
+  })
+
+  describe('repeats', () => {
+    it('starts "every day 7am" tomorrow when said after 7am', () => {
+      expect(parse('Revise vocab every day 7am')).toMatchObject({
+        title: 'Revise vocab',
+        date: '2026-10-22',
+        time: '07:00',
+        recurrence: { frequency: 'daily', weekdays: [] }
+      })
+    })
+
+    it('starts "every day 7am" today when said before 7am', () => {
+      const early = new Date('2026-10-21T05:00:00Z')
+      expect(parse('Revise vocab every day 7am', { now: early }).date).toBe('2026-10-21')
+    })
+
+    it('starts weekly repeats on the first of their days', () => {
+      expect(parse('Maths homework every mon and thu')).toMatchObject({
+        date: '2026-10-22',
+        recurrence: { frequency: 'weekly', weekdays: [1, 4] }
+      })
+    })
+  })
+
+  describe('bare hours', () => {
+    it('takes "at 3" as the afternoon', () => {
+      expect(parse('Call study group at 3')).toMatchObject({ title: 'Call study group', date: '2026-10-21', time: '15:00' })
+    })
+
+    it('keeps hours from 8 as they are, moving past times to tomorrow', () => {
+      expect(parse('Flashcards at 9')).toMatchObject({ date: '2026-10-22', time: '09:00' })
+    })
+
+    it('ignores numbers without "at"', () => {
+      expect(parse('Read chapter 3')).toMatchObject({ title: 'Read chapter 3', time: null, date: null })
+    })
+  })
+
+  describe('dates without a year', () => {
+    it('uses this year while the date is still to come', () => {
+      expect(parse('Physics exam 30 oct').date).toBe('2026-10-30')
+    })
+
+    it('rolls over to next year once the date has passed', () => {
+      expect(parse('Physics exam 4 May').date).toBe('2027-05-04')
+      expect(parse('Physics exam oct 20').date).toBe('2027-10-20')
+    })
+
+    it('rolls over at the end of the year', () => {
+      const newYearsEve = new Date('2026-12-31T12:00:00Z')
+      expect(parse('Term starts jan 2', { now: newYearsEve }).date).toBe('2027-01-02')
+      expect(parse('Pack bag tomorrow', { now: newYearsEve }).date).toBe('2027-01-01')
+    })
+
+    it('rejects dates that don\'t exist', () => {
+      expect(parse('Deadline 31 april').date).toBeNull()
+    })
+  })
+
+  describe('time zones', () => {
+    // 23:30 UTC is already the next morning in Tokyo
+    const lateUtc = new Date('2026-10-21T23:30:00Z')
+
+    it('reads "today" and "tomorrow" in the user\'s time zone', () => {
+      expect(parse('Revise today', { now: lateUtc, timeZone: 'Asia/Tokyo' }).date).toBe('2026-10-22')
+      expect(parse('Revise today', { now: lateUtc, timeZone: 'America/New_York' }).date).toBe('2026-10-21')
+      expect(parse('Revise tomorrow', { now: lateUtc, timeZone: 'Asia/Tokyo' }).date).toBe('2026-10-23')
+    })
+
+    it('compares a bare time with the clock in the user\'s time zone', () => {
+      // 08:30 in Tokyo, 19:30 in New York
+      expect(parse('Quiz at 9', { now: lateUtc, timeZone: 'Asia/Tokyo' }).date).toBe('2026-10-22')
+      expect(parse('Quiz at 9', { now: lateUtc, timeZone: 'America/New_York' }).date).toBe('2026-10-22')
+    })
+  })
+})
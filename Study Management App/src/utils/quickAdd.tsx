@@ -0,0 +1,425 @@
+// Natural-language quick add: turns a phrase such as
+// "Physics worksheet ch.4 due fri !high" or
+// "remind me to revise organic chem tomorrow 7pm" into the fields of a task
+// or a reminder. Parsing is a pure function of the text, the current time,
+// the user's time zone and subjects, so it behaves the same everywhere.
+//
+// Recognised parts are cut out of the text and what's left becomes the
+// title. Only the first date, time, repeat and priority marker are used;
+// anything else stays in the title for the user to correct in the preview.
+
+import { addDays, zonedParts } from './timezone'
+import type { Recurrence } from './recurrence'
+
+export type QuickAddKind = 'task' | 'reminder'
+export type QuickAddPriority = 'low' | 'medium' | 'high'
+
+export interface QuickAddOptions {
+  now: Date
+  timeZone: string
+  subjects: string[]
+}
+
+export interface QuickAddResult {
+  kind: QuickAddKind
+  title: string
+  // One of the given subjects, or null when none was mentioned
+  subject: string | null
+  // Null when the text has no priority marker
+  priority: QuickAddPriority | null
+  // Calendar date (YYYY-MM-DD) and wall-clock time (HH:MM) in the time zone
+  date: string | null
+  time: string | null
+  // "every mon and thu" and the like; the server fills in the rest of the rule
+  recurrence: Pick<Recurrence, 'frequency' | 'weekdays'> | null
+}
+
+// Reminders given a day but no time go off at this time
+export const DEFAULT_REMINDER_TIME = '09:00'
+
+// Times used for "tonight", "tomorrow morning" and the like
+const DAY_PART_TIMES: { [part: string]: string } = {
+  morning: '09:00',
+  afternoon: '14:00',
+  evening: '19:00',
+  tonight: '20:00'
+}
+
+const REMINDER_PREFIX = /^\s*(?:remind(?:\s+me)?(?:\s+to)?|reminder:?|remember\s+to)\s+/i
+
+// ============= PRIORITY =============
+
+const PRIORITY_NAMES: { [name: string]: QuickAddPriority } = {
+  high: 'high',
+  h: 'high',
+  urgent: 'high',
+  important: 'high',
+  medium: 'medium',
+  med: 'medium',
+  m: 'medium',
+  normal: 'medium',
+  low: 'low',
+  l: 'low'
+}
+
+// "!high", "!med", "!low" (or "!h", "!m", "!l"), or bare bangs where more
+// means more urgent: "!" low, "!!" medium, "!!!" high
+const PRIORITY_PATTERN = /(?<!\S)(!{1,3})([a-z]*)(?!\S)/i
+const PRIORITY_BY_BANGS: QuickAddPriority[] = ['low', 'medium', 'high']
+
+// ============= DATES =============
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+const WEEKDAY_PATTERN = 'sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?'
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const MONTH_PATTERN = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?'
+
+const NUMBER_WORDS: { [word: string]: number } = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+}
+
+// Words such as "due" or "by" in front of a date are cut out with it
+const DATE_LEAD = '(?:(?:due|by|on|for|before)\\s+)?'
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const weekdayIndex = (name: string) => WEEKDAYS.indexOf(name.slice(0, 3).toLowerCase())
+
+// Monday-based position in the week, 0 = Monday ... 6 = Sunday
+const mondayIndex = (weekday: number) => (weekday + 6) % 7
+
+function calendarDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  // Rejects dates such as 31 April that roll over into the next month
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return `${year}-${pad(month)}-${pad(day)}`
+}
+
+// A day and month without a year means the next time that date comes round
+function upcomingDate(today: string, month: number, day: number, year?: number) {
+  if (year) return calendarDate(year, month, day)
+  const thisYear = parseInt(today.slice(0, 4))
+  const date = calendarDate(thisYear, month, day)
+  if (date && date >= today) return date
+  return calendarDate(thisYear + 1, month, day)
+}
+
+interface DateRule {
+  pattern: RegExp
+  // Returns the date, or null when the match isn't a real date
+  resolve: (match: RegExpExecArray, today: string, weekday: number) => { date: string; dayPart?: string } | null
+}
+
+const DATE_RULES: DateRule[] = [
+  {
+    pattern: new RegExp(`\\b${DATE_LEAD}(?:the\\s+)?day\\s+after\\s+tomorrow\\b`, 'i'),
+    resolve: (_, today) => ({ date: addDays(today, 2) })
+  },
+  {
+    pattern: new RegExp(`\\b${DATE_LEAD}(today|tonight|tomorrow|tmrw?|tmr)\\b`, 'i'),
+    resolve: (match, today) => {
+      const word = match[1].toLowerCase()
+      if (word === 'today') return { date: today }
+      if (word === 'tonight') return { date: today, dayPart: 'tonight' }
+      return { date: addDays(today, 1) }
+    }
+  },
+  {
+    pattern: new RegExp(`\\b${DATE_LEAD}in\\s+(\\d{1,3}|an?|one|two|three|four|five|six|seven|eight|nine|ten)\\s+(days?|weeks?)\\b`, 'i'),
+    resolve: (match, today) => {
+      const count = NUMBER_WORDS[match[1].toLowerCase()] ?? parseInt(match[1])
+      const days = match[2].toLowerCase().startsWith('week') ? count * 7 : count
+      return { date: addDays(today, days) }
+    }
+  },
+  {
+    // The start of next week, i.e. the coming Monday
+    pattern: new RegExp(`\\b${DATE_LEAD}next\\s+week\\b`, 'i'),
+    resolve: (_, today, weekday) => ({ date: addDays(today, 7 - mondayIndex(weekday)) })
+  },
+  {
+    pattern: new RegExp(`\\b${DATE_LEAD}(?:this\\s+)?weekend\\b`, 'i'),
+    resolve: (_, today, weekday) => ({ date: weekday === 0 ? today : addDays(today, 6 - weekday) })
+  },
+  {
+    // "fri" and "this fri" are the coming Friday, today included;
+    // "next fri" is the Friday of next week
+    pattern: new RegExp(`\\b(${DATE_LEAD})(this\\s+|next\\s+)?(${WEEKDAY_PATTERN})\\b\\.?`, 'i'),
+    resolve: (match, today, weekday) => {
+      // "SAT" and "sun" are usually not days unless something says they are
+      if (/^(sat|sun)$/i.test(match[3]) && !match[1] && !match[2]) return null
+      const target = weekdayIndex(match[3])
+      if (match[2]?.trim().toLowerCase() === 'next') {
+        const nextMonday = 7 - mondayIndex(weekday)
+        return { date: addDays(today, nextMonday + mondayIndex(target)) }
+      }
+      return { date: addDays(today, (target - weekday + 7) % 7) }
+    }
+  },
+  {
+    pattern: new RegExp(`\\b${DATE_LEAD}(\\d{4})-(\\d{2})-(\\d{2})\\b`, 'i'),
+    resolve: (match) => {
+      const date = calendarDate(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]))
+      return date ? { date } : null
+    }
+  },
+  {
+    // "4 May", "4th of may 2026"
+    pattern: new RegExp(`\\b${DATE_LEAD}(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})\\b\\.?(?:,?\\s+(\\d{4})\\b)?`, 'i'),
+    resolve: (match, today) => {
+      const month = MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()) + 1
+      const date = upcomingDate(today, month, parseInt(match[1]), match[3] ? parseInt(match[3]) : undefined)
+      return date ? { date } : null
+    }
+  },
+  {
+    // "May 4", "may 4th, 2026"
+    pattern: new RegExp(`\\b${DATE_LEAD}(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'i'),
+    resolve: (match, today) => {
+      const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1
+      const date = upcomingDate(today, month, parseInt(match[2]), match[3] ? parseInt(match[3]) : undefined)
+      return date ? { date } : null
+    }
+  }
+]
+
+// ============= REPEATS =============
+
+// "every day", "every weekday", "every week", "every month", "every mon",
+// "each tuesday and thursday"
+const REPEAT_PATTERN = new RegExp(
+  `\\b(?:every|each)\\s+(?:(day|weekday|week|month)|((?:${WEEKDAY_PATTERN})s?(?:\\s*(?:,|and|&)\\s*(?:${WEEKDAY_PATTERN})s?)*))\\b`,
+  'i'
+)
+
+// The rule a repeat phrase stands for and the first date it falls on,
+// today included
+function resolveRepeat(match: RegExpExecArray, today: string, weekday: number) {
+  if (match[2]) {
+    const weekdays = [...new Set(
+      [...match[2].matchAll(new RegExp(WEEKDAY_PATTERN, 'gi'))].map(day => weekdayIndex(day[0]))
+    )].sort((a, b) => a - b)
+    const daysAway = Math.min(...weekdays.map(day => (day - weekday + 7) % 7))
+    return { recurrence: { frequency: 'weekly' as const, weekdays }, date: addDays(today, daysAway) }
+  }
+  const unit = match[1].toLowerCase()
+  if (unit === 'weekday') {
+    const daysAway = weekday === 6 ? 2 : weekday === 0 ? 1 : 0
+    return { recurrence: { frequency: 'weekdays' as const, weekdays: [] }, date: addDays(today, daysAway) }
+  }
+  const frequency = unit === 'day' ? 'daily' as const : unit === 'week' ? 'weekly' as const : 'monthly' as const
+  return { recurrence: { frequency, weekdays: [] }, date: today }
+}
+
+// ============= TIMES =============
+
+interface TimeRule {
+  pattern: RegExp
+  resolve: (match: RegExpExecArray) => string | null
+}
+
+const TIME_RULES: TimeRule[] = [
+  {
+    // "7pm", "7:30 pm", "at 11am"
+    pattern: /(?:\bat\s+|@\s*)?\b(\d{1,2})(?:[:.](\d{2}))?\s*([ap])\.?m\b\.?/i,
+    resolve: (match) => {
+      const hour = parseInt(match[1])
+      const minute = match[2] ? parseInt(match[2]) : 0
+      if (hour < 1 || hour > 12 || minute > 59) return null
+      const isPm = match[3].toLowerCase() === 'p'
+      return `${pad((hour % 12) + (isPm ? 12 : 0))}:${pad(minute)}`
+    }
+  },
+  {
+    // 24-hour clock, "19:00"
+    pattern: /(?:\bat\s+|@\s*)?\b([01]?\d|2[0-3]):([0-5]\d)\b/i,
+    resolve: (match) => `${pad(parseInt(match[1]))}:${match[2]}`
+  },
+  {
+    pattern: /(?:\bat\s+)?\b(?:noon|midday)\b/i,
+    resolve: () => '12:00'
+  },
+  {
+    // A bare hour needs "at" in front. Hours up to 7 are taken as the
+    // afternoon or evening, since nobody studies at 3am on purpose.
+    pattern: /(?:\bat\s+|@\s*)(\d{1,2})(?![\w:.])/i,
+    resolve: (match) => {
+      const hour = parseInt(match[1])
+      if (hour > 23) return null
+      return `${pad(hour >= 1 && hour <= 7 ? hour + 12 : hour)}:00`
+    }
+  }
+]
+
+const DAY_PART_PATTERN = /\b(?:in\s+the\s+|this\s+)?(morning|afternoon|evening)\b/i
+
+// ============= SUBJECTS =============
+
+// Short names students use for subjects; a subject matches a word from its
+// own group
+const SUBJECT_ALIASES = [
+  ['math', 'maths', 'mathematics'],
+  ['chem', 'chemistry'],
+  ['bio', 'biology'],
+  ['phys', 'physics'],
+  ['cs', 'compsci', 'computing', 'computer science'],
+  ['geo', 'geog', 'geography'],
+  ['hist', 'history'],
+  ['econ', 'econs', 'economics'],
+  ['lit', 'literature', 'english literature']
+]
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const wordPattern = (phrase: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu')
+
+// The subject mentioned in the text. A subject's full name beats an alias,
+// which beats an abbreviation of four letters or more ("chem" → Chemistry);
+// among equals the earliest mention wins.
+export function matchSubject(text: string, subjects: string[]): string | null {
+  let best: { subject: string; rank: number; index: number } | null = null
+  const consider = (subject: string, rank: number, index: number) => {
+    if (!best || rank > best.rank || (rank === best.rank && index < best.index)) {
+      best = { subject, rank, index }
+    }
+  }
+
+  const words = [...text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu)]
+
+  subjects.forEach((subject) => {
+    const name = subject.trim().toLowerCase()
+    if (!name) return
+
+    const exact = wordPattern(name).exec(text)
+    if (exact) consider(subject, 3, exact.index)
+
+    SUBJECT_ALIASES.filter(group => group.includes(name)).flat().forEach((alias) => {
+      const match = alias !== name && wordPattern(alias).exec(text)
+      if (match) consider(subject, 2, match.index)
+    })
+
+    const firstWord = name.split(/\s+/)[0]
+    words.forEach((word) => {
+      if (word[0].length >= 4 && word[0].length < firstWord.length && firstWord.startsWith(word[0])) {
+        consider(subject, 1, word.index!)
+      }
+    })
+  })
+
+  return (best as { subject: string } | null)?.subject ?? null
+}
+
+// ============= PARSING =============
+
+// Connecting words left dangling at either end of the title once dates and
+// times are cut out
+const DANGLING_START = /^(?:to|due|by|on|at)\s+/i
+const DANGLING_END = /\s+(?:due|by|on|at|for|before)$/i
+
+function cleanTitle(text: string) {
+  let title = text.replace(/\s+/g, ' ').trim()
+  let previous
+  do {
+    previous = title
+    title = title
+      .replace(DANGLING_START, '')
+      .replace(DANGLING_END, '')
+      .replace(/^[\s,;:–-]+|[\s,;:–-]+$/g, '')
+  } while (title !== previous)
+  return title.charAt(0).toUpperCase() + title.slice(1)
+}
+
+export function parseQuickAdd(input: string, options: QuickAddOptions): QuickAddResult {
+  let rest = input
+  // Recognised parts are blanked rather than removed, so positions of later
+  // matches stay meaningful and neighbouring words don't run together
+  const cut = (match: RegExpExecArray) => {
+    rest = rest.slice(0, match.index) + ' '.repeat(match[0].length) + rest.slice(match.index + match[0].length)
+  }
+
+  let kind: QuickAddKind = 'task'
+  const reminder = REMINDER_PREFIX.exec(rest)
+  if (reminder) {
+    kind = 'reminder'
+    cut(reminder)
+  }
+
+  let priority: QuickAddPriority | null = null
+  const marker = PRIORITY_PATTERN.exec(rest)
+  if (marker) {
+    const named = marker[2] ? PRIORITY_NAMES[marker[2].toLowerCase()] : PRIORITY_BY_BANGS[marker[1].length - 1]
+    if (named) {
+      priority = named
+      cut(marker)
+    }
+  }
+
+  let time: string | null = null
+  for (const rule of TIME_RULES) {
+    const match = rule.pattern.exec(rest)
+    const resolved = match && rule.resolve(match)
+    if (match && resolved) {
+      time = resolved
+      cut(match)
+      break
+    }
+  }
+
+  const now = zonedParts(options.now, options.timeZone)
+  // Read before dates, so the weekdays in "every mon" aren't taken as one date
+  let recurrence: QuickAddResult['recurrence'] = null
+  let repeatStart: string | null = null
+  const repeat = REPEAT_PATTERN.exec(rest)
+  if (repeat) {
+    const resolved = resolveRepeat(repeat, now.date, now.weekday)
+    recurrence = resolved.recurrence
+    repeatStart = resolved.date
+    // "every day 7am" said at 8am starts tomorrow
+    if (repeatStart === now.date && time && time <= now.time) {
+      repeatStart = resolveRepeat(repeat, addDays(now.date, 1), (now.weekday + 1) % 7).date
+    }
+    cut(repeat)
+  }
+
+  let date: string | null = null
+  let dayPart: string | undefined
+  for (const rule of DATE_RULES) {
+    const match = rule.pattern.exec(rest)
+    const resolved = match && rule.resolve(match, now.date, now.weekday)
+    if (match && resolved) {
+      date = resolved.date
+      dayPart = resolved.dayPart
+      cut(match)
+      break
+    }
+  }
+
+  const part = DAY_PART_PATTERN.exec(rest)
+  if (part && (date || !time)) {
+    dayPart = dayPart ?? part[1].toLowerCase()
+    cut(part)
+  }
+  if (!time && dayPart) time = DAY_PART_TIMES[dayPart]
+  if (!date) date = repeatStart
+
+  // A time on its own means the next time the clock shows it
+  if (time && !date) {
+    date = time > now.time ? now.date : addDays(now.date, 1)
+  }
+  if (kind === 'reminder' && date && !time) {
+    time = DEFAULT_REMINDER_TIME
+  }
+
+  const title = cleanTitle(rest)
+  return {
+    kind,
+    title,
+    subject: matchSubject(title, options.subjects),
+    priority,
+    date,
+    time,
+    recurrence
+  }
+}
@@ -0,0 +1,166 @@
+// Repeat rules for tasks and note reminders, modelled on the parts of
+// iCalendar's RRULE that students need: daily, weekdays, weekly on chosen
+// days, monthly, with an optional end date or number of occurrences. Rules
+// work on calendar dates; the caller keeps the time of day.
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly'
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency
+  // Every N days, weeks or months; ignored for weekdays
+  interval: number
+  // Weekly only: days to repeat on, 0 = Sunday
+  weekdays: number[]
+  // Monthly only: day of the month, clamped to the month's last day
+  monthDay: number | null
+  // Last date an occurrence may fall on (YYYY-MM-DD)
+  until: string | null
+  // Total occurrences, including the first
+  count: number | null
+}
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekdays', 'weekly', 'monthly']
+export const MAX_RECURRENCE_INTERVAL = 99
+export const MAX_RECURRENCE_COUNT = 999
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 86400000
+
+const dateToDay = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS)
+const dayToDate = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10)
+// 0 = Sunday, matching Date#getDay
+const weekdayOf = (day: number) => (day + 4) % 7
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+
+// Validates a rule sent by a client. `startDate` is the first occurrence and
+// fills in the weekday or day of the month when the rule leaves them out.
+export function readRecurrence(value: any, startDate: string): { recurrence: Recurrence | null; error: string | null } {
+  if (value === null || value === undefined) return { recurrence: null, error: null }
+  if (typeof value !== 'object' || !RECURRENCE_FREQUENCIES.includes(value.frequency)) {
+    return { recurrence: null, error: `Recurrence frequency must be one of ${RECURRENCE_FREQUENCIES.join(', ')}` }
+  }
+  if (!DATE_PATTERN.test(startDate || '')) {
+    return { recurrence: null, error: 'A repeating item needs a date' }
+  }
+
+  const interval = value.interval ?? 1
+  if (!isWholeNumber(interval, 1, MAX_RECURRENCE_INTERVAL)) {
+    return { recurrence: null, error: `Recurrence interval must be between 1 and ${MAX_RECURRENCE_INTERVAL}` }
+  }
+  let weekdays: number[] = []
+  if (value.frequency === 'weekly') {
+    weekdays = Array.isArray(value.weekdays) && value.weekdays.length > 0
+      ? value.weekdays
+      : [weekdayOf(dateToDay(startDate))]
+    if (!weekdays.every(day => isWholeNumber(day, 0, 6))) {
+      return { recurrence: null, error: 'Recurrence weekdays must be numbers from 0 (Sunday) to 6' }
+    }
+    weekdays = [...new Set(weekdays)].sort((a, b) => a - b)
+  }
+  if (value.until != null && (!DATE_PATTERN.test(value.until) || value.until < startDate)) {
+    return { recurrence: null, error: 'Recurrence end date must be a date on or after the first one' }
+  }
+  if (value.count != null && !isWholeNumber(value.count, 1, MAX_RECURRENCE_COUNT)) {
+    return { recurrence: null, error: `Recurrence count must be between 1 and ${MAX_RECURRENCE_COUNT}` }
+  }
+
+  return {
+    recurrence: {
+      frequency: value.frequency,
+      interval: value.frequency === 'weekdays' ? 1 : interval,
+      weekdays,
+      monthDay: value.frequency === 'monthly' ? Number(startDate.slice(8, 10)) : null,
+      until: value.until ?? null,
+      count: value.count ?? null
+    },
+    error: null
+  }
+}
+
+// The date after `date`, ignoring the end of the series
+function followingDate(recurrence: Recurrence, date: string): string {
+  const day = dateToDay(date)
+  switch (recurrence.frequency) {
+    case 'daily':
+      return dayToDate(day + recurrence.interval)
+    case 'weekdays': {
+      const weekday = weekdayOf(day)
+      return dayToDate(day + (weekday === 5 ? 3 : weekday === 6 ? 2 : 1))
+    }
+    case 'weekly': {
+      // Weeks start on Monday, as in RRULE
+      const weekday = weekdayOf(day)
+      const mondayBased = (weekday + 6) % 7
+      const laterThisWeek = recurrence.weekdays
+        .map(w => (w + 6) % 7)
+        .filter(w => w > mondayBased)
+        .sort((a, b) => a - b)
+      if (laterThisWeek.length > 0) return dayToDate(day + laterThisWeek[0] - mondayBased)
+      const firstDay = Math.min(...recurrence.weekdays.map(w => (w + 6) % 7))
+      return dayToDate(day - mondayBased + 7 * recurrence.interval + firstDay)
+    }
+    case 'monthly': {
+      const [year, month] = date.split('-').map(Number)
+      const target = new Date(Date.UTC(year, month - 1 + recurrence.interval, 1))
+      const monthDay = Math.min(
+        recurrence.monthDay ?? Number(date.slice(8, 10)),
+        daysInMonth(target.getUTCFullYear(), target.getUTCMonth())
+      )
+      return dayToDate(dateToDay(target.toISOString().slice(0, 10)) + monthDay - 1)
+    }
+  }
+}
+
+// The occurrence after `date`, which is occurrence number `occurrence`
+// (1-based), skipping any that fall before `notBefore`. Null once the series
+// has ended; skipped occurrences still count towards `count`.
+export function nextOccurrence(
+  recurrence: Recurrence,
+  date: string,
+  occurrence: number,
+  notBefore?: string
+): { date: string; occurrence: number } | null {
+  let next = { date, occurrence }
+  do {
+    next = { date: followingDate(recurrence, next.date), occurrence: next.occurrence + 1 }
+    if (recurrence.count !== null && next.occurrence > recurrence.count) return null
+    if (recurrence.until !== null && next.date > recurrence.until) return null
+  } while (notBefore && next.date < notBefore)
+  return next
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th'
+  return `${n}${suffix}`
+}
+
+// "Every 2 weeks on Mon, Thu, until Dec 20" and the like
+export function describeRecurrence(recurrence: Recurrence): string {
+  const every = (unit: string) => recurrence.interval === 1 ? `Every ${unit}` : `Every ${recurrence.interval} ${unit}s`
+  let text: string
+  switch (recurrence.frequency) {
+    case 'daily':
+      text = every('day')
+      break
+    case 'weekdays':
+      text = 'Every weekday'
+      break
+    case 'weekly':
+      text = `${every('week')} on ${recurrence.weekdays.map(day => WEEKDAY_NAMES[day]).join(', ')}`
+      break
+    case 'monthly':
+      text = `${every('month')}${recurrence.monthDay ? ` on the ${ordinal(recurrence.monthDay)}` : ''}`
+      break
+  }
+  if (recurrence.until) {
+    const until = new Date(`${recurrence.until}T00:00:00Z`)
+    text += `, until ${until.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}`
+  }
+  if (recurrence.count) {
+    text += `, ${recurrence.count} time${recurrence.count !== 1 ? 's' : ''}`
+  }
+  return text
+}
@@ -0,0 +1,163 @@
+// Reminders derived from a user's notes, tasks and revision topics. The
+// server works out what is pending from the records themselves plus a small
+// per-user state of what has already been delivered or snoozed, so a reload,
+// a closed tab or a second device never loses or repeats one.
+
+// Imported with their extensions so the edge function (Deno) can load this file
+import { zonedParts, zonedTimeToUtc } from './timezone.tsx'
+import { nextOccurrence } from './recurrence.tsx'
+
+export type ReminderSource = 'note' | 'task' | 'review'
+
+export interface Reminder {
+  // Stable for one occurrence: includes the due time, so moving a reminder
+  // makes it a new one that fires again
+  id: string
+  source: ReminderSource
+  sourceId: string
+  title: string
+  body: string
+  // ISO instant the reminder is due, after any snooze
+  dueAt: string
+  // Dashboard tab that shows the record
+  tab?: string
+}
+
+export interface ReminderState {
+  // Reminders due before the user first loaded reminders are never shown,
+  // so turning the engine on doesn't replay months of history
+  since: string
+  delivered: { [id: string]: string }
+  // Reminder id → ISO instant it was snoozed until
+  snoozed: { [id: string]: string }
+}
+
+export interface ReminderSources {
+  notes: any[]
+  tasks: any[]
+  reviews: any[]
+}
+
+// Tasks are due on a day, not at a time; they remind on the morning of it
+export const TASK_REMINDER_TIME = '08:00'
+export const SNOOZE_MINUTES = [10, 60, 24 * 60]
+export const MAX_SNOOZE_MINUTES = 7 * 24 * 60
+// Delivered reminders older than this are forgotten
+const STATE_RETENTION_DAYS = 30
+// Deliveries kept on a repeating note
+const MAX_REMINDER_HISTORY = 100
+const DAY_MS = 86400000
+
+export const createReminderState = (now: Date): ReminderState => ({
+  since: now.toISOString(),
+  delivered: {},
+  snoozed: {}
+})
+
+const reminderId = (source: ReminderSource, sourceId: string, dueAt: string) => `${source}|${sourceId}|${dueAt}`
+
+export function collectReminders({ notes, tasks, reviews }: ReminderSources, timeZone: string): Reminder[] {
+  const reminders: Reminder[] = []
+
+  notes.forEach((note) => {
+    const dueAt = Date.parse(note.reminderTime)
+    if (Number.isNaN(dueAt)) return
+    const iso = new Date(dueAt).toISOString()
+    reminders.push({
+      id: reminderId('note', note.id, iso),
+      source: 'note',
+      sourceId: note.id,
+      title: note.title,
+      body: note.subject || '',
+      dueAt: iso
+    })
+  })
+
+  tasks.forEach((task) => {
+    if (task.completed || !/^\d{4}-\d{2}-\d{2}$/.test(task.dueDate || '')) return
+    const iso = zonedTimeToUtc(task.dueDate, TASK_REMINDER_TIME, timeZone).toISOString()
+    // A task added after its reminder time doesn't need reminding about
+    if (task.createdAt > iso) return
+    reminders.push({
+      id: reminderId('task', task.id, iso),
+      source: 'task',
+      sourceId: task.id,
+      title: `Due today: ${task.title}`,
+      body: [task.subject, task.priority === 'high' ? 'High priority' : ''].filter(Boolean).join(' · '),
+      dueAt: iso,
+      tab: 'tasks'
+    })
+  })
+
+  reviews.forEach((schedule) => {
+    const dueAt = Date.parse(schedule.srs?.dueAt)
+    if (Number.isNaN(dueAt)) return
+    const iso = new Date(dueAt).toISOString()
+    reminders.push({
+      id: reminderId('review', schedule.id, iso),
+      source: 'review',
+      sourceId: schedule.id,
+      title: `Time to revise: ${schedule.topic}`,
+      body: schedule.subject || '',
+      dueAt: iso,
+      tab: 'revision'
+    })
+  })
+
+  return reminders
+}
+
+// A repeating note's reminder moves on once the current occurrence has been
+// delivered, to the first one still ahead (occurrences missed while away
+// aren't replayed), and the delivery goes into the note's history. Returns
+// only the notes that changed; a series that has ended stops repeating.
+export function advanceRecurringNotes(notes: any[], state: ReminderState, now: Date): any[] {
+  const advanced: any[] = []
+  notes.forEach((note) => {
+    const dueAt = Date.parse(note.reminderTime)
+    if (!note.recurrence || Number.isNaN(dueAt)) return
+    const iso = new Date(dueAt).toISOString()
+    const deliveredAt = state.delivered[reminderId('note', note.id, iso)]
+    if (!deliveredAt) return
+
+    const timeZone = note.timeZone || 'UTC'
+    const { date, time } = zonedParts(new Date(iso), timeZone)
+    let next = nextOccurrence(note.recurrence, date, note.reminderOccurrence || 1)
+    let nextAt = next && zonedTimeToUtc(next.date, time, timeZone)
+    while (next && nextAt! <= now) {
+      next = nextOccurrence(note.recurrence, next.date, next.occurrence)
+      nextAt = next && zonedTimeToUtc(next.date, time, timeZone)
+    }
+
+    const reminderHistory = [...(note.reminderHistory || []), { dueAt: iso, deliveredAt }].slice(-MAX_REMINDER_HISTORY)
+    advanced.push(next
+      ? { ...note, reminderTime: nextAt!.toISOString(), reminderOccurrence: next.occurrence, reminderHistory }
+      : { ...note, recurrence: null, reminderHistory })
+  })
+  return advanced
+}
+
+// Reminders still to be delivered, soonest first, with snoozes applied
+export function pendingReminders(reminders: Reminder[], state: ReminderState): Reminder[] {
+  return reminders
+    .filter(reminder => !state.delivered[reminder.id])
+    .map(reminder => state.snoozed[reminder.id] ? { ...reminder, dueAt: state.snoozed[reminder.id] } : reminder)
+    .filter(reminder => reminder.dueAt >= state.since || state.snoozed[reminder.id])
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+}
+
+// Drops state for reminders that no longer exist (the note was edited, the
+// task completed) and deliveries old enough not to matter. `since` moves up
+// with the cutoff so a forgotten delivery can't come back as missed.
+export function pruneReminderState(state: ReminderState, reminders: Reminder[], now: Date): ReminderState {
+  const existing = new Set(reminders.map(reminder => reminder.id))
+  const cutoff = new Date(now.getTime() - STATE_RETENTION_DAYS * DAY_MS).toISOString()
+  const keep = (entries: { [id: string]: string }) => Object.fromEntries(
+    Object.entries(entries).filter(([id, at]) => existing.has(id) && at >= cutoff)
+  )
+  return {
+    since: state.since > cutoff ? state.since : cutoff,
+    delivered: keep(state.delivered),
+    snoozed: keep(state.snoozed)
+  }
+}
@@ -0,0 +1,520 @@
+// Request schemas for the records users create and edit. The server reads
+// every payload through these before storing anything, and the forms run
+// the same rules before sending, so both report problems the same way: a
+// message per field. Fields a schema doesn't list are dropped, except in
+// strict schemas, which reject them.
+
+import { isValidTimeZone } from './timezone.tsx'
+import { normalizeTimetable, type TimetableBlock } from './timetable.tsx'
+import type { Recurrence } from './recurrence.tsx'
+import { DAY_OFF_REASONS, MAX_MINIMUM_MINUTES } from './streaks.tsx'
+
+export type FieldErrors = { [field: string]: string }
+
+// The body of every 400 response for a payload that fails validation.
+// `error` repeats the first field's message for callers that show just one.
+export interface ValidationFailure {
+  error: string
+  fieldErrors: FieldErrors
+}
+
+interface FieldRule {
+  read: (value: any) => { value?: any; error?: string }
+  // Used when a new record leaves the field out; fields without one are required
+  fallback?: () => any
+  label: string
+}
+
+export interface Schema {
+  fields: { [field: string]: FieldRule }
+  strict?: boolean
+  // Fields the server sets itself, named in strict schemas' errors
+  serverFields?: string[]
+}
+
+export const MAX_TITLE_LENGTH = 200
+export const MAX_SUBJECT_LENGTH = 80
+export const MAX_DESCRIPTION_LENGTH = 2000
+// A single logged session, and everything logged on one day
+export const MAX_SESSION_MINUTES = 8 * 60
+export const MAX_STUDY_MINUTES_PER_DAY = 16 * 60
+// How far back a session can be logged for, in calendar days
+export const MAX_BACKDATE_DAYS = 7
+export const MAX_DISTRACTIONS = 200
+export const MAX_GOAL_TARGET = 100000
+export const MAX_TUITIONS = 20
+export const MAX_TRAVEL_MINUTES = 4 * 60
+export const MAX_HOURS_PER_DAY = 16
+const MAX_NAME_LENGTH = 80
+const MAX_AVATAR_URL_LENGTH = 2048
+const MAX_PREFERENCES = 30
+const MAX_PREFERENCE_LENGTH = 200
+const MAX_CARD_SIDE_LENGTH = 2000
+const MAX_NOTE_CONTENT_LENGTH = 20000
+// Clock skew allowed on times a client says are in the past
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+export const isPlainObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// ---- Field rules ----
+
+// Trimmed unless `keepWhitespace` is set, as markdown needs
+function text(label: string, max: number, options: { required?: boolean; keepWhitespace?: boolean } = {}): FieldRule {
+  return {
+    label,
+    fallback: options.required ? undefined : () => '',
+    read: (value) => {
+      if (value !== null && typeof value !== 'string') return { error: `${label} must be text` }
+      const stored = options.keepWhitespace ? value ?? '' : (value ?? '').trim()
+      if (options.required && !stored.trim()) return { error: `${label} is required` }
+      if (stored.length > max) return { error: `${label} must be at most ${max} characters` }
+      return { value: stored }
+    },
+  }
+}
+
+function integer(label: string, min: number, max: number, fallback?: number): FieldRule {
+  return {
+    label,
+    fallback: fallback === undefined ? undefined : () => fallback,
+    read: (value) => Number.isInteger(value) && value >= min && value <= max
+      ? { value }
+      : { error: `${label} must be a whole number from ${min} to ${max}` },
+  }
+}
+
+function decimal(label: string, min: number, max: number, fallback?: number): FieldRule {
+  return {
+    label,
+    fallback: fallback === undefined ? undefined : () => fallback,
+    read: (value) => typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+      ? { value }
+      : { error: `${label} must be a number from ${min} to ${max}` },
+  }
+}
+
+function choice<T extends string>(label: string, options: readonly T[], fallback?: T): FieldRule {
+  return {
+    label,
+    fallback: fallback === undefined ? undefined : () => fallback,
+    read: (value) => options.includes(value)
+      ? { value }
+      : { error: `${label} must be one of ${options.join(', ')}` },
+  }
+}
+
+function flag(label: string, fallback: boolean): FieldRule {
+  return {
+    label,
+    fallback: () => fallback,
+    read: (value) => typeof value === 'boolean' ? { value } : { error: `${label} must be true or false` },
+  }
+}
+
+// A calendar date (YYYY-MM-DD); optional ones may be left empty
+function calendarDate(label: string, options: { required?: boolean } = {}): FieldRule {
+  return {
+    label,
+    fallback: options.required ? undefined : () => '',
+    read: (value) => {
+      if (!options.required && (value === '' || value === null)) return { value: '' }
+      const valid = typeof value === 'string' && DATE_PATTERN.test(value)
+        && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value)
+      return valid ? { value } : { error: `${label} must be a date (YYYY-MM-DD)` }
+    },
+  }
+}
+
+// A moment in time as an ISO string, stored normalized to UTC
+function instant(label: string, options: { notInFuture?: boolean; maxAgeDays?: number } = {}): FieldRule {
+  return {
+    label,
+    fallback: () => null,
+    read: (value) => {
+      if (value === null || value === '') return { value: null }
+      const time = typeof value === 'string' ? Date.parse(value) : NaN
+      if (Number.isNaN(time)) return { error: `${label} is not a valid date` }
+      if (options.notInFuture && time > Date.now() + FUTURE_TOLERANCE_MS) {
+        return { error: `${label} can't be in the future` }
+      }
+      if (options.maxAgeDays !== undefined && time < Date.now() - options.maxAgeDays * 86400000) {
+        return { error: `${label} can be at most ${options.maxAgeDays} days ago` }
+      }
+      return { value: new Date(time).toISOString() }
+    },
+  }
+}
+
+function timeZone(label: string): FieldRule {
+  return {
+    label,
+    fallback: () => 'UTC',
+    read: (value) => isValidTimeZone(value)
+      ? { value }
+      : { error: `${label} must be an IANA name such as Europe/London` },
+  }
+}
+
+// The rule's shape is checked by readRecurrence once the start date is known
+function recurrenceRule(label: string): FieldRule {
+  return {
+    label,
+    fallback: () => null,
+    read: (value) => value === null || isPlainObject(value)
+      ? { value }
+      : { error: `${label} must be a repeat rule or null` },
+  }
+}
+
+// ---- Reading a payload ----
+
+// Checks `body` against `schema`. A partial read (for updates) only checks
+// the fields present; otherwise missing fields take their fallback or are
+// reported as required. `value` holds only the fields that passed.
+export function readPayload(
+  schema: Schema,
+  body: unknown,
+  options: { partial?: boolean } = {}
+): { value: { [field: string]: any }; fieldErrors: FieldErrors } {
+  const value: { [field: string]: any } = {}
+  const fieldErrors: FieldErrors = {}
+  if (!isPlainObject(body)) {
+    return { value, fieldErrors: { body: 'Expected an object of fields' } }
+  }
+
+  for (const [field, rule] of Object.entries(schema.fields)) {
+    if (body[field] === undefined) {
+      if (options.partial) continue
+      if (rule.fallback) value[field] = rule.fallback()
+      else fieldErrors[field] = `${rule.label} is required`
+      continue
+    }
+    const result = rule.read(body[field])
+    if (result.error) fieldErrors[field] = result.error
+    else value[field] = result.value
+  }
+
+  if (schema.strict) {
+    for (const field of Object.keys(body)) {
+      if (field in schema.fields) continue
+      fieldErrors[field] = schema.serverFields?.includes(field)
+        ? `${field} can't be changed directly`
+        : `${field} is not an editable field`
+    }
+  }
+
+  return { value, fieldErrors }
+}
+
+export const hasFieldErrors = (fieldErrors: FieldErrors) => Object.keys(fieldErrors).length > 0
+
+export const validationFailure = (fieldErrors: FieldErrors): ValidationFailure => ({
+  error: Object.values(fieldErrors)[0] || 'Validation failed',
+  fieldErrors,
+})
+
+// ---- Entity schemas ----
+
+export interface ProfileUpdate {
+  name: string
+  timeZone: string
+  avatar: string | null
+  preferences: { [key: string]: string | number | boolean | null }
+}
+
+export const profileUpdateSchema: Schema = {
+  strict: true,
+  serverFields: [
+    'xp', 'level', 'streak', 'longestStreak', 'lastStudyDate', 'achievements', 'onboardingComplete',
+    'email', 'createdAt', 'xpLedgerStartedAt',
+  ],
+  fields: {
+    name: text('Name', MAX_NAME_LENGTH, { required: true }),
+    timeZone: timeZone('Time zone'),
+    avatar: {
+      label: 'Avatar',
+      read: (value) => value === null || (typeof value === 'string' && /^https:\/\//.test(value) && value.length <= MAX_AVATAR_URL_LENGTH)
+        ? { value }
+        : { error: 'Avatar must be an https URL or null' },
+    },
+    // Free-form display settings, kept flat and small
+    preferences: {
+      label: 'Preferences',
+      read: (value) => {
+        if (!isPlainObject(value)) return { error: 'Preferences must be an object' }
+        const entries = Object.entries(value)
+        if (entries.length > MAX_PREFERENCES) return { error: `At most ${MAX_PREFERENCES} preferences can be saved` }
+        const valid = entries.every(([, v]) => v === null || typeof v === 'boolean'
+          || (typeof v === 'number' && Number.isFinite(v))
+          || (typeof v === 'string' && v.length <= MAX_PREFERENCE_LENGTH))
+        return valid
+          ? { value }
+          : { error: `Preference values must be booleans, numbers, null or text of at most ${MAX_PREFERENCE_LENGTH} characters` }
+      },
+    },
+  },
+}
+
+export type StudySource = 'school' | 'tuition' | 'self-study'
+export const STUDY_SOURCES: StudySource[] = ['school', 'tuition', 'self-study']
+
+export interface StudyRecordInput {
+  subject: string
+  topic: string
+  duration: number
+  focusLevel: number
+  energyLevel: number
+  distractions: number
+  notes: string
+  source: StudySource
+  // Set when the session was timed with the focus timer
+  startedAt: string | null
+  // Set when the session is logged for an earlier day
+  studiedAt: string | null
+}
+
+export const studyRecordSchema: Schema = {
+  fields: {
+    subject: text('Subject', MAX_SUBJECT_LENGTH, { required: true }),
+    topic: text('Topic', MAX_TITLE_LENGTH, { required: true }),
+    duration: integer('Duration', 1, MAX_SESSION_MINUTES),
+    focusLevel: integer('Focus level', 1, 5, 3),
+    energyLevel: integer('Energy level', 1, 5, 3),
+    distractions: integer('Distractions', 0, MAX_DISTRACTIONS, 0),
+    notes: text('Notes', MAX_DESCRIPTION_LENGTH),
+    source: choice('Source', STUDY_SOURCES, 'self-study'),
+    startedAt: instant('Start time', { notInFuture: true }),
+    // Only a rough bound: which calendar day the date falls on depends on
+    // the user's time zone, so the server holds it to MAX_BACKDATE_DAYS days
+    studiedAt: instant('Study date', { notInFuture: true, maxAgeDays: MAX_BACKDATE_DAYS + 1 }),
+  },
+}
+
+// How a saved session went; what was studied and for how long is fixed once
+// it's logged, since XP and the streak were worked out from it
+export const studyRecordReflectionSchema: Schema = {
+  fields: {
+    focusLevel: integer('Focus level', 1, 5, 3),
+    energyLevel: integer('Energy level', 1, 5, 3),
+    notes: text('Notes', MAX_DESCRIPTION_LENGTH),
+  },
+}
+
+export type TaskPriority = 'low' | 'medium' | 'high'
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high']
+
+export interface TaskInput {
+  title: string
+  description: string
+  subject: string
+  dueDate: string
+  priority: TaskPriority
+  completed: boolean
+  recurrence: Recurrence | null
+}
+
+export const taskSchema: Schema = {
+  fields: {
+    title: text('Title', MAX_TITLE_LENGTH, { required: true }),
+    description: text('Description', MAX_DESCRIPTION_LENGTH),
+    subject: text('Subject', MAX_SUBJECT_LENGTH),
+    dueDate: calendarDate('Due date'),
+    priority: choice('Priority', TASK_PRIORITIES, 'medium'),
+    completed: flag('Completed', false),
+    recurrence: recurrenceRule('Repeat'),
+  },
+}
+
+export interface GoalInput {
+  title: string
+  description: string
+  targetDate: string
+  targetValue: number
+}
+
+// Progress and completion aren't here: the server works them out from the
+// increments sent to the progress route
+export const goalSchema: Schema = {
+  fields: {
+    title: text('Title', MAX_TITLE_LENGTH, { required: true }),
+    description: text('Description', MAX_DESCRIPTION_LENGTH),
+    targetDate: calendarDate('Target date'),
+    targetValue: integer('Target value', 1, MAX_GOAL_TARGET, 100),
+  },
+}
+
+export const goalProgressSchema: Schema = {
+  fields: {
+    increment: decimal('Increment', -100, 100),
+  },
+}
+
+export interface RoutineInput {
+  studentType: 'school' | 'college'
+  numberOfTuitions: number
+  schoolDaysPerWeek: number
+  schoolHoursPerDay: number
+  tuitionHoursPerDay: number
+  travelTimeSchool: number
+  travelTimeTuition: number
+  // Monday = 0
+  tuitionDays: number[]
+  tuitionSubjects: { [day: number]: string[] }
+  timetable: TimetableBlock[]
+}
+
+const weekdayList = (label: string): FieldRule => ({
+  label,
+  fallback: () => [],
+  read: (value) => Array.isArray(value) && value.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+    ? { value: [...new Set(value as number[])].sort((a, b) => a - b) }
+    : { error: `${label} must be a list of weekdays from 0 (Monday) to 6` },
+})
+
+export const routineSchema: Schema = {
+  fields: {
+    studentType: choice('Student type', ['school', 'college'] as const),
+    numberOfTuitions: integer('Number of tuitions', 0, MAX_TUITIONS, 0),
+    schoolDaysPerWeek: integer('School days per week', 0, 7, 5),
+    schoolHoursPerDay: decimal('School hours per day', 0, MAX_HOURS_PER_DAY, 6),
+    tuitionHoursPerDay: decimal('Tuition hours per day', 0, MAX_HOURS_PER_DAY, 0),
+    travelTimeSchool: integer('Travel time to school', 0, MAX_TRAVEL_MINUTES, 0),
+    travelTimeTuition: integer('Travel time to tuition', 0, MAX_TRAVEL_MINUTES, 0),
+    tuitionDays: weekdayList('Tuition days'),
+    tuitionSubjects: {
+      label: 'Tuition subjects',
+      fallback: () => ({}),
+      read: (value) => {
+        const valid = isPlainObject(value) && Object.entries(value).every(([day, subjects]) =>
+          /^[0-6]$/.test(day) && Array.isArray(subjects)
+          && subjects.every(subject => typeof subject === 'string' && subject.length <= MAX_SUBJECT_LENGTH)
+        )
+        return valid
+          ? { value }
+          : { error: `Tuition subjects must list subjects of at most ${MAX_SUBJECT_LENGTH} characters per weekday` }
+      },
+    },
+    timetable: {
+      label: 'Timetable',
+      fallback: () => [],
+      read: (value) => {
+        const { blocks, error } = normalizeTimetable(value)
+        return error ? { error } : { value: blocks }
+      },
+    },
+  },
+}
+
+export const streakSettingsSchema: Schema = {
+  fields: {
+    minimumMinutes: integer('Daily minimum', 1, MAX_MINIMUM_MINUTES),
+  },
+}
+
+export const dayOffSchema: Schema = {
+  fields: {
+    from: calendarDate('First day off', { required: true }),
+    to: calendarDate('Last day off', { required: true }),
+    reason: choice('Reason', DAY_OFF_REASONS, 'holiday'),
+  },
+}
+
+// Notes, revision topics, flashcards and documents
+
+export const noteSchema: Schema = {
+  fields: {
+    title: text('Title', MAX_TITLE_LENGTH, { required: true }),
+    content: text('Note', MAX_NOTE_CONTENT_LENGTH, { keepWhitespace: true }),
+    subject: text('Subject', MAX_SUBJECT_LENGTH),
+    reminderTime: instant('Reminder time'),
+    recurrence: recurrenceRule('Repeat'),
+    timeZone: timeZone('Time zone'),
+  },
+}
+
+export const reviewScheduleSchema: Schema = {
+  fields: {
+    subject: text('Subject', MAX_SUBJECT_LENGTH),
+    topic: text('Topic', MAX_TITLE_LENGTH, { required: true }),
+    studiedAt: instant('Study date', { notInFuture: true }),
+  },
+}
+
+export const flashcardSchema: Schema = {
+  fields: {
+    front: text('Front', MAX_CARD_SIDE_LENGTH, { required: true }),
+    back: text('Back', MAX_CARD_SIDE_LENGTH, { required: true }),
+    imageDocumentId: {
+      label: 'Image',
+      fallback: () => null,
+      read: (value) => value === null || value === '' || typeof value === 'string'
+        ? { value: value || null }
+        : { error: 'Image must be a document id' },
+    },
+  },
+}
+
+export const documentSchema: Schema = {
+  fields: {
+    title: text('Title', MAX_TITLE_LENGTH, { required: true }),
+    description: text('Description', MAX_DESCRIPTION_LENGTH),
+    subject: text('Subject', MAX_SUBJECT_LENGTH),
+  },
+}
+
+// Push subscriptions
+
+// The browser push services, with their subdomains: FCM (Chrome, Edge),
+// Mozilla autopush (Firefox), Apple (Safari) and WNS. The dispatcher posts
+// to every stored endpoint, so an endpoint anywhere else is refused.
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'push.services.mozilla.com',
+  'push.apple.com',
+  'notify.windows.com',
+]
+const MAX_PUSH_ENDPOINT_LENGTH = 2048
+const MAX_PUSH_KEY_LENGTH = 200
+
+export function isPushEndpoint(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > MAX_PUSH_ENDPOINT_LENGTH) return false
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return false
+  }
+  return url.protocol === 'https:' && url.port === ''
+    && PUSH_SERVICE_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`))
+}
+
+export interface PushSubscriptionInput {
+  subscription: { endpoint: string; keys: { p256dh: string; auth: string } }
+  timeZone: string
+}
+
+const pushKey = (value: unknown) => typeof value === 'string' && value.length > 0 && value.length <= MAX_PUSH_KEY_LENGTH
+
+export const pushSubscriptionSchema: Schema = {
+  fields: {
+    // What PushSubscription.toJSON() gives, less expirationTime
+    subscription: {
+      label: 'Subscription',
+      read: (value) => {
+        if (!isPlainObject(value) || !isPlainObject(value.keys)) {
+          return { error: 'Subscription must have an endpoint and keys' }
+        }
+        if (!isPushEndpoint(value.endpoint)) {
+          return { error: 'Subscription endpoint must be an https URL on a browser push service' }
+        }
+        if (!pushKey(value.keys.p256dh) || !pushKey(value.keys.auth)) {
+          return { error: 'Subscription keys must include p256dh and auth' }
+        }
+        return { value: { endpoint: value.endpoint, keys: { p256dh: value.keys.p256dh, auth: value.keys.auth } } }
+      },
+    },
+    timeZone: timeZone('Time zone'),
+  },
+}
@@ -0,0 +1,139 @@
+// Full-text search over a user's study data. Matching and ranking are pure
+// functions, used by the edge function's search route.
+
+export type SearchResultType = 'task' | 'goal' | 'review' | 'study-record' | 'document' | 'note'
+
+export interface SearchField {
+  text: string
+  // How much a match in this field counts, e.g. titles above body text
+  weight: number
+}
+
+export interface SearchableItem {
+  type: SearchResultType
+  id: string
+  title: string
+  subtitle?: string
+  // PDF page the fields come from, for document text
+  page?: number
+  fields: SearchField[]
+}
+
+export interface SearchResult {
+  type: SearchResultType
+  id: string
+  title: string
+  subtitle?: string
+  page?: number
+  // Excerpt around the best match, with [start, end) ranges of matched text
+  snippet: string
+  highlights: [number, number][]
+  score: number
+}
+
+export const MAX_QUERY_LENGTH = 200
+const SNIPPET_LENGTH = 160
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+// Lower-cased words of the query, at most ten
+export function tokenize(query: string) {
+  return (query.slice(0, MAX_QUERY_LENGTH).toLowerCase().match(WORD_PATTERN) || []).slice(0, 10)
+}
+
+interface Match {
+  start: number
+  end: number
+}
+
+// Word positions matching each term. Longer terms and the last one, which
+// may still be being typed, also match as word prefixes ("newt" → "Newton").
+function findMatches(text: string, terms: string[]): Match[][] {
+  const words = [...text.toLowerCase().matchAll(WORD_PATTERN)]
+  return terms.map((term, index) => {
+    const isLast = index === terms.length - 1
+    return words
+      .filter(word => isLast || term.length >= 4 ? word[0].startsWith(term) : word[0] === term)
+      .map(word => ({ start: word.index!, end: word.index! + term.length }))
+  })
+}
+
+// Cuts a window of the text around the first match and moves the match
+// ranges into it
+function buildSnippet(text: string, matches: Match[]) {
+  const sorted = [...matches].sort((a, b) => a.start - b.start)
+  let start = Math.max(0, (sorted[0]?.start ?? 0) - SNIPPET_LENGTH / 4)
+  // Don't start in the middle of a word
+  while (start > 0 && /[\p{L}\p{N}]/u.test(text[start - 1])) start--
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+
+  const prefix = start > 0 ? '…' : ''
+  const offset = prefix.length - start
+  const highlights: [number, number][] = sorted
+    .filter(match => match.start >= start && match.end <= end)
+    .map(match => [match.start + offset, match.end + offset])
+
+  return {
+    snippet: prefix + text.slice(start, end) + (end < text.length ? '…' : ''),
+    highlights
+  }
+}
+
+// Scores one item: every query word has to appear in some field. Matches in
+// heavier fields and repeated matches rank higher.
+export function scoreItem(item: SearchableItem, terms: string[]): SearchResult | null {
+  if (terms.length === 0) return null
+
+  const found = terms.map(() => false)
+  let score = 0
+  let best: { text: string; matches: Match[]; score: number } | null = null
+
+  item.fields.forEach((field) => {
+    if (!field.text) return
+    // Whitespace is collapsed first so snippet offsets line up with matches
+    const text = field.text.replace(/\s+/g, ' ').trim()
+    const perTerm = findMatches(text, terms)
+    let fieldScore = 0
+    perTerm.forEach((matches, index) => {
+      if (matches.length === 0) return
+      found[index] = true
+      // Extra occurrences count, but with diminishing returns
+      fieldScore += field.weight * (1 + Math.log(matches.length))
+    })
+    if (fieldScore > 0 && (!best || fieldScore > best.score)) {
+      best = { text, matches: perTerm.flat(), score: fieldScore }
+    }
+    score += fieldScore
+  })
+
+  if (!best || found.some(f => !f)) return null
+  const { text, matches } = best as { text: string; matches: Match[] }
+
+  return {
+    type: item.type,
+    id: item.id,
+    title: item.title,
+    subtitle: item.subtitle,
+    page: item.page,
+    ...buildSnippet(text, matches),
+    score: Math.round(score * 100) / 100
+  }
+}
+
+// Ranks the items against the query. An item may be split into several
+// (one per PDF page); only its best-scoring part is returned.
+export function searchItems(query: string, items: SearchableItem[], limit = 20): SearchResult[] {
+  const terms = tokenize(query)
+  const bestByItem = new Map<string, SearchResult>()
+
+  items.forEach((item) => {
+    const result = scoreItem(item, terms)
+    if (!result) return
+    const key = `${item.type}:${item.id}`
+    const existing = bestByItem.get(key)
+    if (!existing || result.score > existing.score) bestByItem.set(key, result)
+  })
+
+  return [...bestByItem.values()]
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+    .slice(0, limit)
+}
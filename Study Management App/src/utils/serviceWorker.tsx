@@ -0,0 +1,19 @@
+// Registers public/sw.js once per page load. The worker lives at the app's
+// base path so its scope covers the whole app.
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null
+
+export function registerServiceWorker() {
+  if (!registration) {
+    registration = 'serviceWorker' in navigator
+      ? navigator.serviceWorker
+          .register(`${import.meta.env.BASE_URL}sw.js`)
+          .then(() => navigator.serviceWorker.ready)
+          .catch((error) => {
+            console.error('Error registering service worker:', error)
+            return null
+          })
+      : Promise.resolve(null)
+  }
+  return registration
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import {
+  aggregateGrades,
+  createReviewState,
+  MAX_INTERVAL_DAYS,
+  MIN_EASE,
+  previewIntervals,
+  scheduleReview,
+  stateFromFixedSchedule,
+  type RecallGrade,
+  type ReviewState
+} from './spacedRepetition'
+
+const STUDIED = new Date('2026-10-01T09:00:00Z')
+const at = (date: string) => new Date(`${date}T09:00:00Z`)
+
+// A topic part way through its schedule, due on 14 October
+const established = (overrides: Partial<ReviewState> = {}): ReviewState => ({
+  ...createReviewState(STUDIED),
+  intervalDays: 8,
+  repetitions: 3,
+  dueAt: at('2026-10-14').toISOString(),
+  ...overrides
+})
+
+// Reviews on each due date with the same grade, returning the intervals
+function reviewOnTime(grade: RecallGrade, times: number, state = createReviewState(STUDIED)) {
+  const intervals: number[] = []
+  for (let i = 0; i < times; i++) {
+    state = scheduleReview(state, grade, new Date(state.dueAt))
+    intervals.push(state.intervalDays)
+  }
+  return { state, intervals }
+}
+
+describe('createReviewState', () => {
+  it('makes a new topic due the day after it was studied', () => {
+    expect(createReviewState(STUDIED)).toEqual({
+      ease: 2.5,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueAt: '2026-10-02T09:00:00.000Z',
+      lastReviewedAt: null
+    })
+  })
+})
+
+describe('scheduleReview', () => {
+  it('grows the interval with each good recall', () => {
+    const { state, intervals } = reviewOnTime('good', 4)
+    expect(intervals).toEqual([1, 3, 8, 20])
+    expect(state).toMatchObject({ ease: 2.5, repetitions: 4, lapses: 0, dueAt: '2026-11-03T09:00:00.000Z' })
+  })
+
+  it('grows it slower for hard and faster for easy', () => {
+    expect(scheduleReview(established(), 'hard', at('2026-10-14'))).toMatchObject({ intervalDays: 10, ease: 2.35 })
+    expect(scheduleReview(established(), 'good', at('2026-10-14'))).toMatchObject({ intervalDays: 20, ease: 2.5 })
+    expect(scheduleReview(established(), 'easy', at('2026-10-14'))).toMatchObject({ intervalDays: 28, ease: 2.65 })
+  })
+
+  it('never lets the ease fall below the floor', () => {
+    const { state } = reviewOnTime('again', 10)
+    expect(state.ease).toBe(MIN_EASE)
+    expect(scheduleReview(established({ ease: MIN_EASE }), 'hard', at('2026-10-14')).ease).toBe(MIN_EASE)
+  })
+
+  it('starts a forgotten topic over, counting the lapse', () => {
+    const { state } = reviewOnTime('good', 4)
+    const lapsed = scheduleReview(state, 'again', new Date(state.dueAt))
+    expect(lapsed).toMatchObject({ intervalDays: 1, repetitions: 0, lapses: 1, ease: 2.3 })
+
+    // Back through the learning steps, with the lower ease
+    expect(reviewOnTime('good', 3, lapsed).intervals).toEqual([1, 3, 7])
+  })
+
+  it('gives no extra credit for reviewing early, and counts from the review', () => {
+    const early = scheduleReview(established(), 'good', at('2026-10-10'))
+    expect(early).toMatchObject({
+      intervalDays: 20,
+      dueAt: '2026-10-30T09:00:00.000Z',
+      lastReviewedAt: '2026-10-10T09:00:00.000Z'
+    })
+  })
+
+  it('credits part of the delay when a late topic is still recalled', () => {
+    // Four days late: half of it is added for a good recall
+    expect(scheduleReview(established(), 'good', at('2026-10-18')).intervalDays).toBe(25)
+  })
+
+  it('caps the interval', () => {
+    const state = established({ intervalDays: 300 })
+    expect(scheduleReview(state, 'good', new Date(state.dueAt)).intervalDays).toBe(MAX_INTERVAL_DAYS)
+  })
+
+  it('gives the same result for the same review', () => {
+    const reviewedAt = at('2026-10-15')
+    expect(scheduleReview(established(), 'good', reviewedAt)).toEqual(scheduleReview(established(), 'good', reviewedAt))
+  })
+})
+
+describe('previewIntervals', () => {
+  it('orders the grades from again to easy', () => {
+    expect(previewIntervals(established(), at('2026-10-14'))).toEqual({ again: 1, hard: 10, good: 20, easy: 28 })
+  })
+})
+
+describe('aggregateGrades', () => {
+  it('treats a topic without graded cards as recalled', () => {
+    expect(aggregateGrades([])).toBe('good')
+  })
+
+  it('counts forgetting more than a quarter of the deck as forgetting the topic', () => {
+    expect(aggregateGrades(['again', 'again', 'good', 'good', 'easy'])).toBe('again')
+    expect(aggregateGrades(['again', 'good', 'good', 'good'])).toBe('good')
+  })
+
+  it('otherwise goes by the average grade', () => {
+    expect(aggregateGrades(['easy', 'easy', 'good'])).toBe('easy')
+    expect(aggregateGrades(['hard', 'good'])).toBe('good')
+    expect(aggregateGrades(['hard', 'hard', 'good'])).toBe('hard')
+  })
+})
+
+describe('stateFromFixedSchedule', () => {
+  it('counts each completed date of the old plan as a good recall', () => {
+    const reviews = ['2026-10-02T09:00:00.000Z', '2026-10-04T09:00:00.000Z', '2026-10-08T09:00:00.000Z']
+    expect(stateFromFixedSchedule(reviews, reviews.slice(0, 2))).toEqual({
+      ease: 2.5,
+      intervalDays: 3,
+      repetitions: 2,
+      lapses: 0,
+      dueAt: '2026-10-08T09:00:00.000Z',
+      lastReviewedAt: '2026-10-04T09:00:00.000Z'
+    })
+  })
+})
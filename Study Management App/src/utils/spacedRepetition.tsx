@@ -0,0 +1,200 @@
+// Adaptive spaced repetition scheduler (SM-2 family, with Anki-style
+// grading). Pure functions only: it is shared by the React client and the
+// edge function so both agree on when a topic is due next.
+
+export type RecallGrade = 'again' | 'hard' | 'good' | 'easy'
+
+export const RECALL_GRADES: RecallGrade[] = ['again', 'hard', 'good', 'easy']
+
+export const GRADE_LABELS: { [grade in RecallGrade]: string } = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy'
+}
+
+export interface ReviewState {
+  // Multiplier applied to the interval after a successful recall
+  ease: number
+  // Current interval in days; acts as the topic's memory stability
+  intervalDays: number
+  // Successful recalls in a row since the last lapse
+  repetitions: number
+  // Number of times the topic was forgotten
+  lapses: number
+  dueAt: string
+  lastReviewedAt: string | null
+}
+
+export const INITIAL_EASE = 2.5
+export const MIN_EASE = 1.3
+export const MAX_INTERVAL_DAYS = 365
+
+const DAY_MS = 86400000
+
+const HARD_INTERVAL_FACTOR = 1.2
+const EASY_BONUS = 1.3
+
+export function isRecallGrade(value: unknown): value is RecallGrade {
+  return typeof value === 'string' && (RECALL_GRADES as string[]).includes(value)
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS)
+
+const clampInterval = (days: number) => Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(days)))
+
+// A freshly studied topic is first reviewed the next day
+export function createReviewState(studiedAt: Date): ReviewState {
+  return {
+    ease: INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: addDays(studiedAt, 1).toISOString(),
+    lastReviewedAt: null
+  }
+}
+
+// Computes the state after reviewing a topic with the given recall grade
+export function scheduleReview(state: ReviewState, grade: RecallGrade, reviewedAt: Date): ReviewState {
+  const previousInterval = state.intervalDays
+  // Days the review was late by; recalling an overdue topic is evidence of a
+  // stronger memory, so part of the delay is credited to the next interval
+  const overdueDays = Math.max(0, (reviewedAt.getTime() - new Date(state.dueAt).getTime()) / DAY_MS)
+
+  let ease = state.ease
+  let intervalDays: number
+  let repetitions = state.repetitions + 1
+  let lapses = state.lapses
+
+  if (grade === 'again') {
+    ease = Math.max(MIN_EASE, ease - 0.2)
+    intervalDays = 1
+    repetitions = 0
+    lapses += 1
+  } else if (state.repetitions === 0) {
+    // Learning steps: the first successful recalls use fixed intervals
+    if (grade === 'hard') {
+      ease = Math.max(MIN_EASE, ease - 0.15)
+      intervalDays = 1
+    } else if (grade === 'good') {
+      intervalDays = 1
+    } else {
+      ease += 0.15
+      intervalDays = 4
+    }
+  } else if (state.repetitions === 1) {
+    if (grade === 'hard') {
+      ease = Math.max(MIN_EASE, ease - 0.15)
+      intervalDays = 2
+    } else if (grade === 'good') {
+      intervalDays = 3
+    } else {
+      ease += 0.15
+      intervalDays = 6
+    }
+  } else if (grade === 'hard') {
+    ease = Math.max(MIN_EASE, ease - 0.15)
+    intervalDays = clampInterval((previousInterval + overdueDays / 4) * HARD_INTERVAL_FACTOR)
+  } else if (grade === 'good') {
+    intervalDays = Math.max(
+      clampInterval((previousInterval + overdueDays / 2) * ease),
+      clampInterval(previousInterval + 1)
+    )
+  } else {
+    ease += 0.15
+    const goodInterval = Math.max(
+      clampInterval((previousInterval + overdueDays / 2) * state.ease),
+      clampInterval(previousInterval + 1)
+    )
+    intervalDays = Math.max(
+      clampInterval((previousInterval + overdueDays) * ease * EASY_BONUS),
+      clampInterval(goodInterval + 1)
+    )
+  }
+
+  intervalDays = clampInterval(intervalDays)
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: addDays(reviewedAt, intervalDays).toISOString(),
+    lastReviewedAt: reviewedAt.toISOString()
+  }
+}
+
+// Interval in days each grade would produce, for labelling the grade buttons
+export function previewIntervals(state: ReviewState, reviewedAt: Date): { [grade in RecallGrade]: number } {
+  return {
+    again: scheduleReview(state, 'again', reviewedAt).intervalDays,
+    hard: scheduleReview(state, 'hard', reviewedAt).intervalDays,
+    good: scheduleReview(state, 'good', reviewedAt).intervalDays,
+    easy: scheduleReview(state, 'easy', reviewedAt).intervalDays
+  }
+}
+
+export function formatInterval(days: number) {
+  if (days < 30) return `${days}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${Math.round((days / 365) * 10) / 10}y`
+}
+
+const LEGACY_INTERVALS = [1, 3, 7, 14, 30]
+
+// Converts a schedule from the old fixed 1-3-7-14-30 day plan, where each
+// completed date counts as a "good" recall
+export function stateFromFixedSchedule(reviews: string[], completedReviews: string[]): ReviewState {
+  const sortedReviews = [...reviews].sort()
+  const completed = sortedReviews.filter(r => completedReviews.includes(r))
+  const repetitions = completed.length
+  const lastReviewedAt = completed.length > 0 ? completed[completed.length - 1] : null
+  const intervalDays = repetitions > 0
+    ? LEGACY_INTERVALS[Math.min(repetitions, LEGACY_INTERVALS.length) - 1]
+    : 0
+
+  const nextPlanned = sortedReviews.find(r => !completedReviews.includes(r))
+  const dueAt = nextPlanned
+    ?? addDays(new Date(lastReviewedAt ?? Date.now()), clampInterval(intervalDays * INITIAL_EASE)).toISOString()
+
+  return {
+    ease: INITIAL_EASE,
+    intervalDays,
+    repetitions,
+    lapses: 0,
+    dueAt,
+    lastReviewedAt
+  }
+}
+
+const GRADE_SCORES: { [grade in RecallGrade]: number } = {
+  again: 0,
+  hard: 1,
+  good: 2,
+  easy: 3
+}
+
+// Combines the grades given to a topic's flashcards into one grade for the
+// topic. Forgetting more than a quarter of the deck counts as forgetting the
+// topic; otherwise the average recall decides.
+export function aggregateGrades(grades: RecallGrade[]): RecallGrade {
+  if (grades.length === 0) return 'good'
+
+  const againShare = grades.filter(g => g === 'again').length / grades.length
+  if (againShare > 0.25) return 'again'
+
+  const meanScore = grades.reduce((sum, g) => sum + GRADE_SCORES[g], 0) / grades.length
+  if (meanScore >= 2.5) return 'easy'
+  if (meanScore >= 1.5) return 'good'
+  return 'hard'
+}
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ')
+
+// Keys used to recognise a topic or card that already exists when a deck is
+// imported, ignoring case and spacing differences
+export const topicMatchKey = (subject: string, topic: string) =>
+  `${normalizeText(subject)}|${normalizeText(topic)}`
+
+export const cardMatchKey = (front: string) => normalizeText(front)
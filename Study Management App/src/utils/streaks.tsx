@@ -0,0 +1,148 @@
+// Study streaks, worked out from the full study history so that logging a
+// session for an earlier day or deleting one gives the same answer as if
+// it had always been that way. Days are calendar days in the user's time
+// zone. A day counts once its sessions add up to the user's minimum;
+// declared days off (holidays, sick days) neither count nor break the
+// streak, and a missed day is covered by a freeze token if one is held.
+// Tokens are earned every FREEZE_EARN_DAYS days of an unbroken streak.
+
+import { addDays, dateToDay, zonedDateKey } from './timezone.tsx'
+
+export type DayOffReason = 'holiday' | 'sick'
+
+export interface DayOff {
+  date: string
+  reason: DayOffReason
+}
+
+export interface StreakSettings {
+  minimumMinutes: number
+  daysOff: DayOff[]
+}
+
+export interface StreakSummary {
+  current: number
+  longest: number
+  // Freeze tokens held now
+  freezes: number
+  // Missed days in the current streak that a freeze covered
+  frozenDays: string[]
+  lastStudyDay: string | null
+  today: string
+  todayMinutes: number
+  todayComplete: boolean
+  // The streak ends (or uses a freeze) at midnight unless today counts
+  atRisk: boolean
+}
+
+export const DAY_OFF_REASONS: DayOffReason[] = ['holiday', 'sick']
+export const DEFAULT_MINIMUM_MINUTES = 20
+export const MAX_MINIMUM_MINUTES = 240
+export const FREEZE_EARN_DAYS = 7
+export const MAX_FREEZES = 2
+// Days off may be declared a little after the fact, and not too far ahead
+export const MAX_DAY_OFF_BACKDATE_DAYS = 7
+export const MAX_DAY_OFF_LEAD_DAYS = 90
+export const MAX_DAYS_OFF_PER_REQUEST = 14
+export const MAX_DAYS_OFF_PER_YEAR = 30
+
+export const defaultStreakSettings = (): StreakSettings => ({
+  minimumMinutes: DEFAULT_MINIMUM_MINUTES,
+  daysOff: []
+})
+
+// The day a study record counts towards. Sessions logged for an earlier
+// day carry studiedAt; timed ones their start time.
+export const studyDayOf = (record: any, timeZone: string) =>
+  zonedDateKey(new Date(record.studiedAt || record.startedAt || record.createdAt), timeZone)
+
+export function computeStreak(records: any[], settings: StreakSettings, timeZone: string, now: Date): StreakSummary {
+  const today = zonedDateKey(now, timeZone)
+  const minutesByDay = new Map<string, number>()
+  for (const record of records) {
+    const day = studyDayOf(record, timeZone)
+    minutesByDay.set(day, (minutesByDay.get(day) || 0) + (Number(record.duration) || 0))
+  }
+  const counts = (day: string) => (minutesByDay.get(day) || 0) >= settings.minimumMinutes
+  const daysOff = new Set(settings.daysOff.map(dayOff => dayOff.date))
+
+  const studyDays = [...minutesByDay.keys()].filter(day => counts(day) && day <= today).sort()
+  let current = 0
+  let longest = 0
+  let freezes = 0
+  let frozenDays: string[] = []
+
+  if (studyDays.length > 0) {
+    for (let day = studyDays[0]; day <= today; day = addDays(day, 1)) {
+      if (counts(day)) {
+        current++
+        longest = Math.max(longest, current)
+        if (current % FREEZE_EARN_DAYS === 0) freezes = Math.min(MAX_FREEZES, freezes + 1)
+      } else if (day === today || daysOff.has(day) || current === 0) {
+        // Today isn't over; days off and days before any streak don't matter
+      } else if (freezes > 0) {
+        freezes--
+        frozenDays.push(day)
+      } else {
+        current = 0
+        frozenDays = []
+      }
+    }
+  }
+
+  const todayMinutes = minutesByDay.get(today) || 0
+  const todayComplete = counts(today)
+  return {
+    current,
+    longest,
+    freezes,
+    frozenDays,
+    lastStudyDay: studyDays[studyDays.length - 1] || null,
+    today,
+    todayMinutes,
+    todayComplete,
+    atRisk: current > 0 && !todayComplete && !daysOff.has(today)
+  }
+}
+
+// Checks a request to take `from`..`to` off against the limits above and
+// returns the days to add, or a message for the field at fault
+export function planDaysOff(
+  existing: DayOff[],
+  from: string,
+  to: string,
+  reason: DayOffReason,
+  today: string
+): { days: DayOff[]; fieldErrors: { [field: string]: string } } {
+  if (to < from) {
+    return { days: [], fieldErrors: { to: 'The last day off must be on or after the first' } }
+  }
+  if (from < addDays(today, -MAX_DAY_OFF_BACKDATE_DAYS)) {
+    return { days: [], fieldErrors: { from: `Days off can be declared at most ${MAX_DAY_OFF_BACKDATE_DAYS} days after the fact` } }
+  }
+  if (to > addDays(today, MAX_DAY_OFF_LEAD_DAYS)) {
+    return { days: [], fieldErrors: { to: `Days off can be planned at most ${MAX_DAY_OFF_LEAD_DAYS} days ahead` } }
+  }
+  const count = dateToDay(to) - dateToDay(from) + 1
+  if (count > MAX_DAYS_OFF_PER_REQUEST) {
+    return { days: [], fieldErrors: { to: `At most ${MAX_DAYS_OFF_PER_REQUEST} days off can be added at once` } }
+  }
+
+  const taken = new Set(existing.map(dayOff => dayOff.date))
+  const days: DayOff[] = []
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    if (!taken.has(day)) days.push({ date: day, reason })
+  }
+
+  // The yearly allowance is per calendar year
+  const perYear = new Map<string, number>()
+  for (const { date } of [...existing, ...days]) {
+    perYear.set(date.slice(0, 4), (perYear.get(date.slice(0, 4)) || 0) + 1)
+  }
+  const overYear = [...perYear.entries()].find(([, total]) => total > MAX_DAYS_OFF_PER_YEAR)
+  if (overYear) {
+    return { days: [], fieldErrors: { from: `At most ${MAX_DAYS_OFF_PER_YEAR} days off can be taken in ${overYear[0]}` } }
+  }
+
+  return { days, fieldErrors: {} }
+}
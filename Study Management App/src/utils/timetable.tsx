@@ -0,0 +1,183 @@
+// Weekly timetable: the fixed commitments (school, tuition, travel and any
+// custom recurring blocks) a student has on each weekday. Shared by the
+// React client and the edge function, which validates it on save.
+
+import { isPlainObject } from './schemas.tsx'
+
+export type TimetableBlockType = 'school' | 'tuition' | 'travel' | 'custom'
+
+export interface TimetableBlock {
+  id: string
+  // 0 = Monday ... 6 = Sunday, matching the onboarding day indexes
+  day: number
+  type: TimetableBlockType
+  title: string
+  subject?: string
+  // Local wall-clock times as HH:MM
+  start: string
+  end: string
+}
+
+export const TIMETABLE_BLOCK_TYPES: TimetableBlockType[] = ['school', 'tuition', 'travel', 'custom']
+
+export const BLOCK_TYPE_LABELS: { [type in TimetableBlockType]: string } = {
+  school: 'School/College',
+  tuition: 'Tuition',
+  travel: 'Travel',
+  custom: 'Other'
+}
+
+// Time that is never available for study, as assumed by the routine overview
+export const SLEEP_MINUTES = 8 * 60
+export const MEALS_AND_PERSONAL_MINUTES = 3 * 60
+
+const MAX_BLOCKS = 100
+const MAX_LABEL_LENGTH = 80
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+export const isValidTime = (value: unknown): value is string =>
+  typeof value === 'string' && TIME_PATTERN.test(value)
+
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+export const minutesToTime = (minutes: number) => {
+  const clamped = Math.min(23 * 60 + 59, Math.max(0, Math.round(minutes)))
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`
+}
+
+export const blockMinutes = (block: TimetableBlock) => timeToMinutes(block.end) - timeToMinutes(block.start)
+
+export function blocksForDay(blocks: TimetableBlock[], day: number) {
+  return blocks
+    .filter(block => block.day === day)
+    .sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start))
+}
+
+// Minutes of the day taken by blocks, counting overlapping blocks once
+export function committedMinutes(dayBlocks: TimetableBlock[]) {
+  const intervals = dayBlocks
+    .map(block => [timeToMinutes(block.start), timeToMinutes(block.end)])
+    .sort((a, b) => a[0] - b[0])
+
+  let total = 0
+  let currentStart = -1
+  let currentEnd = -1
+  intervals.forEach(([start, end]) => {
+    if (start > currentEnd) {
+      total += currentEnd - currentStart
+      currentStart = start
+      currentEnd = end
+    } else {
+      currentEnd = Math.max(currentEnd, end)
+    }
+  })
+  return total + (currentEnd - currentStart)
+}
+
+export function availableStudyMinutes(blocks: TimetableBlock[], day: number) {
+  const free = 24 * 60 - SLEEP_MINUTES - MEALS_AND_PERSONAL_MINUTES - committedMinutes(blocksForDay(blocks, day))
+  return Math.max(0, free)
+}
+
+const newBlockId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+// Turns the onboarding answers (hours per day, travel minutes) into a first
+// timetable, starting school at 9:00, for the student to correct
+export function timetableFromRoutine(routine: any): TimetableBlock[] {
+  const blocks: TimetableBlock[] = []
+  const schoolMinutes = Math.round((routine?.schoolHoursPerDay || 0) * 60)
+  const tuitionMinutes = Math.round((routine?.tuitionHoursPerDay || 0) * 60)
+  const schoolTravel = routine?.travelTimeSchool || 0
+  const tuitionTravel = routine?.travelTimeTuition || 0
+  const schoolLabel = routine?.studentType === 'college' ? 'College' : 'School'
+
+  for (let day = 0; day < 7; day++) {
+    let cursor = 9 * 60
+    const isSchoolDay = day < (routine?.schoolDaysPerWeek || 0) && schoolMinutes > 0
+
+    if (isSchoolDay) {
+      if (schoolTravel > 0) {
+        blocks.push({ id: newBlockId(), day, type: 'travel', title: 'Travel', start: minutesToTime(cursor - schoolTravel), end: minutesToTime(cursor) })
+      }
+      blocks.push({ id: newBlockId(), day, type: 'school', title: schoolLabel, start: minutesToTime(cursor), end: minutesToTime(cursor + schoolMinutes) })
+      cursor += schoolMinutes
+      if (schoolTravel > 0) {
+        blocks.push({ id: newBlockId(), day, type: 'travel', title: 'Travel', start: minutesToTime(cursor), end: minutesToTime(cursor + schoolTravel) })
+        cursor += schoolTravel
+      }
+    }
+
+    if (routine?.tuitionDays?.includes(day) && tuitionMinutes > 0) {
+      const start = isSchoolDay ? cursor + 60 : 10 * 60
+      const subjects: string[] = routine.tuitionSubjects?.[day] || []
+      blocks.push({
+        id: newBlockId(),
+        day,
+        type: 'tuition',
+        title: 'Tuition',
+        subject: subjects.join(', ') || undefined,
+        start: minutesToTime(start),
+        end: minutesToTime(start + tuitionMinutes)
+      })
+      if (tuitionTravel > 0) {
+        blocks.push({ id: newBlockId(), day, type: 'travel', title: 'Travel', start: minutesToTime(start + tuitionMinutes), end: minutesToTime(start + tuitionMinutes + tuitionTravel) })
+      }
+    }
+  }
+
+  return blocks
+}
+
+// Trimmed and shortened text, or '' for anything else
+const readLabel = (value: unknown) => typeof value === 'string' ? value.trim().slice(0, MAX_LABEL_LENGTH) : ''
+
+// Checks a timetable sent by the client; returns the cleaned blocks or the
+// first problem found
+export function normalizeTimetable(input: unknown): { blocks: TimetableBlock[]; error: string | null } {
+  if (!Array.isArray(input)) {
+    return { blocks: [], error: 'Timetable must be an array' }
+  }
+  if (input.length > MAX_BLOCKS) {
+    return { blocks: [], error: `A timetable can have at most ${MAX_BLOCKS} blocks` }
+  }
+
+  const blocks: TimetableBlock[] = []
+  const items: unknown[] = input
+  for (const raw of items) {
+    if (!isPlainObject(raw)) {
+      return { blocks: [], error: 'Each block must be an object' }
+    }
+    const { day, start, end } = raw
+    if (typeof day !== 'number' || !Number.isInteger(day) || day < 0 || day > 6) {
+      return { blocks: [], error: 'Each block needs a weekday' }
+    }
+    if (!isValidTime(start) || !isValidTime(end)) {
+      return { blocks: [], error: 'Times must be in HH:MM format' }
+    }
+    if (timeToMinutes(end) <= timeToMinutes(start)) {
+      return { blocks: [], error: 'Each block must end after it starts' }
+    }
+
+    const type = TIMETABLE_BLOCK_TYPES.find(blockType => blockType === raw.type) ?? 'custom'
+    const title = readLabel(raw.title) || BLOCK_TYPE_LABELS[type]
+    const subject = readLabel(raw.subject)
+
+    blocks.push({
+      id: typeof raw.id === 'string' && raw.id ? raw.id : newBlockId(),
+      day,
+      type,
+      title,
+      ...(subject ? { subject } : {}),
+      start,
+      end
+    })
+  }
+
+  return { blocks, error: null }
+}
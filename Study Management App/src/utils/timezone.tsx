@@ -0,0 +1,100 @@
+// Calendar dates and wall-clock times in a named IANA time zone. The app's
+// dates are YYYY-MM-DD strings and times HH:MM, as in the forms; these
+// helpers turn an instant into those for a given zone and back.
+
+const DAY_MS = 86400000
+
+// Calendar arithmetic on YYYY-MM-DD dates is done in UTC, so the answer
+// doesn't depend on the machine's time zone or its daylight saving changes
+export const dateToDay = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS)
+const dayToDate = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10)
+export const addDays = (date: string, days: number) => dayToDate(dateToDay(date) + days)
+
+export function getLocalTimeZone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch {
+    return 'UTC'
+  }
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export interface ZonedParts {
+  date: string
+  time: string
+  // 0 = Sunday ... 6 = Saturday, as Date.getDay()
+  weekday: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+function zonedFields(date: Date, timeZone: string) {
+  const fields: { [type: string]: number } = {}
+  formatterFor(timeZone).formatToParts(date).forEach((part) => {
+    if (part.type !== 'literal') fields[part.type] = parseInt(part.value)
+  })
+  return fields
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// The calendar date, time of day and weekday at `date` in the time zone
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const { year, month, day, hour, minute } = zonedFields(date, timeZone)
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    time: `${pad(hour)}:${pad(minute)}`,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  }
+}
+
+export const zonedDateKey = (date: Date, timeZone: string) => zonedParts(date, timeZone).date
+
+// Milliseconds the zone is ahead of UTC at the instant
+function zoneOffset(instant: number, timeZone: string) {
+  const { year, month, day, hour, minute, second } = zonedFields(new Date(instant), timeZone)
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second)
+  return asUtc - Math.floor(instant / 1000) * 1000
+}
+
+// The instant a wall clock in the time zone shows `time` on `date`. Times
+// skipped by a daylight saving change resolve to the hour after.
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  // The offset at the guess can differ from the offset at the answer near a
+  // daylight saving change, so correct once more. If the corrected instant
+  // doesn't show that time either, the time was skipped.
+  const guess = wallClock - zoneOffset(wallClock, timeZone)
+  const corrected = wallClock - zoneOffset(guess, timeZone)
+  return new Date(zoneOffset(corrected, timeZone) === wallClock - corrected ? corrected : guess)
+}